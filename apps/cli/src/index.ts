@@ -1,24 +1,87 @@
 import { Command, CommanderError } from "commander";
+import { randomUUID } from "node:crypto";
 import { mkdirSync } from "node:fs";
 import { readFile, writeFile } from "node:fs/promises";
 import { createInterface } from "node:readline/promises";
 import path from "node:path";
 import os from "node:os";
-import { WebSocket, type RawData } from "ws";
-import { ProtocolAddress } from "@signalapp/libsignal-client";
 import {
+  AttachmentUploadResponseSchema,
+  DeviceListResponseSchema,
+  GroupListResponseSchema,
+  GroupMessageResponseSchema,
+  PreKeyUploadResponseSchema,
+  RelayDiagnosticsSchema,
+  RelayGroupSchema,
+  decryptAttachment,
   decryptMessage,
+  deleteInboxMessage,
+  applyReceipt,
+  changePassphrase,
+  createBackup,
+  encodeAttachmentMessage,
+  encodeReceiptMessage,
+  encryptAttachment,
+  encryptGroupMessage,
   encryptMessage,
+  encryptSenderKeyForDevices,
   exportBundle,
+  exportIdentityKey,
+  exportPreKeyUpload,
+  fetchRelayJson,
+  formatSafetyNumber,
   generatePreKeys,
+  getGroup,
+  getIdentityTrust,
+  getInboxMessage,
+  getSessionInfo,
+  getSafetyNumber,
   initSession,
   initializeIdentity,
+  isSealedEnvelope,
+  isUntrustedIdentityError,
+  listGroups,
+  listIdentityHistory,
+  listSafetyNumbers,
   loadEnvelope,
-  listInboxMessages,
+  listSentMessages,
+  listSessionDeviceIds,
+  listSessions,
+  markInboxMessagesRead,
+  markPreKeysUploaded,
+  matchesSafetyNumber,
   openStore,
+  parseAttachmentMessage,
+  parseReceiptMessage,
+  pruneInbox,
+  queryInboxMessages,
+  restoreBackup,
+  PREKEY_BATCH_SIZE,
   saveInboxMessage,
+  saveSentMessage,
+  sentMessageStatus,
+  setIdentityVerified,
+  SignalClient,
+  SIGNED_PREKEY_GRACE_MS,
+  SIGNED_PREKEY_ROTATION_MS,
+  syncGroup,
+  TRUST_POLICIES,
+  trustIdentity,
+  untrustIdentity,
+  type AttachmentPointer,
   type Bundle,
-  type InboxMessage
+  type GroupState,
+  type IdentityEvent,
+  type IdentityTrust,
+  type InboxMessage,
+  type MessageStatus,
+  type ReceiptType,
+  type ReceivedMessage,
+  type SafetyNumber,
+  type SentMessage,
+  type SignalState,
+  type SignalStateOptions,
+  type TrustPolicy
 } from "@mega/signal-core";
 
 const program = new Command();
@@ -27,7 +90,8 @@ program
   .description("Minimal Signal Protocol CLI (phase zero)")
   .option("--db <path>", "Path to local SQLite DB")
   .option("--passphrase <passphrase>", "Passphrase for local DB encryption")
-  .option("--server <url>", "Relay server base URL", "http://localhost:8080");
+  .option("--server <url>", "Relay server base URL", "http://localhost:8080")
+  .option("--trust-policy <policy>", "How changed peer identity keys are handled: tofu, strict or warn (default: tofu)");
 
 program.exitOverride();
 
@@ -52,12 +116,62 @@ async function promptPassphrase(): Promise<string> {
   return passphrase;
 }
 
+async function promptNewPassphrase(label = "New passphrase"): Promise<string> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  const passphrase = await rl.question(`${label} (input visible): `);
+  const confirmation = await rl.question(`Repeat ${label.toLowerCase()}: `);
+  rl.close();
+  if (!passphrase) throw new Error("Passphrase required.");
+  if (passphrase !== confirmation) throw new Error("Passphrases do not match.");
+  return passphrase;
+}
+
+// Backups use their own passphrase; creating one asks twice, restoring once.
+async function resolveBackupPassphrase(cmdOpts: { backupPassphrase?: string }, confirm: boolean): Promise<string> {
+  const given = cmdOpts.backupPassphrase ?? process.env.MEGA_BACKUP_PASSPHRASE;
+  if (given) return given;
+  if (confirm) return await promptNewPassphrase("Backup passphrase");
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  const passphrase = await rl.question("Backup passphrase (input visible): ");
+  rl.close();
+  return passphrase;
+}
+
 async function resolvePassphrase(opts: { passphrase?: string }): Promise<string> {
   if (opts.passphrase) return opts.passphrase;
   if (process.env.MEGA_PASSPHRASE) return process.env.MEGA_PASSPHRASE;
   return await promptPassphrase();
 }
 
+function resolveTrustPolicy(opts: { trustPolicy?: string }): TrustPolicy {
+  const policy = opts.trustPolicy ?? process.env.MEGA_TRUST_POLICY ?? "tofu";
+  if (!TRUST_POLICIES.includes(policy as TrustPolicy)) {
+    throw new Error(`Unknown trust policy '${policy}'. Use one of: ${TRUST_POLICIES.join(", ")}.`);
+  }
+  return policy as TrustPolicy;
+}
+
+// Under "strict" only a verified key is trusted, so the hint names verify instead of trust.
+function warnIdentityEvent(policy: TrustPolicy): (event: IdentityEvent) => void {
+  return (event) => {
+    const peerId = event.address.replace(/\.\d+$/, "");
+    const next =
+      policy === "strict"
+        ? `compare safety numbers with 'mega identity verify --peer ${peerId}'`
+        : `compare safety numbers, then run 'mega identity trust --peer ${peerId}'`;
+    if (event.kind === "changed") {
+      console.error(`Warning: identity key for ${event.address} changed; ${next}.`);
+    } else if (event.kind === "refused") {
+      console.error(`Refused identity key for ${event.address} (${policy} policy); ${next}.`);
+    }
+  };
+}
+
+function stateOptions(opts: { trustPolicy?: string }): SignalStateOptions {
+  const trustPolicy = resolveTrustPolicy(opts);
+  return { trustPolicy, onIdentityEvent: warnIdentityEvent(trustPolicy) };
+}
+
 async function readText(source?: string): Promise<string> {
   if (!source || source === "-") {
     return await new Promise((resolve, reject) => {
@@ -88,42 +202,101 @@ function resolveServerUrl(opts: { server?: string }): string {
   return opts.server ?? "http://localhost:8080";
 }
 
-function resolveWsUrl(serverBase: string, clientId: string, wsOverride?: string): string {
-  if (wsOverride) return wsOverride;
-  const base = new URL(serverBase);
-  const wsProtocol = base.protocol === "https:" ? "wss:" : "ws:";
-  const wsUrl = new URL("/ws", `${wsProtocol}//${base.host}`);
-  wsUrl.searchParams.set("client_id", clientId);
-  return wsUrl.toString();
+function requireLocalIdentity(state: SignalState, expectedId?: string): string {
+  const localId = state.getLocalIdentity();
+  if (!localId) throw new Error("Local identity not set. Run 'mega init'.");
+  if (expectedId && expectedId !== localId) {
+    throw new Error(`Local identity is '${localId}', not '${expectedId}'. Use --db to select another store.`);
+  }
+  return localId;
+}
+
+// Receipts name messages by the timestamps the sender stamped on them, and go sealed
+// when the messages came sealed so they reveal no more to the relay than the originals.
+async function sendReceipt(
+  signalClient: SignalClient,
+  to: string,
+  receipt: ReceiptType,
+  timestamps: number[],
+  sealed: boolean
+): Promise<void> {
+  await signalClient.send(to, encodeReceiptMessage(receipt, timestamps), { sealed: sealed ? "preferred" : undefined });
 }
 
-async function httpPostJson<T>(url: string, body: unknown): Promise<T> {
-  const res = await fetch(url, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(body)
+function printSafetyNumber(number: SafetyNumber, trust?: IdentityTrust): void {
+  const status = trust && trust.status !== "trusted" ? `, ${trust.status}` : "";
+  console.log(`${number.peerId} (device ${number.deviceId}): ${number.verified ? "verified" : "not verified"}${status}`);
+  console.log(`  ${formatSafetyNumber(number.displayable)}`);
+  console.log(`  scan: ${number.scannable}`);
+}
+
+// Group commands take an id or, when it is unambiguous, the name of a group synced before.
+function resolveGroupId(state: SignalState, ref: string): string {
+  if (getGroup(state, ref)) return ref;
+  const named = listGroups(state).filter((group) => group.name === ref);
+  if (named.length > 1) throw new Error(`Several groups are named '${ref}'; use the group id.`);
+  return named[0]?.id ?? ref;
+}
+
+async function fetchGroup(signalClient: SignalClient, groupId: string): Promise<GroupState> {
+  const info = await signalClient.getJson(`/v1/groups/${encodeURIComponent(groupId)}`, RelayGroupSchema, {
+    signed: true
   });
-  if (!res.ok) {
-    const msg = await res.text();
-    throw new Error(`HTTP ${res.status}: ${msg}`);
+  return syncGroup(signalClient.state, info);
+}
+
+// Sends our sender key over the pairwise sessions to member devices that lack it. The
+// relay queues per device in order, so it arrives ahead of the group message.
+async function distributeSenderKey(signalClient: SignalClient, group: GroupState): Promise<void> {
+  for (const member of group.members) {
+    const devices = await signalClient.ensureSessionWith(member);
+    const envelopes = await encryptSenderKeyForDevices(signalClient.state, group.id, member, devices);
+    for (const envelope of envelopes) await signalClient.postEnvelope(member, envelope);
   }
-  return (await res.json()) as T;
 }
 
-async function httpGetJson<T>(url: string): Promise<T> {
-  const res = await fetch(url);
-  if (!res.ok) {
-    const msg = await res.text();
-    throw new Error(`HTTP ${res.status}: ${msg}`);
+function formatSender(state: SignalState, senderId: string, groupId?: string): string {
+  if (!groupId) return senderId;
+  return `${senderId} @ ${getGroup(state, groupId)?.name ?? groupId}`;
+}
+
+// Encrypts each file locally and uploads only the ciphertext; the returned pointers hold
+// the keys and go inside the Signal message.
+async function uploadAttachments(signalClient: SignalClient, files: string[]): Promise<AttachmentPointer[]> {
+  const pointers: AttachmentPointer[] = [];
+  for (const file of files) {
+    const encrypted = encryptAttachment(await readFile(file));
+    const { id } = await signalClient.postBytes("/v1/attachments", encrypted.ciphertext, AttachmentUploadResponseSchema, {
+      signed: true
+    });
+    pointers.push({
+      id,
+      key: encrypted.key,
+      digest: encrypted.digest,
+      size: encrypted.size,
+      fileName: path.basename(file)
+    });
   }
-  return (await res.json()) as T;
+  return pointers;
 }
 
-function ensureBundle(input: unknown): Bundle {
-  if (!input || typeof input !== "object") throw new Error("Invalid bundle payload.");
-  const bundle = input as Bundle;
-  if (!bundle.id) throw new Error("Invalid bundle payload.");
-  return bundle;
+// Shows attachment messages as their text plus a short list; anything else unchanged.
+function formatPlaintext(plaintext: string): string {
+  const message = parseAttachmentMessage(plaintext);
+  if (!message) return plaintext;
+  const files = message.attachments.map((file) => `${file.fileName ?? file.id} (${file.size} bytes)`);
+  return `${message.text}${message.text ? " " : ""}[attachments: ${files.join(", ")}]`;
+}
+
+function collectOption(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+function parseIdList(value: string): string[] {
+  return value
+    .split(",")
+    .map((id) => id.trim())
+    .filter((id) => id.length > 0);
 }
 
 program
@@ -137,29 +310,30 @@ program
     ensureDbDir(dbPath);
     const passphrase = await resolvePassphrase(opts);
 
-    const state = openStore(dbPath, passphrase);
+    const state = openStore(dbPath, passphrase, stateOptions(opts));
     await initializeIdentity(state, cmdOpts.id, Number(cmdOpts.device));
-    await generatePreKeys(state, 1);
+    await generatePreKeys(state, PREKEY_BATCH_SIZE);
 
     console.log(`Initialized identity '${cmdOpts.id}' in ${dbPath}`);
   });
 
-program
-  .command("identity")
-  .description("Identity operations")
+const identity = program.command("identity").description("Identity operations");
+
+identity
   .command("show")
   .description("Show local identity info")
   .action(async () => {
     const opts = program.opts();
     const dbPath = resolveDbPath(opts);
     const passphrase = await resolvePassphrase(opts);
-    const state = openStore(dbPath, passphrase);
+    const state = openStore(dbPath, passphrase, stateOptions(opts));
     console.log(
       JSON.stringify(
         {
           id: state.getLocalIdentity(),
           registrationId: state.getRegistrationId(),
-          deviceId: state.getDeviceId()
+          deviceId: state.getDeviceId(),
+          identityKey: exportIdentityKey(state)
         },
         null,
         2
@@ -167,9 +341,197 @@ program
     );
   });
 
-program
-  .command("prekey")
-  .description("Prekey operations")
+identity
+  .command("fingerprint")
+  .description("Show safety numbers for peers whose identity keys are stored locally")
+  .option("--peer <id>", "Only this peer")
+  .option("--device <n>", "Peer device (default: lowest known; needs --peer)")
+  .option("--json", "Output as JSON")
+  .action(async (cmdOpts) => {
+    const opts = program.opts();
+    const dbPath = resolveDbPath(opts);
+    const passphrase = await resolvePassphrase(opts);
+    const state = openStore(dbPath, passphrase, stateOptions(opts));
+    requireLocalIdentity(state);
+
+    const deviceId = cmdOpts.device ? Number(cmdOpts.device) : undefined;
+    const numbers = cmdOpts.peer
+      ? [await getSafetyNumber(state, cmdOpts.peer, deviceId)]
+      : await listSafetyNumbers(state);
+    if (cmdOpts.json) {
+      console.log(JSON.stringify(numbers, null, 2));
+      return;
+    }
+    if (numbers.length === 0) {
+      console.log("No peer identity keys stored yet.");
+      return;
+    }
+    for (const number of numbers) printSafetyNumber(number, getIdentityTrust(state, number.peerId, number.deviceId));
+  });
+
+identity
+  .command("verify")
+  .description("Compare a peer's safety number out of band and mark their identity key verified")
+  .requiredOption("--peer <id>", "Peer identity id")
+  .option("--device <n>", "Peer device (default: lowest known)")
+  .option("--safety-number <digits>", "The number the peer read out; marks verified only if it matches")
+  .option("--scanned <payload>", "The base64 payload scanned from the peer's QR code")
+  .option("--unverify", "Clear the verified flag")
+  .action(async (cmdOpts) => {
+    const opts = program.opts();
+    const server = resolveServerUrl(opts);
+    const dbPath = resolveDbPath(opts);
+    const passphrase = await resolvePassphrase(opts);
+    const state = openStore(dbPath, passphrase, stateOptions(opts));
+    requireLocalIdentity(state);
+    const signalClient = new SignalClient(state, { relayUrl: server });
+
+    const peerId: string = cmdOpts.peer;
+    const deviceId = cmdOpts.device ? Number(cmdOpts.device) : undefined;
+    if (cmdOpts.unverify) {
+      const number = await setIdentityVerified(state, peerId, false, deviceId);
+      console.log(`Cleared verification for ${peerId} (device ${number.deviceId}).`);
+      return;
+    }
+    // Without a session there is no key to verify yet; take the one the relay publishes.
+    // A key the policy refuses is still kept as pending, and verifying it approves it.
+    if (listSessionDeviceIds(state, peerId).length === 0) {
+      await signalClient.ensureSessionWith(peerId).catch((err: unknown) => {
+        if (!isUntrustedIdentityError(err)) throw err;
+      });
+    }
+
+    const candidate: string | undefined = cmdOpts.safetyNumber ?? cmdOpts.scanned;
+    if (candidate === undefined) {
+      printSafetyNumber(await getSafetyNumber(state, peerId, deviceId));
+      const rl = createInterface({ input: process.stdin, output: process.stdout });
+      const answer = await rl.question(`Does ${peerId} see the same number? [y/N] `);
+      rl.close();
+      if (!/^y(es)?$/i.test(answer.trim())) {
+        console.log("Not marked verified.");
+        return;
+      }
+    } else if (!(await matchesSafetyNumber(state, peerId, candidate, deviceId))) {
+      throw new Error(`Safety number does not match ${peerId}'s identity key; not marked verified.`);
+    }
+    const number = await setIdentityVerified(state, peerId, true, deviceId);
+    console.log(`${peerId} (device ${number.deviceId}) is now verified.`);
+  });
+
+identity
+  .command("trust")
+  .description("Approve the identity key a peer now uses, including one refused as changed")
+  .requiredOption("--peer <id>", "Peer identity id")
+  .option("--device <n>", "Only this peer device (default: all known)")
+  .action(async (cmdOpts) => {
+    const opts = program.opts();
+    const dbPath = resolveDbPath(opts);
+    const passphrase = await resolvePassphrase(opts);
+    const state = openStore(dbPath, passphrase, stateOptions(opts));
+    requireLocalIdentity(state);
+    const deviceId = cmdOpts.device ? Number(cmdOpts.device) : undefined;
+    for (const trust of trustIdentity(state, cmdOpts.peer, deviceId)) {
+      console.log(`${trust.peerId} (device ${trust.deviceId}): ${trust.status}`);
+    }
+  });
+
+identity
+  .command("untrust")
+  .description("Refuse messages from and to a peer until they are trusted again")
+  .requiredOption("--peer <id>", "Peer identity id")
+  .option("--device <n>", "Only this peer device (default: all known)")
+  .action(async (cmdOpts) => {
+    const opts = program.opts();
+    const dbPath = resolveDbPath(opts);
+    const passphrase = await resolvePassphrase(opts);
+    const state = openStore(dbPath, passphrase, stateOptions(opts));
+    requireLocalIdentity(state);
+    const deviceId = cmdOpts.device ? Number(cmdOpts.device) : undefined;
+    for (const trust of untrustIdentity(state, cmdOpts.peer, deviceId)) {
+      console.log(`${trust.peerId} (device ${trust.deviceId}): ${trust.status}`);
+    }
+  });
+
+identity
+  .command("history")
+  .description("Show when a peer's identity key was first seen, changed, refused or approved")
+  .requiredOption("--peer <id>", "Peer identity id")
+  .option("--device <n>", "Only this peer device (default: all known)")
+  .option("--json", "Output as JSON")
+  .action(async (cmdOpts) => {
+    const opts = program.opts();
+    const dbPath = resolveDbPath(opts);
+    const passphrase = await resolvePassphrase(opts);
+    const state = openStore(dbPath, passphrase, stateOptions(opts));
+    const deviceId = cmdOpts.device ? Number(cmdOpts.device) : undefined;
+    const events = listIdentityHistory(state, cmdOpts.peer, deviceId);
+    if (cmdOpts.json) {
+      console.log(JSON.stringify(events, null, 2));
+      return;
+    }
+    for (const event of events) {
+      const key = event.key.slice(0, 12);
+      const previous = event.previousKey ? ` (was ${event.previousKey.slice(0, 12)}…)` : "";
+      console.log(`[${formatTimestamp(event.at)}] ${event.address} ${event.kind}: ${key}…${previous}`);
+    }
+  });
+
+const passphraseCommand = program.command("passphrase").description("Local store passphrase");
+
+passphraseCommand
+  .command("change")
+  .description("Re-encrypt the local store under a new passphrase")
+  .option("--new-passphrase <passphrase>", "New passphrase (default: MEGA_NEW_PASSPHRASE, else prompt)")
+  .action(async (cmdOpts) => {
+    const opts = program.opts();
+    const dbPath = resolveDbPath(opts);
+    const passphrase = await resolvePassphrase(opts);
+    const state = openStore(dbPath, passphrase, stateOptions(opts));
+    const next: string = cmdOpts.newPassphrase ?? process.env.MEGA_NEW_PASSPHRASE ?? (await promptNewPassphrase());
+    changePassphrase(state, passphrase, next);
+    console.log(`Re-encrypted ${dbPath}. Update MEGA_PASSPHRASE wherever this store is opened.`);
+  });
+
+const backup = program.command("backup").description("Encrypted backups of the local store");
+
+backup
+  .command("create")
+  .description("Write identity, prekeys, sessions, peer identities and inbox to one encrypted file")
+  .requiredOption("--out <file>", "Backup file to write")
+  .option("--backup-passphrase <passphrase>", "Backup passphrase (default: MEGA_BACKUP_PASSPHRASE, else prompt)")
+  .action(async (cmdOpts) => {
+    const opts = program.opts();
+    const dbPath = resolveDbPath(opts);
+    const passphrase = await resolvePassphrase(opts);
+    const state = openStore(dbPath, passphrase, stateOptions(opts));
+    const backupPassphrase = await resolveBackupPassphrase(cmdOpts, true);
+    await writeFile(cmdOpts.out, createBackup(state, backupPassphrase), { encoding: "utf8", mode: 0o600 });
+    console.log(`Backed up '${requireLocalIdentity(state)}' from ${dbPath} to ${cmdOpts.out}`);
+  });
+
+backup
+  .command("restore")
+  .description("Check a backup file and load it into the local store")
+  .requiredOption("--in <file>", "Backup file to read")
+  .option("--backup-passphrase <passphrase>", "Backup passphrase (default: MEGA_BACKUP_PASSPHRASE, else prompt)")
+  .option("--force", "Replace a store that already holds an identity")
+  .action(async (cmdOpts) => {
+    const opts = program.opts();
+    const dbPath = resolveDbPath(opts);
+    ensureDbDir(dbPath);
+    const passphrase = await resolvePassphrase(opts);
+    const state = openStore(dbPath, passphrase, stateOptions(opts));
+    const text = await readFile(cmdOpts.in, "utf8");
+    const backupPassphrase = await resolveBackupPassphrase(cmdOpts, false);
+    const header = restoreBackup(state, text, backupPassphrase, { force: cmdOpts.force === true });
+    console.log(
+      `Restored '${header.localId}' (device ${header.deviceId}) from a backup made ${formatTimestamp(header.createdAt)} into ${dbPath}`
+    );
+  });
+
+const prekey = program.command("prekey").description("Prekey operations");
+
+prekey
   .command("generate")
   .description("Generate new prekeys")
   .option("--count <n>", "Number of prekeys", "1")
@@ -177,11 +539,39 @@ program
     const opts = program.opts();
     const dbPath = resolveDbPath(opts);
     const passphrase = await resolvePassphrase(opts);
-    const state = openStore(dbPath, passphrase);
+    const state = openStore(dbPath, passphrase, stateOptions(opts));
     await generatePreKeys(state, Number(cmdOpts.count));
     console.log(`Generated ${cmdOpts.count} prekeys.`);
   });
 
+prekey
+  .command("rotate")
+  .description("Rotate the signed and Kyber prekeys and purge retired ones past the grace window")
+  .option("--force", "Rotate even if the current keys are younger than the interval")
+  .option("--interval-ms <ms>", "Rotation interval", String(SIGNED_PREKEY_ROTATION_MS))
+  .option("--grace-ms <ms>", "How long retired keys remain usable", String(SIGNED_PREKEY_GRACE_MS))
+  .action(async (cmdOpts) => {
+    const opts = program.opts();
+    const dbPath = resolveDbPath(opts);
+    const passphrase = await resolvePassphrase(opts);
+    const state = openStore(dbPath, passphrase, stateOptions(opts));
+    const result = await state.rotatePreKeys({
+      intervalMs: Number(cmdOpts.intervalMs),
+      graceMs: Number(cmdOpts.graceMs),
+      force: Boolean(cmdOpts.force)
+    });
+
+    if (result.rotated) {
+      console.log(`Rotated to signed prekey ${result.signedPreKeyId} and Kyber prekey ${result.kyberPreKeyId}.`);
+      console.log("Run 'mega client prekeys upload' to publish the new bundle.");
+    } else {
+      console.log(`Signed prekey ${result.signedPreKeyId} is not due for rotation.`);
+    }
+    if (result.purged.length > 0) {
+      console.log(`Purged retired prekeys: ${result.purged.map((entry) => `${entry.kind}:${entry.id}`).join(", ")}`);
+    }
+  });
+
 program
   .command("bundle")
   .description("Bundle operations")
@@ -192,16 +582,16 @@ program
     const opts = program.opts();
     const dbPath = resolveDbPath(opts);
     const passphrase = await resolvePassphrase(opts);
-    const state = openStore(dbPath, passphrase);
+    const state = openStore(dbPath, passphrase, stateOptions(opts));
 
     const bundle = await exportBundle(state);
     await writeText(cmdOpts.out, JSON.stringify(bundle, null, 2));
     console.log(`Bundle exported to ${cmdOpts.out}`);
   });
 
-program
-  .command("session")
-  .description("Session operations")
+const session = program.command("session").description("Session operations");
+
+session
   .command("init")
   .description("Initialize a session from a peer bundle")
   .requiredOption("--their-bundle <file>", "Path to peer bundle JSON")
@@ -209,27 +599,115 @@ program
     const opts = program.opts();
     const dbPath = resolveDbPath(opts);
     const passphrase = await resolvePassphrase(opts);
-    const state = openStore(dbPath, passphrase);
+    const state = openStore(dbPath, passphrase, stateOptions(opts));
 
     const bundle = await readJson<Bundle>(cmdOpts.theirBundle);
     await initSession(state, bundle);
     console.log(`Session initialized with ${bundle.id}`);
   });
 
+session
+  .command("list")
+  .description("List stored sessions")
+  .option("--peer <id>", "Only this peer's devices")
+  .option("--json", "Output as JSON")
+  .action(async (cmdOpts) => {
+    const opts = program.opts();
+    const dbPath = resolveDbPath(opts);
+    const passphrase = await resolvePassphrase(opts);
+    const state = openStore(dbPath, passphrase, stateOptions(opts));
+
+    const sessions = listSessions(state, cmdOpts.peer);
+    if (cmdOpts.json) {
+      console.log(JSON.stringify(sessions, null, 2));
+      return;
+    }
+    if (sessions.length === 0) {
+      console.log(cmdOpts.peer ? `No sessions with ${cmdOpts.peer}.` : "No sessions stored yet.");
+      return;
+    }
+    for (const info of sessions) {
+      const status = info.usable ? `v${info.version}${info.pendingPreKey ? ", awaiting reply" : ""}` : "archived";
+      const age = info.establishedAt !== undefined ? `, established ${formatAge(info.establishedAt)} ago` : "";
+      console.log(`${info.peerId} (device ${info.deviceId}): ${status}${age}`);
+    }
+  });
+
+session
+  .command("show")
+  .description("Show a session's version, remote identity and age")
+  .requiredOption("--peer <id>", "Peer identity id")
+  .option("--device <n>", "Peer device", "1")
+  .option("--json", "Output as JSON")
+  .action(async (cmdOpts) => {
+    const opts = program.opts();
+    const dbPath = resolveDbPath(opts);
+    const passphrase = await resolvePassphrase(opts);
+    const state = openStore(dbPath, passphrase, stateOptions(opts));
+
+    const info = getSessionInfo(state, cmdOpts.peer, Number(cmdOpts.device));
+    if (!info) throw new Error(`No session with ${cmdOpts.peer} (device ${cmdOpts.device}).`);
+    if (cmdOpts.json) {
+      console.log(JSON.stringify(info, null, 2));
+      return;
+    }
+    console.log(`${info.peerId} (device ${info.deviceId})`);
+    if (!info.usable) {
+      console.log("  status: archived; the next send fetches a new bundle");
+    } else {
+      console.log(`  version: ${info.version}`);
+      console.log(`  remote identity: ${info.remoteIdentityKey ?? "unknown"}`);
+      console.log(`  remote registration id: ${info.remoteRegistrationId}`);
+      console.log(`  awaiting first reply: ${info.pendingPreKey ? "yes" : "no"}`);
+    }
+    console.log(`  archived states: ${info.archivedStates}`);
+    if (info.establishedAt !== undefined) {
+      console.log(`  established: ${formatTimestamp(info.establishedAt)} (${formatAge(info.establishedAt)} ago)`);
+    }
+    if (info.updatedAt !== undefined) {
+      console.log(`  last used: ${formatTimestamp(info.updatedAt)} (${formatAge(info.updatedAt)} ago)`);
+    }
+  });
+
+session
+  .command("reset")
+  .description("Archive the session with a peer and start a new one from a fresh bundle")
+  .requiredOption("--peer <id>", "Peer identity id")
+  .option("--device <n>", "Only this peer device")
+  .action(async (cmdOpts) => {
+    const opts = program.opts();
+    const server = resolveServerUrl(opts);
+    const dbPath = resolveDbPath(opts);
+    const passphrase = await resolvePassphrase(opts);
+    const state = openStore(dbPath, passphrase, stateOptions(opts));
+    requireLocalIdentity(state);
+
+    const peerId: string = cmdOpts.peer;
+    const deviceId = cmdOpts.device ? Number(cmdOpts.device) : undefined;
+    const devices = await new SignalClient(state, { relayUrl: server }).resetSession(peerId, deviceId);
+    const reset = deviceId === undefined ? devices : devices.filter((id) => id === deviceId);
+    if (reset.length === 0) {
+      console.log(`Archived the session with ${peerId}; the relay lists no such device to start a new one with.`);
+      return;
+    }
+    console.log(`Started a new session with ${peerId} (device ${reset.join(", ")}) from a fresh bundle.`);
+  });
+
 program
   .command("encrypt")
   .description("Encrypt a message")
   .requiredOption("--to <id>", "Recipient id")
+  .option("--device <id>", "Recipient device id", "1")
   .option("--in <file>", "Input file (default: stdin)")
   .option("--out <file>", "Output file (default: stdout)")
   .action(async (cmdOpts) => {
     const opts = program.opts();
     const dbPath = resolveDbPath(opts);
     const passphrase = await resolvePassphrase(opts);
-    const state = openStore(dbPath, passphrase);
+    const state = openStore(dbPath, passphrase, stateOptions(opts));
 
     const plaintext = await readText(cmdOpts.in);
-    const envelope = await encryptMessage(state, cmdOpts.to, plaintext);
+    const envelope = await encryptMessage(state, cmdOpts.to, plaintext, Number(cmdOpts.device));
     await writeText(cmdOpts.out, JSON.stringify(envelope, null, 2));
   });
 
@@ -242,7 +720,7 @@ program
     const opts = program.opts();
     const dbPath = resolveDbPath(opts);
     const passphrase = await resolvePassphrase(opts);
-    const state = openStore(dbPath, passphrase);
+    const state = openStore(dbPath, passphrase, stateOptions(opts));
 
     const payload = await readJson(cmdOpts.in ?? "-");
     const envelope = loadEnvelope(payload);
@@ -255,12 +733,17 @@ const client = program.command("client").description("Relay server client operat
 client
   .command("register")
   .description("Register a local identity with the relay server")
-  .requiredOption("--id <id>", "Local identity id")
+  .option("--id <id>", "Local identity id (default: from local DB)")
   .action(async (cmdOpts) => {
     const opts = program.opts();
     const server = resolveServerUrl(opts);
-    await httpPostJson(`${server}/v1/register`, { id: cmdOpts.id });
-    console.log(`Registered ${cmdOpts.id} at ${server}`);
+    const dbPath = resolveDbPath(opts);
+    const passphrase = await resolvePassphrase(opts);
+    const state = openStore(dbPath, passphrase, stateOptions(opts));
+    const localId = requireLocalIdentity(state, cmdOpts.id);
+    const deviceId = state.getDeviceId();
+    await new SignalClient(state, { relayUrl: server }).register();
+    console.log(`Registered ${localId} device ${deviceId} at ${server}`);
   });
 
 const clientPrekeys = client.command("prekeys").description("Prekey operations via relay server");
@@ -273,23 +756,55 @@ clientPrekeys
     const server = resolveServerUrl(opts);
     const dbPath = resolveDbPath(opts);
     const passphrase = await resolvePassphrase(opts);
-    const state = openStore(dbPath, passphrase);
-    const bundle = await exportBundle(state);
-    await httpPostJson(`${server}/v1/prekeys`, { id: bundle.id, bundle });
-    console.log(`Uploaded prekeys for ${bundle.id} to ${server}`);
+    const state = openStore(dbPath, passphrase, stateOptions(opts));
+    const upload = await exportPreKeyUpload(state);
+    await new SignalClient(state, { relayUrl: server }).postJson("/v1/prekeys", upload, PreKeyUploadResponseSchema, {
+      signed: true
+    });
+    markPreKeysUploaded(state, upload);
+    console.log(`Uploaded ${upload.preKeys.length} one-time prekeys for ${upload.id} to ${server}`);
+  });
+
+clientPrekeys
+  .command("status")
+  .description("Show how many usable prekeys the relay holds for the local identity")
+  .option("--json", "Output raw JSON")
+  .action(async (cmdOpts) => {
+    const opts = program.opts();
+    const server = resolveServerUrl(opts);
+    const dbPath = resolveDbPath(opts);
+    const passphrase = await resolvePassphrase(opts);
+    const state = openStore(dbPath, passphrase, stateOptions(opts));
+    const status = await new SignalClient(state, { relayUrl: server }).getPreKeyStatus();
+
+    if (cmdOpts.json) {
+      console.log(JSON.stringify(status, null, 2));
+      return;
+    }
+
+    const age = status.signedPreKeyAgeMs === null ? "n/a" : formatDuration(Math.floor(status.signedPreKeyAgeMs / 1000));
+    console.log(
+      `Prekeys for ${status.id}: one_time=${status.oneTimePreKeys} signed_id=${status.signedPreKeyId ?? "none"} signed_age=${age}`
+    );
   });
 
 clientPrekeys
   .command("fetch")
   .description("Fetch a peer prekey bundle from relay server")
   .requiredOption("--id <id>", "Peer identity id")
+  .option("--device <id>", "Peer device id", "1")
   .option("--out <file>", "Output file (default: stdout)")
   .action(async (cmdOpts) => {
     const opts = program.opts();
     const server = resolveServerUrl(opts);
-    const payload = await httpGetJson<{ id: string; bundle: Bundle }>(`${server}/v1/prekeys/${cmdOpts.id}`);
-    await writeText(cmdOpts.out, JSON.stringify(payload.bundle, null, 2));
-    console.log(`Fetched prekeys for ${payload.id} from ${server}`);
+    const dbPath = resolveDbPath(opts);
+    const passphrase = await resolvePassphrase(opts);
+    const state = openStore(dbPath, passphrase, stateOptions(opts));
+    requireLocalIdentity(state);
+
+    const bundle = await new SignalClient(state, { relayUrl: server }).fetchBundle(cmdOpts.id, Number(cmdOpts.device));
+    await writeText(cmdOpts.out, JSON.stringify(bundle, null, 2));
+    console.log(`Fetched prekeys for ${bundle.id} from ${server}`);
   });
 
 client
@@ -297,44 +812,70 @@ client
   .description("Encrypt and send a message via relay server")
   .requiredOption("--to <id>", "Recipient id")
   .option("--in <file>", "Input file (default: stdin)")
+  .option("--ttl-ms <ms>", "Drop the message on the relay if it is not delivered within this window")
+  .option("--sealed", "Hide the sender from the relay (sealed sender)")
+  .option("--attach <file>", "Encrypt and upload a file with the message (repeatable)", collectOption, [])
   .action(async (cmdOpts) => {
     const opts = program.opts();
     const server = resolveServerUrl(opts);
     const dbPath = resolveDbPath(opts);
     const passphrase = await resolvePassphrase(opts);
-    const state = openStore(dbPath, passphrase);
-
-    const localId = state.getLocalIdentity();
-    if (!localId) throw new Error("Local identity not set. Run 'mega init'.");
-
-    const address = ProtocolAddress.new(cmdOpts.to, 1);
-    const existing = await state.sessionStore.getSession(address);
-    if (!existing) {
-      const payload = await httpGetJson<{ id: string; bundle: Bundle }>(`${server}/v1/prekeys/${cmdOpts.to}`);
-      const bundle = ensureBundle(payload.bundle);
-      await initSession(state, bundle);
+    const state = openStore(dbPath, passphrase, stateOptions(opts));
+
+    const localId = requireLocalIdentity(state);
+    const signalClient = new SignalClient(state, { relayUrl: server });
+
+    const devices = await signalClient.ensureSessionWith(cmdOpts.to);
+    const attachFiles = cmdOpts.attach as string[];
+    // With attachments the text is optional and only read when --in is given.
+    const text = attachFiles.length > 0 && !cmdOpts.in ? "" : await readText(cmdOpts.in);
+    const plaintext =
+      attachFiles.length > 0
+        ? encodeAttachmentMessage(text, await uploadAttachments(signalClient, attachFiles))
+        : text;
+    const expiresInMs = cmdOpts.ttlMs ? Number(cmdOpts.ttlMs) : undefined;
+
+    const sealed = Boolean(cmdOpts.sealed);
+    const envelopes = await signalClient.sendToDevices(cmdOpts.to, plaintext, devices, {
+      expiresInMs,
+      sealed: sealed ? "required" : undefined
+    });
+    // Kept so delivery and read receipts can be matched; our own devices send none.
+    if (cmdOpts.to !== localId) {
+      saveSentMessage(state, {
+        id: randomUUID(),
+        recipientId: cmdOpts.to,
+        plaintext,
+        timestamps: envelopes.map((envelope) => envelope.timestamp),
+        sentAt: Date.now()
+      });
     }
-
-    const plaintext = await readText(cmdOpts.in);
-    const envelope = await encryptMessage(state, cmdOpts.to, plaintext);
-    await httpPostJson(`${server}/v1/messages`, { from: localId, to: cmdOpts.to, envelope });
-    console.log(`Sent message from ${localId} to ${cmdOpts.to} via ${server}`);
+    if (sealed) {
+      console.log(`Sent sealed message to ${cmdOpts.to} (${envelopes.length} device(s)) via ${server}`);
+      return;
+    }
+    console.log(`Sent message from ${localId} to ${cmdOpts.to} (${envelopes.length} device(s)) via ${server}`);
   });
 
 client
   .command("listen")
   .description("Listen for incoming messages via relay server WebSocket")
-  .requiredOption("--id <id>", "Local identity id")
+  .option("--id <id>", "Local identity id (default: from local DB)")
   .option("--ws <url>", "WebSocket URL (default: derived from --server)")
+  .option("--heartbeat-timeout-ms <ms>", "Close if the relay sends no ping or frame within this window (0 disables)", "60000")
+  .option("--no-receipts", "Do not send delivery receipts")
   .action(async (cmdOpts) => {
     const opts = program.opts();
     const server = resolveServerUrl(opts);
-    const wsUrl = resolveWsUrl(server, cmdOpts.id, cmdOpts.ws);
     const dbPath = resolveDbPath(opts);
     const passphrase = await resolvePassphrase(opts);
-    const state = openStore(dbPath, passphrase);
+    const state = openStore(dbPath, passphrase, stateOptions(opts));
+    const localId = requireLocalIdentity(state, cmdOpts.id);
+    const signalClient = new SignalClient(state, { relayUrl: server, wsUrl: cmdOpts.ws });
+    const heartbeatTimeoutMs = Number(cmdOpts.heartbeatTimeoutMs);
+    await signalClient.pinTrustRoot();
 
-    const ws = new WebSocket(wsUrl);
+    const stream = signalClient.listen({ heartbeatTimeoutMs });
     let exiting = false;
     let exitCode = 0;
     let forceExitTimer: NodeJS.Timeout | undefined;
@@ -361,22 +902,13 @@ client
       exiting = true;
       exitCode = code;
 
-      const isSocketActive = ws.readyState === ws.OPEN || ws.readyState === ws.CONNECTING;
-      if (!isSocketActive) {
-        exitNow(code);
-      }
-
       forceExitTimer = setTimeout(() => {
         console.error("Forcing listener shutdown.");
         exitNow(exitCode);
       }, 1500);
       forceExitTimer.unref();
 
-      try {
-        ws.close(code === 0 ? 1000 : 1011, reason);
-      } catch {
-        exitNow(code);
-      }
+      stream.close(code === 0 ? 1000 : 1011, reason);
     };
 
     const handleSigint = (): void => {
@@ -392,74 +924,434 @@ client
     process.once("SIGINT", handleSigint);
     process.once("SIGTERM", handleSigterm);
 
-    ws.on("open", () => {
-      console.log(`Listening for messages on ${wsUrl}`);
-    });
-    ws.on("message", async (data: RawData) => {
-      try {
-        const payload = JSON.parse(data.toString()) as { envelope?: unknown; from?: string };
-        const envelope = loadEnvelope(payload.envelope ?? payload);
-        const plaintext = await decryptMessage(state, envelope);
+    const handleMessage = async (message: ReceivedMessage): Promise<void> => {
+      const { frame, senderId, plaintext, sealed, groupId, senderKeyDistribution } = message;
+      const { envelope } = frame;
+      let deliveredFrom: { senderId: string; sealed: boolean } | undefined;
+      if (groupId && !getGroup(state, groupId)) {
+        // A group we were added to; fetch it so its messages show the name.
+        await fetchGroup(signalClient, groupId).catch(() => undefined);
+      }
+      const receipt = groupId ? undefined : parseReceiptMessage(plaintext);
+      if (receipt) {
+        for (const sent of applyReceipt(state, senderId, receipt)) {
+          console.log(`[${senderId}] ${receipt.receipt}: ${formatPlaintext(sent.plaintext)}`);
+        }
+      } else if (!senderKeyDistribution) {
         const inboxMessage: InboxMessage = {
-          id: `${envelope.timestamp}:${envelope.senderId}:${Math.random().toString(36).slice(2)}`,
-          senderId: envelope.senderId,
+          id: frame.id,
+          senderId,
           timestamp: envelope.timestamp,
           plaintext,
           envelope
         };
         saveInboxMessage(state, inboxMessage);
-        console.log(`[${envelope.senderId}] ${plaintext}`);
-      } catch (err) {
-        console.error(err);
+        const label = `${formatSender(state, senderId, groupId)}${sealed ? ", sealed" : ""}`;
+        console.log(`[${label}] ${formatPlaintext(plaintext)}`);
+        // Group messages and copies from our own devices get no receipt.
+        if (!groupId && senderId !== localId) deliveredFrom = { senderId, sealed };
       }
+      message.ack();
+      if (deliveredFrom && cmdOpts.receipts) {
+        const { senderId, sealed } = deliveredFrom;
+        await sendReceipt(signalClient, senderId, "delivered", [envelope.timestamp], sealed).catch((err: unknown) => {
+          console.error(`Could not send delivery receipt to ${senderId}: ${err instanceof Error ? err.message : String(err)}`);
+        });
+      }
+    };
+
+    stream.on("open", (url) => {
+      console.log(`Listening for messages on ${url}`);
     });
-    ws.on("close", () => {
-      console.log("WebSocket closed.");
-      exitNow(exitCode);
+    stream.on("message", (message) => {
+      // Un-acked frames are redelivered; the stream acks duplicates of ones already stored.
+      handleMessage(message).catch((err: unknown) => {
+        console.error(err);
+      });
     });
-    ws.on("error", (err: Error) => {
+    stream.on("untrusted", (_frame, err) => {
+      // Left un-acked so it is read once the new key is trusted.
+      console.error(`Held a message signed with an untrusted identity key (${err instanceof Error ? err.message : String(err)}).`);
+    });
+    stream.on("rejected", (err) => {
       console.error(err);
+    });
+    stream.on("error", (err) => {
+      console.error(err instanceof Error ? err.message : String(err));
       beginShutdown(1, "socket-error");
     });
+    stream.on("close", () => {
+      console.log("WebSocket closed.");
+    });
+    await stream.done;
+    exitNow(exitCode);
   });
 
-client
-  .command("inbox")
-  .description("List decrypted inbox messages stored locally")
+type InboxEntry =
+  | ({ direction: "in" } & InboxMessage)
+  | ({ direction: "out"; status: MessageStatus } & SentMessage);
+
+function entryTime(entry: InboxEntry): number {
+  return entry.direction === "in" ? entry.timestamp : entry.sentAt;
+}
+
+// Sends one read receipt per sender for the messages just shown, then marks them read so
+// the next listing does not send them again. A sender we cannot reach is retried next time.
+async function sendReadReceipts(signalClient: SignalClient, shown: InboxMessage[]): Promise<void> {
+  const { state, localId } = signalClient;
+  const bySender = new Map<string, InboxMessage[]>();
+  for (const msg of shown) {
+    if (msg.readAt || msg.senderId === localId) continue;
+    if (!isSealedEnvelope(msg.envelope) && msg.envelope.groupId) continue;
+    bySender.set(msg.senderId, [...(bySender.get(msg.senderId) ?? []), msg]);
+  }
+  for (const [senderId, messages] of bySender) {
+    const timestamps = messages.map((msg) => msg.envelope.timestamp);
+    const sealed = messages.some((msg) => isSealedEnvelope(msg.envelope));
+    try {
+      await sendReceipt(signalClient, senderId, "read", timestamps, sealed);
+    } catch (err) {
+      console.error(`Could not send read receipts to ${senderId}: ${err instanceof Error ? err.message : String(err)}`);
+      continue;
+    }
+    markInboxMessagesRead(state, messages.map((msg) => msg.id));
+  }
+}
+
+function parseMessageIds(value: string): string[] {
+  const ids = parseIdList(value);
+  if (ids.length === 0) throw new Error("No message ids given.");
+  return ids;
+}
+
+const clientInbox = client.command("inbox").description("Locally stored messages");
+
+clientInbox
+  .command("list", { isDefault: true })
+  .description("List received messages and the delivery state of sent ones, stored locally")
   .option("--limit <n>", "Max messages to show (default: 20)", "20")
   .option("--since <epoch>", "Only show messages after this epoch ms")
+  .option("--until <epoch>", "Only show messages before this epoch ms")
+  .option("--peer <id>", "Only show messages from and to this peer")
   .option("--json", "Output as JSON")
+  .option("--no-receipts", "Do not send read receipts for the messages shown")
   .action(async (cmdOpts) => {
     const opts = program.opts();
+    const server = resolveServerUrl(opts);
     const dbPath = resolveDbPath(opts);
     const passphrase = await resolvePassphrase(opts);
-    const state = openStore(dbPath, passphrase);
+    const state = openStore(dbPath, passphrase, stateOptions(opts));
 
     const limit = Number(cmdOpts.limit ?? 20);
     const since = cmdOpts.since ? Number(cmdOpts.since) : undefined;
+    const until = cmdOpts.until ? Number(cmdOpts.until) : undefined;
+    const query = {
+      senderId: cmdOpts.peer as string | undefined,
+      since: Number.isFinite(since) ? since : undefined,
+      until: Number.isFinite(until) ? until : undefined,
+      limit: Number.isFinite(limit) ? limit : undefined
+    };
 
-    let messages = listInboxMessages(state);
-    if (Number.isFinite(since)) {
-      messages = messages.filter((msg) => msg.timestamp > (since ?? 0));
-    }
-    if (Number.isFinite(limit)) {
-      messages = messages.slice(-limit);
+    // Sent messages are few next to received ones, so they are still filtered here.
+    let entries: InboxEntry[] = [
+      ...queryInboxMessages(state, query).map((msg) => ({ direction: "in" as const, ...msg })),
+      ...listSentMessages(state)
+        .filter(
+          (msg) =>
+            (query.senderId === undefined || msg.recipientId === query.senderId) &&
+            (query.since === undefined || msg.sentAt > query.since) &&
+            (query.until === undefined || msg.sentAt < query.until)
+        )
+        .map((msg) => ({ direction: "out" as const, status: sentMessageStatus(msg), ...msg }))
+    ].sort((a, b) => entryTime(a) - entryTime(b));
+    if (query.limit !== undefined) {
+      entries = entries.slice(-query.limit);
     }
 
+    // JSON output is for scripts, so it never counts as the messages being read.
     if (cmdOpts.json) {
-      console.log(JSON.stringify(messages, null, 2));
+      console.log(JSON.stringify(entries, null, 2));
       return;
     }
 
-    if (messages.length === 0) {
+    if (entries.length === 0) {
       console.log("Inbox empty.");
       return;
     }
 
-    for (const msg of messages) {
-      const ts = formatTimestamp(msg.timestamp);
-      console.log(`[${ts}] ${msg.senderId}: ${msg.plaintext}`);
+    const shown: InboxMessage[] = [];
+    for (const entry of entries) {
+      const ts = formatTimestamp(entryTime(entry));
+      if (entry.direction === "out") {
+        console.log(`[${ts}] -> ${entry.recipientId} (${entry.status}): ${formatPlaintext(entry.plaintext)}`);
+        continue;
+      }
+      const { direction: _direction, ...msg } = entry;
+      shown.push(msg);
+      const groupId = isSealedEnvelope(msg.envelope) ? undefined : msg.envelope.groupId;
+      const suffix = parseAttachmentMessage(msg.plaintext) ? ` (id ${msg.id})` : "";
+      console.log(`[${ts}] ${formatSender(state, msg.senderId, groupId)}: ${formatPlaintext(msg.plaintext)}${suffix}`);
     }
+    if (cmdOpts.receipts) await sendReadReceipts(new SignalClient(state, { relayUrl: server }), shown);
+  });
+
+clientInbox
+  .command("mark-read")
+  .description("Mark received messages as read, sending read receipts to their senders")
+  .requiredOption("--message <ids>", "Comma-separated inbox message ids")
+  .option("--no-receipts", "Only mark them locally")
+  .action(async (cmdOpts) => {
+    const opts = program.opts();
+    const server = resolveServerUrl(opts);
+    const dbPath = resolveDbPath(opts);
+    const passphrase = await resolvePassphrase(opts);
+    const state = openStore(dbPath, passphrase, stateOptions(opts));
+
+    const ids = parseMessageIds(cmdOpts.message);
+    const messages = ids.map((id) => {
+      const message = getInboxMessage(state, id);
+      if (!message) throw new Error(`No inbox message ${id}.`);
+      return message;
+    });
+    if (cmdOpts.receipts) await sendReadReceipts(new SignalClient(state, { relayUrl: server }), messages);
+    // Group messages, our own copies and senders we could not reach are marked here.
+    markInboxMessagesRead(state, ids);
+    console.log(`Marked ${ids.length} message(s) read.`);
+  });
+
+clientInbox
+  .command("delete")
+  .description("Delete received messages from the local inbox")
+  .requiredOption("--message <ids>", "Comma-separated inbox message ids")
+  .action(async (cmdOpts) => {
+    const opts = program.opts();
+    const dbPath = resolveDbPath(opts);
+    const passphrase = await resolvePassphrase(opts);
+    const state = openStore(dbPath, passphrase, stateOptions(opts));
+
+    const missing: string[] = [];
+    for (const id of parseMessageIds(cmdOpts.message)) {
+      if (!deleteInboxMessage(state, id)) missing.push(id);
+    }
+    if (missing.length > 0) throw new Error(`No inbox message ${missing.join(", ")}.`);
+    console.log("Deleted.");
+  });
+
+clientInbox
+  .command("prune")
+  .description("Delete received messages beyond an age or count limit")
+  .option("--max-age-ms <ms>", "Delete messages older than this")
+  .option("--max-count <n>", "Keep only this many of the most recent messages")
+  .action(async (cmdOpts) => {
+    const opts = program.opts();
+    const dbPath = resolveDbPath(opts);
+    const passphrase = await resolvePassphrase(opts);
+    const state = openStore(dbPath, passphrase, stateOptions(opts));
+
+    const maxAgeMs = cmdOpts.maxAgeMs === undefined ? undefined : Number(cmdOpts.maxAgeMs);
+    const maxCount = cmdOpts.maxCount === undefined ? undefined : Number(cmdOpts.maxCount);
+    if (maxAgeMs === undefined && maxCount === undefined) throw new Error("Pass --max-age-ms, --max-count or both.");
+    for (const value of [maxAgeMs, maxCount]) {
+      if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+        throw new Error("Retention limits must be non-negative integers.");
+      }
+    }
+    const deleted = pruneInbox(state, { maxAgeMs, maxCount });
+    console.log(`Deleted ${deleted} message(s).`);
+  });
+
+client
+  .command("download")
+  .description("Download and decrypt the attachments of a received message")
+  .requiredOption("--message <id>", "Inbox message id (shown by 'mega client inbox')")
+  .option("--out-dir <dir>", "Directory to write the files to", ".")
+  .action(async (cmdOpts) => {
+    const opts = program.opts();
+    const server = resolveServerUrl(opts);
+    const dbPath = resolveDbPath(opts);
+    const passphrase = await resolvePassphrase(opts);
+    const state = openStore(dbPath, passphrase, stateOptions(opts));
+
+    const stored = getInboxMessage(state, cmdOpts.message);
+    if (!stored) throw new Error(`No inbox message ${cmdOpts.message}.`);
+    const message = parseAttachmentMessage(stored.plaintext);
+    if (!message) throw new Error(`Message ${cmdOpts.message} has no attachments.`);
+
+    mkdirSync(cmdOpts.outDir, { recursive: true });
+    const signalClient = new SignalClient(state, { relayUrl: server });
+    for (const attachment of message.attachments) {
+      const ciphertext = await signalClient.getBytes(`/v1/attachments/${encodeURIComponent(attachment.id)}`, {
+        signed: true
+      });
+      const plaintext = decryptAttachment(ciphertext, attachment);
+      // Only the base name is used so a sender cannot choose where the file lands.
+      const target = path.join(cmdOpts.outDir, path.basename(attachment.fileName ?? attachment.id));
+      await writeFile(target, plaintext);
+      console.log(`Saved ${target} (${plaintext.length} bytes)`);
+    }
+  });
+
+const group = program.command("group").description("Group messaging with sender keys");
+
+group
+  .command("create")
+  .description("Create a group on the relay; you are its owner and first member")
+  .requiredOption("--name <name>", "Group name")
+  .option("--members <ids>", "Comma-separated member ids", "")
+  .action(async (cmdOpts) => {
+    const opts = program.opts();
+    const server = resolveServerUrl(opts);
+    const dbPath = resolveDbPath(opts);
+    const passphrase = await resolvePassphrase(opts);
+    const state = openStore(dbPath, passphrase, stateOptions(opts));
+    requireLocalIdentity(state);
+    const info = await new SignalClient(state, { relayUrl: server }).postJson(
+      "/v1/groups",
+      { name: cmdOpts.name, members: parseIdList(cmdOpts.members) },
+      RelayGroupSchema,
+      { signed: true }
+    );
+    const created = syncGroup(state, info);
+    console.log(`Created group '${created.name}' (${created.id}) with ${created.members.join(", ")}`);
+  });
+
+group
+  .command("add")
+  .description("Add members to a group")
+  .requiredOption("--group <id>", "Group id or name")
+  .requiredOption("--members <ids>", "Comma-separated member ids")
+  .action(async (cmdOpts) => {
+    const opts = program.opts();
+    const server = resolveServerUrl(opts);
+    const dbPath = resolveDbPath(opts);
+    const passphrase = await resolvePassphrase(opts);
+    const state = openStore(dbPath, passphrase, stateOptions(opts));
+    const groupId = resolveGroupId(state, cmdOpts.group);
+    const info = await new SignalClient(state, { relayUrl: server }).postJson(
+      `/v1/groups/${encodeURIComponent(groupId)}/members`,
+      { members: parseIdList(cmdOpts.members) },
+      RelayGroupSchema,
+      { signed: true }
+    );
+    const updated = syncGroup(state, info);
+    console.log(`Group '${updated.name}' members: ${updated.members.join(", ")}`);
+  });
+
+group
+  .command("remove")
+  .description("Remove a member from a group (owner), or leave it by removing yourself")
+  .requiredOption("--group <id>", "Group id or name")
+  .requiredOption("--member <id>", "Member id")
+  .action(async (cmdOpts) => {
+    const opts = program.opts();
+    const server = resolveServerUrl(opts);
+    const dbPath = resolveDbPath(opts);
+    const passphrase = await resolvePassphrase(opts);
+    const state = openStore(dbPath, passphrase, stateOptions(opts));
+    const groupId = resolveGroupId(state, cmdOpts.group);
+    const info = await new SignalClient(state, { relayUrl: server }).deleteJson(
+      `/v1/groups/${encodeURIComponent(groupId)}/members/${encodeURIComponent(cmdOpts.member)}`,
+      RelayGroupSchema,
+      { signed: true }
+    );
+    // Syncing the smaller member list starts a new sender key for our next send.
+    const updated = syncGroup(state, info);
+    console.log(`Removed ${cmdOpts.member} from '${updated.name}'. Members: ${updated.members.join(", ")}`);
+  });
+
+group
+  .command("list")
+  .description("List the groups you belong to")
+  .option("--json", "Output raw JSON")
+  .action(async (cmdOpts) => {
+    const opts = program.opts();
+    const server = resolveServerUrl(opts);
+    const dbPath = resolveDbPath(opts);
+    const passphrase = await resolvePassphrase(opts);
+    const state = openStore(dbPath, passphrase, stateOptions(opts));
+    const { groups } = await new SignalClient(state, { relayUrl: server }).getJson("/v1/groups", GroupListResponseSchema, {
+      signed: true
+    });
+    const synced = groups.map((info) => syncGroup(state, info));
+
+    if (cmdOpts.json) {
+      console.log(JSON.stringify(groups, null, 2));
+      return;
+    }
+    if (synced.length === 0) {
+      console.log("No groups.");
+      return;
+    }
+    for (const entry of synced) {
+      console.log(`${entry.id} ${entry.name} owner=${entry.owner} members=${entry.members.join(",")}`);
+    }
+  });
+
+group
+  .command("send")
+  .description("Encrypt once with your sender key and have the relay fan it out to every member")
+  .requiredOption("--group <id>", "Group id or name")
+  .option("--in <file>", "Input file (default: stdin)")
+  .option("--ttl-ms <ms>", "Drop the message on the relay if it is not delivered within this window")
+  .action(async (cmdOpts) => {
+    const opts = program.opts();
+    const server = resolveServerUrl(opts);
+    const dbPath = resolveDbPath(opts);
+    const passphrase = await resolvePassphrase(opts);
+    const state = openStore(dbPath, passphrase, stateOptions(opts));
+    requireLocalIdentity(state);
+    const signalClient = new SignalClient(state, { relayUrl: server });
+
+    // Membership comes from the relay on every send, so removals made elsewhere rotate our key.
+    const current = await fetchGroup(signalClient, resolveGroupId(state, cmdOpts.group));
+    await distributeSenderKey(signalClient, current);
+    const plaintext = await readText(cmdOpts.in);
+    const expiresInMs = cmdOpts.ttlMs ? Number(cmdOpts.ttlMs) : undefined;
+    const envelope = await encryptGroupMessage(state, current.id, plaintext, { expiresInMs });
+    const result = await signalClient.postJson(
+      `/v1/groups/${encodeURIComponent(current.id)}/messages`,
+      { envelope },
+      GroupMessageResponseSchema,
+      { signed: true }
+    );
+    const skipped = result.skipped > 0 ? `, ${result.skipped} skipped with full queues` : "";
+    console.log(`Sent to group '${current.name}' (${result.recipients} device(s)${skipped}) via ${server}`);
+  });
+
+const device = program.command("device").description("Linked device operations");
+
+device
+  .command("link")
+  .description("Approve another device for the local identity")
+  .requiredOption("--device <id>", "Device id to link")
+  .requiredOption("--identity-key <key>", "Identity key of the new device (from 'mega identity show')")
+  .action(async (cmdOpts) => {
+    const opts = program.opts();
+    const server = resolveServerUrl(opts);
+    const dbPath = resolveDbPath(opts);
+    const passphrase = await resolvePassphrase(opts);
+    const state = openStore(dbPath, passphrase, stateOptions(opts));
+    const localId = requireLocalIdentity(state);
+    const deviceId = Number(cmdOpts.device);
+    await new SignalClient(state, { relayUrl: server }).linkDevice(deviceId, cmdOpts.identityKey);
+    console.log(`Linked device ${deviceId} to ${localId}. Register it with 'mega client register' on that device.`);
+  });
+
+device
+  .command("list")
+  .description("List devices registered for an identity")
+  .option("--id <id>", "Identity id (default: from local DB)")
+  .action(async (cmdOpts) => {
+    const opts = program.opts();
+    const server = resolveServerUrl(opts);
+    let id = cmdOpts.id as string | undefined;
+    if (!id) {
+      const dbPath = resolveDbPath(opts);
+      const passphrase = await resolvePassphrase(opts);
+      id = requireLocalIdentity(openStore(dbPath, passphrase, stateOptions(opts)));
+    }
+    const payload = await fetchRelayJson(server, `/v1/devices/${encodeURIComponent(id)}`, DeviceListResponseSchema);
+    console.log(`Devices for ${payload.id}: ${payload.devices.join(", ")}`);
   });
 
 const admin = program.command("admin").description("Relay diagnostics (privacy-safe)");
@@ -471,26 +1363,7 @@ admin
   .action(async (cmdOpts) => {
     const opts = program.opts();
     const server = resolveServerUrl(opts);
-    const payload = await httpGetJson<{
-      uptimeSec: number;
-      dbPath: string;
-      counts: {
-        users: number;
-        prekeys: number;
-        queuedMessages: number;
-        activeConnections: number;
-      };
-      queueDepthHistogram: Record<string, number>;
-      metrics: {
-        cpuPct: number;
-        memPct: number;
-        swapPct: number;
-        netInBytes: number;
-        netOutBytes: number;
-        load: [number, number, number];
-        updatedAt: number;
-      } | null;
-    }>(`${server}/diagnostics`);
+    const payload = await fetchRelayJson(server, "/diagnostics", RelayDiagnosticsSchema);
 
     if (cmdOpts.json) {
       console.log(JSON.stringify(payload, null, 2));
@@ -500,12 +1373,22 @@ admin
     console.log(`Uptime: ${formatDuration(payload.uptimeSec)}`);
     console.log(`DB: ${payload.dbPath}`);
     console.log(
-      `Counts: users=${payload.counts.users} prekeys=${payload.counts.prekeys} queued=${payload.counts.queuedMessages} active_ws=${payload.counts.activeConnections}`
+      `Counts: users=${payload.counts.users} devices=${payload.counts.devices ?? 0} prekeys=${payload.counts.prekeys} one_time_prekeys=${payload.counts.oneTimePreKeys ?? 0} queued=${payload.counts.queuedMessages} active_ws=${payload.counts.activeConnections}`
     );
     const hist = payload.queueDepthHistogram;
     console.log(
       `Queue histogram: 0=${hist["0"] ?? 0} 1-5=${hist["1-5"] ?? 0} 6-20=${hist["6-20"] ?? 0} 21+=${hist["21+"] ?? 0}`
     );
+    if (payload.rateLimits) {
+      const { sender, sourceAddress, maxQueuedPerRecipient } = payload.rateLimits;
+      console.log(
+        `Limits: sender=${sender.perMinute}/min burst=${sender.burst} address=${sourceAddress.perMinute}/min burst=${sourceAddress.burst} max_queued=${maxQueuedPerRecipient} throttled=${payload.counts.throttledRequests ?? 0} quota_rejections=${payload.counts.quotaRejections ?? 0}`
+      );
+    }
+    if (payload.purged) {
+      const lastSweep = payload.purged.lastSweepAt ? formatTimestamp(payload.purged.lastSweepAt) : "never";
+      console.log(`Purged: acked=${payload.purged.acked} expired=${payload.purged.expired} last_sweep=${lastSweep}`);
+    }
     if (payload.metrics) {
       console.log(
         `Metrics: cpu=${payload.metrics.cpuPct.toFixed(1)}% mem=${payload.metrics.memPct.toFixed(1)}% swap=${payload.metrics.swapPct.toFixed(1)}% net_in=${payload.metrics.netInBytes} net_out=${payload.metrics.netOutBytes}`
@@ -566,6 +1449,10 @@ function formatTimestamp(epoch: number): string {
   return new Date(epoch).toISOString();
 }
 
+function formatAge(epoch: number): string {
+  return formatDuration(Math.max(0, Math.round((Date.now() - epoch) / 1000)));
+}
+
 function formatDuration(seconds: number): string {
   const hrs = Math.floor(seconds / 3600);
   const mins = Math.floor((seconds % 3600) / 60);
@@ -4,7 +4,6 @@ import os from "node:os";
 import path from "node:path";
 import { setTimeout as delay } from "node:timers/promises";
 import { randomUUID } from "node:crypto";
-import { ProtocolAddress } from "@signalapp/libsignal-client";
 import {
   encodeSysmaintMessage,
   type HostMetrics,
@@ -12,28 +11,35 @@ import {
   type SysmaintTelemetryReport
 } from "@mega/sysmaint-protocol";
 import {
-  encryptMessage,
-  exportBundle,
-  generatePreKeys,
-  initSession,
-  initializeIdentity,
   openStore,
-  type Bundle
+  RelayDiagnosticsSchema,
+  SignalClient,
+  SIGNED_PREKEY_GRACE_MS,
+  SIGNED_PREKEY_ROTATION_MS,
+  type PreKeyRotationResult
 } from "@mega/signal-core";
 
 const relayUrl = process.env.RELAY_URL ?? "http://relay:8080";
 const intervalMs = Number(process.env.SYSMAINT_PROBE_INTERVAL_MS ?? "10000");
+// Reports the agent has not picked up by then are stale; let the relay drop them.
+const reportTtlMs = Number(process.env.SYSMAINT_PROBE_REPORT_TTL_MS ?? "300000");
 const localId = process.env.DIAG_PROBE_ID ?? "diagprobe";
 const targetId = process.env.SYSMAINT_ID ?? "sysmaint";
 const signalDbPath = process.env.DIAG_PROBE_SIGNAL_DB ?? "/home/node/.mega/diagprobe.db";
 const passphrase = process.env.MEGA_PASSPHRASE;
+const prekeyRotationMs = Number(process.env.PREKEY_ROTATION_INTERVAL_MS ?? String(SIGNED_PREKEY_ROTATION_MS));
+const prekeyGraceMs = Number(process.env.PREKEY_ROTATION_GRACE_MS ?? String(SIGNED_PREKEY_GRACE_MS));
+const prekeyCheckMs = Number(process.env.PREKEY_MAINTENANCE_INTERVAL_MS ?? "3600000");
+// Sealed sender keeps the probe -> agent link out of the relay's message table.
+const sealedSender = process.env.SYSMAINT_SEALED_SENDER === "true";
 
 if (!passphrase) {
   throw new Error("MEGA_PASSPHRASE is required for diag-probe.");
 }
 
 mkdirSync(path.dirname(signalDbPath), { recursive: true });
-const signalState = openStore(signalDbPath, passphrase);
+const signalClient = new SignalClient(openStore(signalDbPath, passphrase), { relayUrl });
+const prekeyRotation = { intervalMs: prekeyRotationMs, graceMs: prekeyGraceMs };
 
 let lastCpuSample: { idle: number; total: number } | null = null;
 
@@ -122,69 +128,14 @@ async function sampleHostMetrics(): Promise<HostMetrics> {
   };
 }
 
-async function httpGetJson<T>(url: string): Promise<T> {
-  const res = await fetch(url);
-  if (!res.ok) {
-    const msg = await res.text();
-    throw new Error(`HTTP ${res.status}: ${msg}`);
+function logPreKeyRotation(rotation: PreKeyRotationResult | undefined): void {
+  if (rotation?.rotated) {
+    console.log(`[prekeys] rotated signed=${rotation.signedPreKeyId} kyber=${rotation.kyberPreKeyId}`);
   }
-  return (await res.json()) as T;
-}
-
-async function httpPostJson<T>(url: string, body: unknown): Promise<T> {
-  const res = await fetch(url, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(body)
-  });
-  if (!res.ok) {
-    const msg = await res.text();
-    throw new Error(`HTTP ${res.status}: ${msg}`);
-  }
-  return (await res.json()) as T;
-}
-
-function ensureBundle(input: unknown): Bundle {
-  if (!input || typeof input !== "object") {
-    throw new Error("Invalid prekey bundle payload.");
-  }
-  const bundle = input as Bundle;
-  if (!bundle.id) {
-    throw new Error("Invalid prekey bundle payload.");
-  }
-  return bundle;
-}
-
-async function ensureIdentityBootstrapped(): Promise<void> {
-  if (!signalState.getLocalIdentity()) {
-    await initializeIdentity(signalState, localId, 1);
-  }
-  await generatePreKeys(signalState, 1);
-  await httpPostJson(`${relayUrl}/v1/register`, { id: localId });
-  const bundle = await exportBundle(signalState);
-  await httpPostJson(`${relayUrl}/v1/prekeys`, { id: localId, bundle });
-}
-
-async function ensureSessionWith(peerId: string): Promise<void> {
-  const address = ProtocolAddress.new(peerId, 1);
-  const existing = await signalState.sessionStore.getSession(address);
-  if (existing) return;
-
-  const payload = await httpGetJson<{ id: string; bundle: Bundle }>(`${relayUrl}/v1/prekeys/${peerId}`);
-  await initSession(signalState, ensureBundle(payload.bundle));
 }
 
 async function fetchRelaySnapshot(): Promise<RelaySnapshot> {
-  const payload = await httpGetJson<{
-    uptimeSec: number;
-    queueDepthHistogram: Record<string, number>;
-    counts: {
-      users: number;
-      prekeys: number;
-      queuedMessages: number;
-      activeConnections: number;
-    };
-  }>(`${relayUrl}/diagnostics`);
+  const payload = await signalClient.getJson("/diagnostics", RelayDiagnosticsSchema);
 
   return {
     uptimeSec: payload.uptimeSec,
@@ -194,8 +145,6 @@ async function fetchRelaySnapshot(): Promise<RelaySnapshot> {
 }
 
 async function publishTelemetry(): Promise<void> {
-  await ensureSessionWith(targetId);
-
   const [host, relay] = await Promise.all([sampleHostMetrics(), fetchRelaySnapshot()]);
   const report: SysmaintTelemetryReport = {
     version: 1,
@@ -207,11 +156,9 @@ async function publishTelemetry(): Promise<void> {
     createdAt: Date.now()
   };
 
-  const envelope = await encryptMessage(signalState, targetId, encodeSysmaintMessage(report));
-  await httpPostJson(`${relayUrl}/v1/messages`, {
-    from: localId,
-    to: targetId,
-    envelope
+  await signalClient.send(targetId, encodeSysmaintMessage(report), {
+    expiresInMs: reportTtlMs,
+    sealed: sealedSender ? "preferred" : undefined
   });
 
   console.log(
@@ -220,9 +167,16 @@ async function publishTelemetry(): Promise<void> {
 }
 
 async function main(): Promise<void> {
-  await ensureIdentityBootstrapped();
+  logPreKeyRotation(await signalClient.bootstrap({ id: localId, rotation: prekeyRotation }));
   console.log(`diag-probe started id=${localId} -> ${targetId} relay=${relayUrl} interval=${intervalMs}ms`);
 
+  const prekeyTimer = setInterval(() => {
+    void signalClient.maintainPreKeys(prekeyRotation).then(logPreKeyRotation, (err) => {
+      console.error("[probe] prekey maintenance error", err);
+    });
+  }, prekeyCheckMs);
+  prekeyTimer.unref();
+
   while (true) {
     try {
       await publishTelemetry();
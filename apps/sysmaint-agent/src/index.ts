@@ -1,32 +1,42 @@
 import { mkdirSync } from "node:fs";
+import { readdir, rename, unlink, writeFile } from "node:fs/promises";
 import path from "node:path";
-import { setTimeout as delay } from "node:timers/promises";
 import Database from "better-sqlite3";
 import { AIMessage, HumanMessage, SystemMessage, ToolMessage } from "@langchain/core/messages";
 import { DynamicStructuredTool } from "@langchain/core/tools";
 import { ChatOpenAI } from "@langchain/openai";
 import { z } from "zod";
-import { ProtocolAddress } from "@signalapp/libsignal-client";
 import {
   decodeSysmaintMessage,
   encodeSysmaintMessage,
   type HostMetrics,
   type RelaySnapshot,
   type SysmaintChatPrompt,
+  type SysmaintChatReceipt,
+  type SysmaintMessage,
   type SysmaintTelemetryReport
 } from "@mega/sysmaint-protocol";
+import { ensureColumn, migrate, type Migration } from "@mega/shared";
 import {
-  decryptMessage,
-  encryptMessage,
-  exportBundle,
-  generatePreKeys,
-  initSession,
-  initializeIdentity,
-  loadEnvelope,
+  createBackup,
+  decryptAttachment,
+  encodeReceiptMessage,
+  getIdentityTrust,
   openStore,
-  type Bundle
+  parseAttachmentMessage,
+  parseReceiptMessage,
+  SignalClient,
+  SIGNED_PREKEY_GRACE_MS,
+  SIGNED_PREKEY_ROTATION_MS,
+  TRUST_POLICIES,
+  type AttachmentMessage,
+  type IdentityEvent,
+  type IdentityTrustStatus,
+  type PreKeyRotationResult,
+  type ReceivedMessage,
+  type RelayStream,
+  type TrustPolicy
 } from "@mega/signal-core";
-import { WebSocket, type RawData } from "ws";
 
 const relayUrl = process.env.RELAY_URL ?? "http://relay:8080";
 const signalDbPath = process.env.SYSMAINT_SIGNAL_DB ?? "/home/node/.mega/sysmaint.db";
@@ -37,6 +47,16 @@ const openAiInputUsdPer1M = Number(process.env.OPENAI_INPUT_USD_PER_1M ?? "0.15"
 const openAiOutputUsdPer1M = Number(process.env.OPENAI_OUTPUT_USD_PER_1M ?? "0.60");
 const openAiApiKey = process.env.OPENAI_API_KEY;
 const passphrase = process.env.MEGA_PASSPHRASE;
+const prekeyRotationMs = Number(process.env.PREKEY_ROTATION_INTERVAL_MS ?? String(SIGNED_PREKEY_ROTATION_MS));
+const prekeyGraceMs = Number(process.env.PREKEY_ROTATION_GRACE_MS ?? String(SIGNED_PREKEY_GRACE_MS));
+const prekeyCheckMs = Number(process.env.PREKEY_MAINTENANCE_INTERVAL_MS ?? "3600000");
+const wsHeartbeatTimeoutMs = Number(process.env.SYSMAINT_WS_HEARTBEAT_TIMEOUT_MS ?? "60000");
+const attachmentsDir = process.env.SYSMAINT_ATTACHMENTS_DIR ?? path.join(path.dirname(stateDbPath), "attachments");
+const trustPolicy = (process.env.SYSMAINT_TRUST_POLICY ?? "tofu") as TrustPolicy;
+const backupIntervalMs = Number(process.env.SYSMAINT_BACKUP_INTERVAL_MS ?? "0");
+const backupDir = process.env.SYSMAINT_BACKUP_DIR ?? path.join(path.dirname(signalDbPath), "backups");
+const backupKeep = Number(process.env.SYSMAINT_BACKUP_KEEP ?? "7");
+const backupPassphrase = process.env.SYSMAINT_BACKUP_PASSPHRASE;
 
 if (!passphrase) {
   throw new Error("MEGA_PASSPHRASE is required for sysmaint-agent.");
@@ -44,87 +64,135 @@ if (!passphrase) {
 if (!openAiApiKey) {
   throw new Error("OPENAI_API_KEY is required for sysmaint-agent.");
 }
+if (!TRUST_POLICIES.includes(trustPolicy)) {
+  throw new Error(`SYSMAINT_TRUST_POLICY must be one of: ${TRUST_POLICIES.join(", ")}.`);
+}
+if (backupIntervalMs > 0 && !backupPassphrase) {
+  throw new Error("SYSMAINT_BACKUP_PASSPHRASE is required when SYSMAINT_BACKUP_INTERVAL_MS is set.");
+}
 
 const dbDir = path.dirname(signalDbPath);
 mkdirSync(dbDir, { recursive: true });
 mkdirSync(path.dirname(stateDbPath), { recursive: true });
+mkdirSync(attachmentsDir, { recursive: true });
+if (backupIntervalMs > 0) mkdirSync(backupDir, { recursive: true });
 
-const signalState = openStore(signalDbPath, passphrase);
-const stateDb = new Database(stateDbPath);
-stateDb.pragma("journal_mode = WAL");
-stateDb.exec(
-  "CREATE TABLE IF NOT EXISTS snapshots (" +
-    "id INTEGER PRIMARY KEY AUTOINCREMENT," +
-    "report_id TEXT NOT NULL," +
-    "source TEXT NOT NULL," +
-    "created_at INTEGER NOT NULL," +
-    "cpu_pct REAL NOT NULL," +
-    "mem_pct REAL NOT NULL," +
-    "swap_pct REAL NOT NULL," +
-    "net_in_bytes REAL NOT NULL," +
-    "net_out_bytes REAL NOT NULL," +
-    "load1 REAL NOT NULL," +
-    "load5 REAL NOT NULL," +
-    "load15 REAL NOT NULL," +
-    "relay_uptime_sec INTEGER NOT NULL," +
-    "relay_users INTEGER NOT NULL," +
-    "relay_prekeys INTEGER NOT NULL," +
-    "relay_queued INTEGER NOT NULL," +
-    "relay_active_ws INTEGER NOT NULL" +
-    ");" +
-    "CREATE TABLE IF NOT EXISTS chat_messages (" +
-    "id INTEGER PRIMARY KEY AUTOINCREMENT," +
-    "request_id TEXT NOT NULL," +
-    "direction TEXT NOT NULL," +
-    "peer_id TEXT NOT NULL," +
-    "content TEXT NOT NULL," +
-    "created_at INTEGER NOT NULL," +
-    "model_name TEXT," +
-    "input_tokens INTEGER," +
-    "output_tokens INTEGER," +
-    "total_tokens INTEGER," +
-    "estimated_cost_usd REAL" +
-    ");" +
-    "CREATE TABLE IF NOT EXISTS tool_calls (" +
-    "id INTEGER PRIMARY KEY AUTOINCREMENT," +
-    "request_id TEXT NOT NULL," +
-    "tool_name TEXT NOT NULL," +
-    "args_json TEXT NOT NULL," +
-    "result_json TEXT NOT NULL," +
-    "created_at INTEGER NOT NULL" +
-    ");"
-);
+// The operator approves a peer with the CLI against this same store.
+function approveCommand(peerId: string): string {
+  return `mega --db ${signalDbPath} identity trust --peer ${peerId}`;
+}
 
-type TableInfoRow = {
-  name: string;
+// Under the strict policy approval is not enough; the safety number has to be compared.
+function verifyCommand(peerId: string): string {
+  return `mega --db ${signalDbPath} identity verify --peer ${peerId}`;
+}
+
+// What the sender of a refused prompt is told. A blocked peer is told nothing.
+const PROMPT_REFUSALS: Record<Exclude<IdentityTrustStatus, "trusted" | "blocked">, string> = {
+  unverified: "SysMaint did not run this prompt: your safety number has not been verified on this host yet.",
+  changed: "SysMaint did not run this prompt: your identity key changed and has not been approved yet.",
+  pending: "SysMaint did not run this prompt: your new identity key has not been approved yet."
 };
 
-function ensureChatMessagesColumn(columnName: string, definition: string): void {
-  const rows = stateDb.prepare("PRAGMA table_info(chat_messages)").all() as TableInfoRow[];
-  const hasColumn = rows.some((row) => row.name === columnName);
-  if (!hasColumn) {
-    stateDb.exec(`ALTER TABLE chat_messages ADD COLUMN ${columnName} ${definition}`);
+function logIdentityEvent(event: IdentityEvent): void {
+  const peerId = event.address.replace(/\.\d+$/, "");
+  if (event.kind === "changed" || event.kind === "refused") {
+    console.warn(`[identity] ${event.kind} key for ${event.address}; after checking it run: ${approveCommand(peerId)}`);
+  } else {
+    console.log(`[identity] ${event.kind} ${event.address}`);
   }
 }
 
-ensureChatMessagesColumn("model_name", "TEXT");
-ensureChatMessagesColumn("input_tokens", "INTEGER");
-ensureChatMessagesColumn("output_tokens", "INTEGER");
-ensureChatMessagesColumn("total_tokens", "INTEGER");
-ensureChatMessagesColumn("estimated_cost_usd", "REAL");
+const signalState = openStore(signalDbPath, passphrase, { trustPolicy, onIdentityEvent: logIdentityEvent });
+const signalClient = new SignalClient(signalState, { relayUrl });
+const prekeyRotation = { intervalMs: prekeyRotationMs, graceMs: prekeyGraceMs };
+// New schema changes are appended here. Migration 1 is the schema as it stood before
+// versioning and also upgrades state DBs created by earlier builds. The web console
+// migrates its own tables in this file under a separate component.
+const STATE_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "baseline",
+    up: (db) => {
+      db.exec(
+        "CREATE TABLE IF NOT EXISTS snapshots (" +
+          "id INTEGER PRIMARY KEY AUTOINCREMENT," +
+          "report_id TEXT NOT NULL," +
+          "source TEXT NOT NULL," +
+          "created_at INTEGER NOT NULL," +
+          "cpu_pct REAL NOT NULL," +
+          "mem_pct REAL NOT NULL," +
+          "swap_pct REAL NOT NULL," +
+          "net_in_bytes REAL NOT NULL," +
+          "net_out_bytes REAL NOT NULL," +
+          "load1 REAL NOT NULL," +
+          "load5 REAL NOT NULL," +
+          "load15 REAL NOT NULL," +
+          "relay_uptime_sec INTEGER NOT NULL," +
+          "relay_users INTEGER NOT NULL," +
+          "relay_prekeys INTEGER NOT NULL," +
+          "relay_queued INTEGER NOT NULL," +
+          "relay_active_ws INTEGER NOT NULL" +
+          ");" +
+          "CREATE TABLE IF NOT EXISTS chat_messages (" +
+          "id INTEGER PRIMARY KEY AUTOINCREMENT," +
+          "request_id TEXT NOT NULL," +
+          "direction TEXT NOT NULL," +
+          "peer_id TEXT NOT NULL," +
+          "content TEXT NOT NULL," +
+          "created_at INTEGER NOT NULL," +
+          "model_name TEXT," +
+          "input_tokens INTEGER," +
+          "output_tokens INTEGER," +
+          "total_tokens INTEGER," +
+          "estimated_cost_usd REAL" +
+          ");" +
+          "CREATE TABLE IF NOT EXISTS tool_calls (" +
+          "id INTEGER PRIMARY KEY AUTOINCREMENT," +
+          "request_id TEXT NOT NULL," +
+          "tool_name TEXT NOT NULL," +
+          "args_json TEXT NOT NULL," +
+          "result_json TEXT NOT NULL," +
+          "created_at INTEGER NOT NULL" +
+          ");"
+      );
+      ensureColumn(db, "chat_messages", "model_name", "TEXT");
+      ensureColumn(db, "chat_messages", "input_tokens", "INTEGER");
+      ensureColumn(db, "chat_messages", "output_tokens", "INTEGER");
+      ensureColumn(db, "chat_messages", "total_tokens", "INTEGER");
+      ensureColumn(db, "chat_messages", "estimated_cost_usd", "REAL");
+      ensureColumn(db, "snapshots", "relay_throttled", "INTEGER NOT NULL DEFAULT 0");
+      ensureColumn(db, "snapshots", "relay_quota_rejections", "INTEGER NOT NULL DEFAULT 0");
+      ensureColumn(db, "chat_messages", "delivered_at", "INTEGER");
+      ensureColumn(db, "chat_messages", "read_at", "INTEGER");
+    }
+  }
+];
+
+const stateDb = new Database(stateDbPath);
+stateDb.pragma("journal_mode = WAL");
+migrate(stateDb, "sysmaint-agent", STATE_MIGRATIONS);
 
 const insertSnapshot = stateDb.prepare(
-  "INSERT INTO snapshots (report_id, source, created_at, cpu_pct, mem_pct, swap_pct, net_in_bytes, net_out_bytes, load1, load5, load15, relay_uptime_sec, relay_users, relay_prekeys, relay_queued, relay_active_ws) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)"
+  "INSERT INTO snapshots (report_id, source, created_at, cpu_pct, mem_pct, swap_pct, net_in_bytes, net_out_bytes, load1, load5, load15, relay_uptime_sec, relay_users, relay_prekeys, relay_queued, relay_active_ws, relay_throttled, relay_quota_rejections) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)"
 );
 const insertChat = stateDb.prepare(
   "INSERT INTO chat_messages (request_id, direction, peer_id, content, created_at, model_name, input_tokens, output_tokens, total_tokens, estimated_cost_usd) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)"
 );
+// Receipts for our replies; COALESCE keeps the first time each state was reached.
+const markReplyReceipt = stateDb.prepare(
+  "UPDATE chat_messages SET delivered_at = COALESCE(delivered_at, ?), read_at = CASE WHEN ? THEN COALESCE(read_at, ?) ELSE read_at END " +
+    "WHERE request_id = ? AND peer_id = ? AND direction = 'out'"
+);
 const insertToolCall = stateDb.prepare(
   "INSERT INTO tool_calls (request_id, tool_name, args_json, result_json, created_at) VALUES (?, ?, ?, ?, ?)"
 );
 const latestSnapshotStmt = stateDb.prepare(
   "SELECT * FROM snapshots ORDER BY created_at DESC LIMIT 1"
 );
+const recentSnapshotsStmt = stateDb.prepare(
+  "SELECT * FROM snapshots ORDER BY created_at DESC LIMIT ?"
+);
 const historySnapshotStmt = stateDb.prepare(
   "SELECT * FROM snapshots WHERE created_at >= ? ORDER BY created_at DESC LIMIT ?"
 );
@@ -135,67 +203,24 @@ const model = new ChatOpenAI({
   temperature: 0.1
 });
 
-function resolveWsUrl(serverBase: string, clientId: string): string {
-  const base = new URL(serverBase);
-  const protocol = base.protocol === "https:" ? "wss:" : "ws:";
-  const wsUrl = new URL("/ws", `${protocol}//${base.host}`);
-  wsUrl.searchParams.set("client_id", clientId);
-  return wsUrl.toString();
-}
-
-async function httpGetJson<T>(url: string): Promise<T> {
-  const res = await fetch(url);
-  if (!res.ok) {
-    const msg = await res.text();
-    throw new Error(`HTTP ${res.status}: ${msg}`);
-  }
-  return (await res.json()) as T;
-}
-
-async function httpPostJson<T>(url: string, body: unknown): Promise<T> {
-  const res = await fetch(url, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(body)
-  });
-  if (!res.ok) {
-    const msg = await res.text();
-    throw new Error(`HTTP ${res.status}: ${msg}`);
-  }
-  return (await res.json()) as T;
-}
-
-function ensureBundle(input: unknown): Bundle {
-  if (!input || typeof input !== "object") {
-    throw new Error("Invalid prekey bundle payload.");
-  }
-  const bundle = input as Bundle;
-  if (!bundle.id) {
-    throw new Error("Invalid prekey bundle payload.");
+function logPreKeyRotation(rotation: PreKeyRotationResult | undefined): void {
+  if (rotation?.rotated) {
+    console.log(`[prekeys] rotated signed=${rotation.signedPreKeyId} kyber=${rotation.kyberPreKeyId}`);
   }
-  return bundle;
 }
 
-async function ensureIdentityBootstrapped(): Promise<void> {
-  const existingLocal = signalState.getLocalIdentity();
-  if (!existingLocal) {
-    await initializeIdentity(signalState, localId, 1);
+// Writes through a temporary name so a crash never leaves a truncated backup, then keeps
+// only the newest SYSMAINT_BACKUP_KEEP files. Names sort by time.
+async function backupSignalState(): Promise<void> {
+  const name = `${localId}-${new Date().toISOString().replace(/[:.]/g, "-")}.megabackup`;
+  const target = path.join(backupDir, name);
+  await writeFile(`${target}.tmp`, createBackup(signalState, backupPassphrase ?? ""), { mode: 0o600 });
+  await rename(`${target}.tmp`, target);
+  const backups = (await readdir(backupDir)).filter((file) => file.startsWith(`${localId}-`) && file.endsWith(".megabackup")).sort();
+  for (const old of backups.slice(0, Math.max(0, backups.length - Math.max(1, backupKeep)))) {
+    await unlink(path.join(backupDir, old));
   }
-  // Ensure there is always a fresh uploadable prekey bundle.
-  await generatePreKeys(signalState, 1);
-
-  await httpPostJson(`${relayUrl}/v1/register`, { id: localId });
-  const bundle = await exportBundle(signalState);
-  await httpPostJson(`${relayUrl}/v1/prekeys`, { id: localId, bundle });
-}
-
-async function ensureSessionWith(peerId: string): Promise<void> {
-  const address = ProtocolAddress.new(peerId, 1);
-  const existing = await signalState.sessionStore.getSession(address);
-  if (existing) return;
-
-  const payload = await httpGetJson<{ id: string; bundle: Bundle }>(`${relayUrl}/v1/prekeys/${peerId}`);
-  await initSession(signalState, ensureBundle(payload.bundle));
+  console.log(`[backup] wrote ${target}`);
 }
 
 function recordTelemetry(report: SysmaintTelemetryReport): void {
@@ -215,12 +240,14 @@ function recordTelemetry(report: SysmaintTelemetryReport): void {
     report.relay.counts.users,
     report.relay.counts.prekeys,
     report.relay.counts.queuedMessages,
-    report.relay.counts.activeConnections
+    report.relay.counts.activeConnections,
+    report.relay.counts.throttledRequests ?? 0,
+    report.relay.counts.quotaRejections ?? 0
   );
 }
 
 function summarizeRelay(relay: RelaySnapshot): string {
-  return `relay users=${relay.counts.users} prekeys=${relay.counts.prekeys} queued=${relay.counts.queuedMessages} active_ws=${relay.counts.activeConnections} uptime_sec=${relay.uptimeSec}`;
+  return `relay users=${relay.counts.users} prekeys=${relay.counts.prekeys} queued=${relay.counts.queuedMessages} active_ws=${relay.counts.activeConnections} throttled=${relay.counts.throttledRequests ?? 0} quota_rejections=${relay.counts.quotaRejections ?? 0} uptime_sec=${relay.uptimeSec}`;
 }
 
 function summarizeHost(host: HostMetrics): string {
@@ -344,6 +371,8 @@ type SnapshotRow = {
   relay_prekeys: number;
   relay_queued: number;
   relay_active_ws: number;
+  relay_throttled: number;
+  relay_quota_rejections: number;
 };
 
 async function generateAssistantReply(
@@ -373,7 +402,9 @@ async function generateAssistantReply(
                   users: row.relay_users,
                   prekeys: row.relay_prekeys,
                   queuedMessages: row.relay_queued,
-                  activeConnections: row.relay_active_ws
+                  activeConnections: row.relay_active_ws,
+                  throttledRequests: row.relay_throttled,
+                  quotaRejections: row.relay_quota_rejections
                 }
               }
             };
@@ -417,7 +448,7 @@ async function generateAssistantReply(
     description: "Returns simple anomaly signals from the latest snapshot.",
     schema: z.object({}),
     func: async () => {
-      const row = latestSnapshotStmt.get() as SnapshotRow | undefined;
+      const [row, previous] = recentSnapshotsStmt.all(2) as SnapshotRow[];
       const issues: string[] = [];
       if (!row) {
         issues.push("No data available yet.");
@@ -425,6 +456,15 @@ async function generateAssistantReply(
         if (row.cpu_pct >= 85) issues.push(`High CPU (${row.cpu_pct.toFixed(1)}%).`);
         if (row.mem_pct >= 90) issues.push(`High memory (${row.mem_pct.toFixed(1)}%).`);
         if (row.relay_queued >= 10) issues.push(`Relay queue depth elevated (${row.relay_queued}).`);
+        // Relay counters are cumulative since its start; a drop means it restarted.
+        const throttled = previous && row.relay_throttled >= previous.relay_throttled
+          ? row.relay_throttled - previous.relay_throttled
+          : row.relay_throttled;
+        if (throttled > 0) issues.push(`Relay rate-limited ${throttled} request(s) since the previous snapshot.`);
+        const rejected = previous && row.relay_quota_rejections >= previous.relay_quota_rejections
+          ? row.relay_quota_rejections - previous.relay_quota_rejections
+          : row.relay_quota_rejections;
+        if (rejected > 0) issues.push(`Relay rejected ${rejected} message(s) on full recipient queues.`);
       }
       const result = {
         ok: true,
@@ -510,14 +550,90 @@ async function generateAssistantReply(
   };
 }
 
-async function handleMessage(data: RawData): Promise<void> {
-  const payload = JSON.parse(data.toString()) as { envelope?: unknown };
-  const envelope = loadEnvelope(payload.envelope ?? payload);
-  const plaintext = await decryptMessage(signalState, envelope);
-  const message = decodeSysmaintMessage(plaintext);
+// Files operators send (logs, dumps, screenshots) are decrypted into the attachments dir,
+// prefixed with the relay message id so names never collide.
+async function saveAttachments(messageId: string, peerId: string, message: AttachmentMessage): Promise<void> {
+  for (const [index, attachment] of message.attachments.entries()) {
+    const ciphertext = await signalClient.getBytes(`/v1/attachments/${encodeURIComponent(attachment.id)}`, { signed: true });
+    const plaintext = decryptAttachment(ciphertext, attachment);
+    const target = path.join(attachmentsDir, `${messageId}-${path.basename(attachment.fileName ?? String(index))}`);
+    await writeFile(target, plaintext);
+    console.log(`[attachment] ${peerId} ${target} (${plaintext.length} bytes)`);
+  }
+}
+
+// Sealed when the peer reached us sealed, so the relay does not learn who SysMaint talks to.
+async function sendToPeer(peerId: string, plaintext: string, sealed: boolean): Promise<void> {
+  await signalClient.send(peerId, plaintext, { sealed: sealed ? "preferred" : undefined });
+}
+
+async function sendChatReceipt(
+  peerId: string,
+  requestId: string,
+  receipt: SysmaintChatReceipt["receipt"],
+  sealed: boolean
+): Promise<void> {
+  const payload: SysmaintChatReceipt = {
+    version: 1,
+    kind: "chat.receipt",
+    requestId,
+    receipt,
+    from: localId,
+    createdAt: Date.now()
+  };
+  await sendToPeer(peerId, encodeSysmaintMessage(payload), sealed);
+}
+
+// Receipts are best-effort: a failure is logged and never holds up the message itself.
+function logReceiptError(peerId: string): (err: unknown) => void {
+  return (err) => console.error(`[receipt] ${peerId}: ${err instanceof Error ? err.message : String(err)}`);
+}
+
+// Acks once the inbound message is in the state DB; anything that fails earlier is
+// redelivered by the relay and then acked as a duplicate if it had been decrypted.
+async function handleMessage(opened: ReceivedMessage): Promise<void> {
+  const { frame } = opened;
+  // The agent takes prompts and telemetry one-to-one; group traffic is only acknowledged.
+  if (opened.groupId) {
+    opened.ack();
+    return;
+  }
+  // Receipts for CLI messages; the agent sends none of those, so there is nothing to match.
+  if (parseReceiptMessage(opened.plaintext)) {
+    opened.ack();
+    return;
+  }
+  const attachmentMessage = parseAttachmentMessage(opened.plaintext);
+  if (attachmentMessage) {
+    // The message key is spent once decrypted, so a redelivery could not be opened again;
+    // a failed download is logged and the frame acked.
+    const saved = await saveAttachments(frame.id, opened.senderId, attachmentMessage).then(
+      () => true,
+      (err: unknown) => {
+        console.error(`[attachment] ${opened.senderId}: ${err instanceof Error ? err.message : String(err)}`);
+        return false;
+      }
+    );
+    opened.ack();
+    if (saved) {
+      const receipt = encodeReceiptMessage("delivered", [frame.envelope.timestamp]);
+      await sendToPeer(opened.senderId, receipt, opened.sealed).catch(logReceiptError(opened.senderId));
+    }
+    return;
+  }
+  let message: SysmaintMessage;
+  try {
+    message = decodeSysmaintMessage(opened.plaintext);
+  } catch (err) {
+    // A redelivery would carry the same payload, so it is logged and acked.
+    console.error(`[message] ${opened.senderId}: dropped ${frame.id}: ${err instanceof Error ? err.message : String(err)}`);
+    opened.ack();
+    return;
+  }
 
   if (message.kind === "telemetry.report") {
     recordTelemetry(message);
+    opened.ack();
     console.log(
       `[telemetry] ${message.source} ${summarizeRelay(message.relay)} ${summarizeHost(message.host)}`
     );
@@ -525,8 +641,32 @@ async function handleMessage(data: RawData): Promise<void> {
   }
 
   if (message.kind === "chat.prompt") {
-    const peerId = envelope.senderId;
+    const peerId = opened.senderId;
+    // Under the "warn" policy a changed key still decrypts; prompts wait for re-approval.
+    const trust = getIdentityTrust(signalState, peerId, opened.senderDeviceId);
+    if (trust.status !== "trusted") {
+      opened.ack();
+      const accept = trust.status === "unverified" ? verifyCommand(peerId) : approveCommand(peerId);
+      console.warn(`[chat] refused prompt from ${peerId} (identity ${trust.status}); to accept run: ${accept}`);
+      if (trust.status === "blocked") return;
+      const refusal = {
+        version: 1,
+        kind: "chat.reply",
+        requestId: message.requestId,
+        reply: PROMPT_REFUSALS[trust.status],
+        from: localId,
+        createdAt: Date.now()
+      } as const;
+      await sendToPeer(peerId, encodeSysmaintMessage(refusal), opened.sealed).catch((err: unknown) => {
+        console.error(`[chat] ${peerId}: ${err instanceof Error ? err.message : String(err)}`);
+      });
+      return;
+    }
     insertChat.run(message.requestId, "in", peerId, message.prompt, Date.now(), null, null, null, null, null);
+    opened.ack();
+    await sendChatReceipt(peerId, message.requestId, "delivered", opened.sealed).catch(logReceiptError(peerId));
+    // The prompt goes to the model right away, which is as close to "read" as the agent gets.
+    await sendChatReceipt(peerId, message.requestId, "read", opened.sealed).catch(logReceiptError(peerId));
 
     const generated = await generateAssistantReply(message.requestId, message);
     insertChat.run(
@@ -542,7 +682,6 @@ async function handleMessage(data: RawData): Promise<void> {
       generated.usage.estimatedCostUsd
     );
 
-    await ensureSessionWith(peerId);
     const replyPayload = {
       version: 1,
       kind: "chat.reply",
@@ -551,73 +690,84 @@ async function handleMessage(data: RawData): Promise<void> {
       from: localId,
       createdAt: Date.now()
     } as const;
-    const outbound = await encryptMessage(signalState, peerId, encodeSysmaintMessage(replyPayload));
-
-    await httpPostJson(`${relayUrl}/v1/messages`, {
-      from: localId,
-      to: peerId,
-      envelope: outbound
-    });
+    await sendToPeer(peerId, encodeSysmaintMessage(replyPayload), opened.sealed);
     console.log(
-      `[chat] replied to ${peerId} request=${message.requestId} tokens=${generated.usage.totalTokens} cost_usd=${generated.usage.estimatedCostUsd.toFixed(6)}`
+      `[chat] replied${opened.sealed ? " sealed" : ""} to ${peerId} request=${message.requestId} tokens=${generated.usage.totalTokens} cost_usd=${generated.usage.estimatedCostUsd.toFixed(6)}`
     );
     return;
   }
 
+  if (message.kind === "chat.receipt") {
+    const at = Date.now();
+    markReplyReceipt.run(at, message.receipt === "read" ? 1 : 0, at, message.requestId, opened.senderId);
+  }
+
   if (message.kind === "chat.reply") {
     // SysMaint should not normally receive replies, but we keep logs if it does.
-    insertChat.run(message.requestId, "in", envelope.senderId, message.reply, Date.now(), null, null, null, null, null);
+    insertChat.run(message.requestId, "in", opened.senderId, message.reply, Date.now(), null, null, null, null, null);
   }
+  opened.ack();
 }
 
-let shouldStop = false;
-let activeWs: WebSocket | null = null;
-
-process.on("SIGINT", () => {
-  shouldStop = true;
-  activeWs?.close(1000, "SIGINT");
-});
-process.on("SIGTERM", () => {
-  shouldStop = true;
-  activeWs?.close(1000, "SIGTERM");
-});
+let stream: RelayStream | undefined;
 
-async function listenLoop(): Promise<void> {
-  while (!shouldStop) {
-    await new Promise<void>((resolve) => {
-      const ws = new WebSocket(resolveWsUrl(relayUrl, localId));
-      activeWs = ws;
+process.on("SIGINT", () => stream?.close(1000, "SIGINT"));
+process.on("SIGTERM", () => stream?.close(1000, "SIGTERM"));
 
-      ws.on("open", () => {
-        console.log(`sysmaint-agent listening on ${resolveWsUrl(relayUrl, localId)}`);
-      });
-
-      ws.on("message", (data) => {
-        void handleMessage(data).catch((err) => {
-          console.error("message handler error", err);
-        });
-      });
+async function listen(): Promise<void> {
+  stream = signalClient.listen({
+    heartbeatTimeoutMs: wsHeartbeatTimeoutMs,
+    reconnectDelayMs: 1000,
+    resetStaleSessions: true
+  });
+  stream.on("open", (url) => console.log(`sysmaint-agent listening on ${url}`));
+  // A peer that reinstalled or restored an old backup no longer shares our session. After
+  // the reset the peer is moved onto the new one; the frame that failed is tried once more,
+  // then acked and "rejected", and has to be sent again.
+  stream.on("reset", (peerId, deviceId) => {
+    console.warn(`reset stale session with ${peerId} (device ${deviceId})`);
+  });
+  stream.on("message", (message) => {
+    void handleMessage(message).catch((err) => {
+      console.error("message handler error", err);
+    });
+  });
+  // Frames under a refused identity key stay un-acked, so the relay keeps redelivering
+  // them until the key is trusted; logIdentityEvent has already logged the refusal.
+  stream.on("untrusted", (frame) => {
+    console.warn(`left message ${frame.id} queued until its sender's identity key is trusted`);
+  });
+  stream.on("rejected", (err) => {
+    console.error("message handler error", err);
+  });
+  stream.on("error", (err) => {
+    console.error("websocket error", err);
+  });
+  await stream.done;
+}
 
-      ws.on("close", () => {
-        activeWs = null;
-        resolve();
-      });
+async function main(): Promise<void> {
+  logPreKeyRotation(await signalClient.bootstrap({ id: localId, rotation: prekeyRotation }));
+  console.log(`sysmaint-agent started with id=${localId} relay=${relayUrl}`);
 
-      ws.on("error", (err) => {
-        console.error("websocket error", err);
-      });
+  const prekeyTimer = setInterval(() => {
+    void signalClient.maintainPreKeys(prekeyRotation).then(logPreKeyRotation, (err) => {
+      console.error("prekey maintenance error", err);
     });
+  }, prekeyCheckMs);
+  prekeyTimer.unref();
 
-    if (!shouldStop) {
-      await delay(1000);
-    }
+  if (backupIntervalMs > 0) {
+    const backup = (): void => {
+      void backupSignalState().catch((err) => {
+        console.error("backup error", err);
+      });
+    };
+    backup();
+    setInterval(backup, backupIntervalMs).unref();
   }
-}
 
-async function main(): Promise<void> {
-  await ensureIdentityBootstrapped();
-  console.log(`sysmaint-agent started with id=${localId} relay=${relayUrl}`);
-  await listenLoop();
+  await listen();
 }
 
 void main().catch((err) => {
@@ -4,14 +4,15 @@ import { NextResponse } from "next/server";
 export const runtime = "nodejs";
 
 const BodySchema = z.object({
-  prompt: z.string().min(1)
+  prompt: z.string().min(1),
+  requestId: z.string().min(1).max(128).optional()
 });
 
 export async function POST(req: Request) {
   try {
     const body = BodySchema.parse(await req.json());
     const { sendPromptToSysmaint } = await import("@/lib/signal");
-    const result = await sendPromptToSysmaint(body.prompt);
+    const result = await sendPromptToSysmaint(body.prompt, body.requestId);
     return NextResponse.json({
       ok: true,
       requestId: result.requestId,
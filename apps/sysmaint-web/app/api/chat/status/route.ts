@@ -0,0 +1,27 @@
+import { z } from "zod";
+import { NextResponse } from "next/server";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const QuerySchema = z.object({
+  requestId: z.string().min(1)
+});
+
+export async function GET(req: Request) {
+  try {
+    const url = new URL(req.url);
+    const parsed = QuerySchema.parse({
+      requestId: url.searchParams.get("requestId")
+    });
+    const { getPromptStatus } = await import("@/lib/signal");
+    return NextResponse.json({
+      ok: true,
+      requestId: parsed.requestId,
+      status: getPromptStatus(parsed.requestId) ?? null
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return NextResponse.json({ ok: false, error: message }, { status: 500 });
+  }
+}
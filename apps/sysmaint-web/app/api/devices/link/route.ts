@@ -0,0 +1,25 @@
+import { z } from "zod";
+import { NextResponse } from "next/server";
+import { requireOperator } from "@/lib/operator";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const BodySchema = z.object({
+  deviceId: z.number().int().min(2),
+  identityKey: z.string().min(1)
+});
+
+export async function POST(req: Request) {
+  const denied = requireOperator(req);
+  if (denied) return denied;
+  try {
+    const body = BodySchema.parse(await req.json());
+    const { linkAliceDevice } = await import("@/lib/signal");
+    await linkAliceDevice(body.deviceId, body.identityKey);
+    return NextResponse.json({ ok: true, deviceId: body.deviceId });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return NextResponse.json({ ok: false, error: message }, { status: 500 });
+  }
+}
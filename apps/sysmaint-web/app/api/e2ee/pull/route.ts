@@ -15,11 +15,12 @@ export async function GET(req: Request) {
     const parsed = QuerySchema.parse({
       user: url.searchParams.get("user")
     });
-    const messages = await pullDirectMessages(parsed.user);
+    const { messages, receipts } = await pullDirectMessages(parsed.user);
     return NextResponse.json({
       ok: true,
       user: parsed.user,
-      messages
+      messages,
+      receipts
     });
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err);
@@ -0,0 +1,26 @@
+import { z } from "zod";
+import { NextResponse } from "next/server";
+import { DemoUserSchema, sendDirectReceipt } from "@/lib/e2ee-chat";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const BodySchema = z.object({
+  from: DemoUserSchema,
+  to: DemoUserSchema,
+  messageIds: z.array(z.string().min(1)).min(1)
+});
+
+export async function POST(req: Request) {
+  try {
+    const body = BodySchema.parse(await req.json());
+    const receipt = await sendDirectReceipt(body.from, body.to, "read", body.messageIds);
+    return NextResponse.json({
+      ok: true,
+      receipt
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return NextResponse.json({ ok: false, error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { z } from "zod";
+import { NextResponse } from "next/server";
+import { requireOperator } from "@/lib/operator";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const BodySchema = z.object({
+  verified: z.boolean()
+});
+
+export async function GET() {
+  try {
+    const { getSysmaintSafetyNumber } = await import("@/lib/signal");
+    const safetyNumber = await getSysmaintSafetyNumber();
+    return NextResponse.json({ ok: true, safetyNumber });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return NextResponse.json({ ok: false, error: message }, { status: 500 });
+  }
+}
+
+// Marking SysMaint verified is an operator action, like linking a device.
+export async function POST(req: Request) {
+  const denied = requireOperator(req);
+  if (denied) return denied;
+  try {
+    const body = BodySchema.parse(await req.json());
+    const { setSysmaintVerified } = await import("@/lib/signal");
+    const safetyNumber = await setSysmaintVerified(body.verified);
+    return NextResponse.json({ ok: true, safetyNumber });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return NextResponse.json({ ok: false, error: message }, { status: 500 });
+  }
+}
@@ -2,12 +2,93 @@
 
 import { FormEvent, useEffect, useRef, useState } from "react";
 
+type PromptStatus = "sending" | "sent" | "delivered" | "read";
+
 type ChatMessage = {
   id: string;
   role: "user" | "bot";
   text: string;
+  status?: PromptStatus;
+};
+
+const statusRank: Record<PromptStatus, number> = { sending: 0, sent: 1, delivered: 2, read: 3 };
+
+type SafetyNumber = {
+  peerId: string;
+  deviceId: number;
+  displayable: string;
+  scannable: string;
+  verified: boolean;
 };
 
+function VerifyPanel() {
+  const [safetyNumber, setSafetyNumber] = useState<SafetyNumber | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [operatorToken, setOperatorToken] = useState("");
+
+  const request = async (init?: RequestInit) => {
+    setBusy(true);
+    try {
+      const res = await fetch("/api/identity/sysmaint", { cache: "no-store", ...init });
+      const payload = (await res.json()) as { ok: boolean; safetyNumber?: SafetyNumber; error?: string };
+      if (!payload.ok || !payload.safetyNumber) throw new Error(payload.error ?? `HTTP ${res.status}`);
+      setSafetyNumber(payload.safetyNumber);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  useEffect(() => {
+    void request();
+  }, []);
+
+  const setVerified = (verified: boolean) =>
+    request({
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${operatorToken}` },
+      body: JSON.stringify({ verified })
+    });
+
+  return (
+    <div className="card">
+      <div className="label">SysMaint identity</div>
+      {error ? <div className="sub">Could not load the safety number: {error}</div> : null}
+      {safetyNumber ? (
+        <>
+          <div className="safety-number">{safetyNumber.displayable.match(/.{1,5}/g)?.join(" ")}</div>
+          <div className="sub">
+            {safetyNumber.verified ? "Verified" : "Not verified"} (device {safetyNumber.deviceId}). Compare with{" "}
+            <code>mega identity fingerprint</code> run against the agent&apos;s signal DB; a changed key shows as
+            not verified again.
+          </div>
+          <div className="sub scan-payload">QR payload: {safetyNumber.scannable}</div>
+          <div style={{ marginTop: 10 }}>
+            <input
+              type="password"
+              className="operator-token"
+              value={operatorToken}
+              onChange={(event) => setOperatorToken(event.target.value)}
+              placeholder="Operator token"
+              autoComplete="off"
+            />
+            <button
+              type="button"
+              disabled={busy || operatorToken.length === 0}
+              onClick={() => void setVerified(!safetyNumber.verified)}
+            >
+              {safetyNumber.verified ? "Clear verification" : "Numbers match: mark verified"}
+            </button>
+          </div>
+        </>
+      ) : null}
+    </div>
+  );
+}
+
 const readyPrompts = [
   "System status summary in one line.",
   "Are there any active anomalies right now?",
@@ -41,20 +122,39 @@ export default function ChatPage() {
     const trimmed = prompt.trim();
     if (!trimmed || busy) return;
 
+    const requestId = crypto.randomUUID();
     const userMessage: ChatMessage = {
-      id: `u:${Date.now()}`,
+      id: `u:${requestId}`,
       role: "user",
-      text: trimmed
+      text: trimmed,
+      status: "sending"
     };
     setMessages((prev) => [...prev, userMessage]);
     setPrompt("");
     setBusy(true);
 
+    const setStatus = (status: PromptStatus): void => {
+      setMessages((prev) =>
+        prev.map((msg) =>
+          msg.id === userMessage.id && statusRank[status] > statusRank[msg.status ?? "sending"] ? { ...msg, status } : msg
+        )
+      );
+    };
+    // SysMaint's receipts arrive while the reply is generated; the API holds the latest.
+    const statusTimer = setInterval(() => {
+      void fetch(`/api/chat/status?requestId=${encodeURIComponent(requestId)}`, { cache: "no-store" })
+        .then((res) => res.json() as Promise<{ ok: boolean; status?: PromptStatus | null }>)
+        .then((payload) => {
+          if (payload.ok && payload.status) setStatus(payload.status);
+        })
+        .catch(() => undefined);
+    }, 700);
+
     try {
       const res = await fetch("/api/chat", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ prompt: trimmed })
+        body: JSON.stringify({ prompt: trimmed, requestId })
       });
       if (!res.ok) {
         const text = await res.text();
@@ -62,6 +162,8 @@ export default function ChatPage() {
       }
 
       const payload = (await res.json()) as { reply: string; requestId: string };
+      // A reply means SysMaint read the prompt, even if its read receipt was lost.
+      setStatus("read");
       setMessages((prev) => [
         ...prev,
         {
@@ -80,6 +182,7 @@ export default function ChatPage() {
         }
       ]);
     } finally {
+      clearInterval(statusTimer);
       setBusy(false);
     }
   };
@@ -88,11 +191,13 @@ export default function ChatPage() {
     <section className="chat-wrap">
       <h1>Alice ↔ SysMaint (Signal E2EE)</h1>
       <p className="sub">Prompts and replies are transported as Signal-encrypted envelopes through the relay.</p>
+      <VerifyPanel />
       <div className="chat-log" ref={chatLogRef}>
         {messages.length === 0 ? <div className="sub">No messages yet.</div> : null}
         {messages.map((msg) => (
           <div key={msg.id} className={`msg ${msg.role}`}>
             <strong>{msg.role === "user" ? "Alice" : "SysMaint"}:</strong> {msg.text}
+            {msg.status ? <div className="sub">{msg.status}</div> : null}
           </div>
         ))}
       </div>
@@ -14,6 +14,18 @@ type DirectMessage = {
   createdAt: number;
 };
 
+type DirectReceipt = {
+  version: 1;
+  kind: "user.receipt.v1";
+  receipt: "delivered" | "read";
+  messageIds: string[];
+  from: string;
+  to: string;
+  createdAt: number;
+};
+
+type DeliveryStatus = "sent" | DirectReceipt["receipt"];
+
 type BotMessage = {
   id: string;
   role: "user" | "bot";
@@ -45,6 +57,26 @@ function buildAutoStatusPrompt(message: DirectMessage): string {
   ].join("\n");
 }
 
+const statusRank: Record<DeliveryStatus, number> = { sent: 0, delivered: 1, read: 2 };
+
+function applyReceipts(
+  existing: Record<string, DeliveryStatus>,
+  receipts: DirectReceipt[]
+): Record<string, DeliveryStatus> {
+  const next = { ...existing };
+  for (const receipt of receipts) {
+    for (const messageId of receipt.messageIds) {
+      const current = next[messageId] ?? "sent";
+      if (statusRank[receipt.receipt] > statusRank[current]) next[messageId] = receipt.receipt;
+    }
+  }
+  return next;
+}
+
+function peerOf(user: DemoUser): DemoUser {
+  return user === "alice" ? "bob" : "alice";
+}
+
 function mergeDirectMessages(existing: DirectMessage[], incoming: DirectMessage[]): DirectMessage[] {
   const merged = new Map<string, DirectMessage>();
   for (const msg of existing) {
@@ -60,6 +92,7 @@ function ThreadPanel({
   title,
   owner,
   thread,
+  statuses,
   inputValue,
   inputPlaceholder,
   sending,
@@ -70,6 +103,7 @@ function ThreadPanel({
   title: string;
   owner: DemoUser;
   thread: DirectMessage[];
+  statuses: Record<string, DeliveryStatus>;
   inputValue: string;
   inputPlaceholder: string;
   sending: boolean;
@@ -88,7 +122,10 @@ function ThreadPanel({
           return (
             <div key={msg.messageId} className={`msg ${outbound ? "user" : "bot"}`}>
               <strong>{msg.from}:</strong> {msg.text}
-              <div className="sub">{formatTime(msg.createdAt)}</div>
+              <div className="sub">
+                {formatTime(msg.createdAt)}
+                {outbound ? ` · ${statuses[msg.messageId] ?? "sent"}` : null}
+              </div>
             </div>
           );
         })}
@@ -111,6 +148,7 @@ function ThreadPanel({
 
 export default function DemoPage() {
   const [directMessages, setDirectMessages] = useState<DirectMessage[]>([]);
+  const [statuses, setStatuses] = useState<Record<string, DeliveryStatus>>({});
   const [aliceInput, setAliceInput] = useState("");
   const [bobInput, setBobInput] = useState("");
   const [aliceBusy, setAliceBusy] = useState(false);
@@ -124,6 +162,7 @@ export default function DemoPage() {
   const aliceLogRef = useRef<HTMLDivElement | null>(null);
   const bobLogRef = useRef<HTMLDivElement | null>(null);
   const sysmaintLogRef = useRef<HTMLDivElement | null>(null);
+  const sysmaintInFlight = useRef(0);
 
   useEffect(() => {
     if (aliceLogRef.current) {
@@ -142,20 +181,34 @@ export default function DemoPage() {
   useEffect(() => {
     let stop = false;
 
+    const pull = async (user: DemoUser) => {
+      const res = await fetch(`/api/e2ee/pull?user=${user}`, { cache: "no-store" });
+      if (!res.ok) return;
+
+      const payload = (await res.json()) as { ok: boolean; messages?: DirectMessage[]; receipts?: DirectReceipt[] };
+      if (stop) return;
+      if (!payload.ok) return;
+
+      const receipts = payload.receipts ?? [];
+      if (receipts.length > 0) setStatuses((prev) => applyReceipts(prev, receipts));
+
+      const incoming = [...(payload.messages ?? [])];
+      if (incoming.length === 0) return;
+      setDirectMessages((prev) => mergeDirectMessages(prev, incoming));
+      // Both panes show the whole thread, so anything pulled is on screen and read.
+      await fetch("/api/e2ee/read", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ from: user, to: peerOf(user), messageIds: incoming.map((msg) => msg.messageId) })
+      });
+    };
+
     const poll = async () => {
       try {
-        // Poll only Bob's queue to avoid websocket collision with Alice<->SysMaint chat.
-        // Relay permits a single active websocket per client_id.
-        const bobRes = await fetch("/api/e2ee/pull?user=bob", { cache: "no-store" });
-        if (!bobRes.ok) return;
-
-        const bobPayload = (await bobRes.json()) as { ok: boolean; messages?: DirectMessage[] };
-        if (stop) return;
-        if (!bobPayload.ok) return;
-
-        const incoming = [...(bobPayload.messages ?? [])];
-        if (incoming.length === 0) return;
-        setDirectMessages((prev) => mergeDirectMessages(prev, incoming));
+        await pull("bob");
+        // Relay permits a single active websocket per client_id, so Alice's queue is only
+        // pulled while no Alice<->SysMaint request is waiting for its reply.
+        if (sysmaintInFlight.current === 0) await pull("alice");
       } catch {
         // Silent poll failures are acceptable in the demo; sending path reports explicit errors.
       }
@@ -196,7 +249,9 @@ export default function DemoPage() {
     }
     const message = payload.message;
     setDirectMessages((prev) => mergeDirectMessages(prev, [message]));
+    setStatuses((prev) => ({ ...prev, [message.messageId]: prev[message.messageId] ?? "sent" }));
     void (async () => {
+      sysmaintInFlight.current += 1;
       try {
         const autoPrompt = buildAutoStatusPrompt(message);
         const statusRes = await fetch("/api/chat", {
@@ -229,6 +284,8 @@ export default function DemoPage() {
             text: `Auto E2EE status failed (${message.from} -> ${message.to}): ${err instanceof Error ? err.message : String(err)}`
           }
         ]);
+      } finally {
+        sysmaintInFlight.current -= 1;
       }
     })();
   };
@@ -282,6 +339,7 @@ export default function DemoPage() {
     setSysmaintMessages((prev) => [...prev, userMessage]);
     setSysmaintPrompt("");
     setSysmaintBusy(true);
+    sysmaintInFlight.current += 1;
 
     try {
       const res = await fetch("/api/chat", {
@@ -312,6 +370,7 @@ export default function DemoPage() {
         }
       ]);
     } finally {
+      sysmaintInFlight.current -= 1;
       setSysmaintBusy(false);
     }
   };
@@ -328,6 +387,7 @@ export default function DemoPage() {
           title="Alice (to Bob)"
           owner="alice"
           thread={thread}
+          statuses={statuses}
           inputValue={aliceInput}
           inputPlaceholder="Alice writes to Bob..."
           sending={aliceBusy}
@@ -378,6 +438,7 @@ export default function DemoPage() {
           title="Bob (to Alice)"
           owner="bob"
           thread={thread}
+          statuses={statuses}
           inputValue={bobInput}
           inputPlaceholder="Bob writes to Alice..."
           sending={bobBusy}
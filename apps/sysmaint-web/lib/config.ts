@@ -1,4 +1,5 @@
 import path from "node:path";
+import type { TrustPolicy } from "@mega/signal-core";
 
 const defaultDataDir = path.join(process.cwd(), ".sysmaint");
 
@@ -10,3 +11,8 @@ export const signalDbPath = process.env.SYSMAINT_WEB_SIGNAL_DB ?? path.join(defa
 export const bobSignalDbPath = process.env.BOB_SIGNAL_DB ?? path.join(defaultDataDir, "bob-web.db");
 export const stateDbPath = process.env.SYSMAINT_STATE_DB ?? path.join(defaultDataDir, "sysmaint-state.db");
 export const waitTimeoutMs = Number(process.env.SYSMAINT_CHAT_TIMEOUT_MS ?? "25000");
+export const sealedSender = process.env.SYSMAINT_SEALED_SENDER === "true";
+// "tofu", "strict" or "warn"; see the trust policy section of the README.
+export const trustPolicy = (process.env.SYSMAINT_WEB_TRUST_POLICY ?? "tofu") as TrustPolicy;
+// Bearer token for operator actions such as linking a device; unset disables them.
+export const operatorToken = process.env.SYSMAINT_WEB_OPERATOR_TOKEN ?? "";
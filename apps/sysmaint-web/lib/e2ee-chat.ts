@@ -2,21 +2,9 @@ import { mkdirSync } from "node:fs";
 import path from "node:path";
 import { randomUUID } from "node:crypto";
 import { z } from "zod";
-import { ProtocolAddress } from "@signalapp/libsignal-client";
-import { WebSocket, type RawData } from "ws";
-import {
-  decryptMessage,
-  encryptMessage,
-  exportBundle,
-  generatePreKeys,
-  initSession,
-  initializeIdentity,
-  loadEnvelope,
-  openStore,
-  type Bundle
-} from "@mega/signal-core";
-import { aliceId, bobId, bobSignalDbPath, relayUrl } from "./config";
-import { ensureAliceBootstrapped, ensureAliceSessionWith, getAliceSignalState } from "./signal";
+import { openStore, SignalClient } from "@mega/signal-core";
+import { aliceId, bobId, bobSignalDbPath, relayUrl, trustPolicy } from "./config";
+import { getAliceClient, openInboxStream, sendToPeer, takeInboxMessages } from "./signal";
 
 export const DemoUserSchema = z.enum(["alice", "bob"]);
 export type DemoUser = z.infer<typeof DemoUserSchema>;
@@ -31,16 +19,32 @@ export const DirectUserChatSchema = z.object({
   createdAt: z.number().int().positive()
 });
 
+// Sent by the recipient of user.chat.v1 messages: "delivered" as soon as a pull decrypts
+// them, "read" once the page has shown them.
+export const DirectUserReceiptSchema = z.object({
+  version: z.literal(1),
+  kind: z.literal("user.receipt.v1"),
+  receipt: z.enum(["delivered", "read"]),
+  messageIds: z.array(z.string().min(1)).min(1),
+  from: z.string().min(1),
+  to: z.string().min(1),
+  createdAt: z.number().int().positive()
+});
+
 export type DirectUserChat = z.infer<typeof DirectUserChatSchema>;
+export type DirectUserReceipt = z.infer<typeof DirectUserReceiptSchema>;
 
-type SignalState = ReturnType<typeof openStore>;
+export type DirectPull = {
+  messages: DirectUserChat[];
+  receipts: DirectUserReceipt[];
+};
 
 const userIdByKey: Record<DemoUser, string> = {
   alice: aliceId,
   bob: bobId
 };
 
-let bobState: SignalState | null = null;
+let bobClient: SignalClient | null = null;
 
 function getPassphrase(): string {
   const value = process.env.MEGA_PASSPHRASE;
@@ -50,87 +54,16 @@ function getPassphrase(): string {
   return value;
 }
 
-function getState(user: DemoUser): SignalState {
-  if (user === "alice") return getAliceSignalState();
-  if (bobState) return bobState;
+function getClient(user: DemoUser): SignalClient {
+  if (user === "alice") return getAliceClient();
+  if (bobClient) return bobClient;
   mkdirSync(path.dirname(bobSignalDbPath), { recursive: true });
-  bobState = openStore(bobSignalDbPath, getPassphrase());
-  return bobState;
-}
-
-function resolveWsUrl(serverBase: string, clientId: string): string {
-  const base = new URL(serverBase);
-  const protocol = base.protocol === "https:" ? "wss:" : "ws:";
-  const wsUrl = new URL("/ws", `${protocol}//${base.host}`);
-  wsUrl.searchParams.set("client_id", clientId);
-  return wsUrl.toString();
-}
-
-async function httpGetJson<T>(url: string): Promise<T> {
-  const res = await fetch(url);
-  if (!res.ok) {
-    const msg = await res.text();
-    throw new Error(`HTTP ${res.status}: ${msg}`);
-  }
-  return (await res.json()) as T;
-}
-
-async function httpPostJson<T>(url: string, body: unknown): Promise<T> {
-  const res = await fetch(url, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(body)
-  });
-  if (!res.ok) {
-    const msg = await res.text();
-    throw new Error(`HTTP ${res.status}: ${msg}`);
-  }
-  return (await res.json()) as T;
-}
-
-function ensureBundle(input: unknown): Bundle {
-  if (!input || typeof input !== "object") {
-    throw new Error("Invalid prekey bundle payload.");
-  }
-  const bundle = input as Bundle;
-  if (!bundle.id) {
-    throw new Error("Invalid prekey bundle payload.");
-  }
-  return bundle;
+  bobClient = new SignalClient(openStore(bobSignalDbPath, getPassphrase(), { trustPolicy }), { relayUrl });
+  return bobClient;
 }
 
 async function ensureUserBootstrapped(user: DemoUser): Promise<void> {
-  if (user === "alice") {
-    await ensureAliceBootstrapped();
-    return;
-  }
-
-  const state = getState(user);
-  const userId = userIdByKey[user];
-
-  if (!state.getLocalIdentity()) {
-    await initializeIdentity(state, userId, 1);
-  }
-
-  await generatePreKeys(state, 1);
-  await httpPostJson(`${relayUrl}/v1/register`, { id: userId });
-  const bundle = await exportBundle(state);
-  await httpPostJson(`${relayUrl}/v1/prekeys`, { id: userId, bundle });
-}
-
-async function ensureSessionWith(from: DemoUser, peerId: string): Promise<void> {
-  if (from === "alice") {
-    await ensureAliceSessionWith(peerId);
-    return;
-  }
-
-  const state = getState(from);
-  const address = ProtocolAddress.new(peerId, 1);
-  const existing = await state.sessionStore.getSession(address);
-  if (existing) return;
-
-  const payload = await httpGetJson<{ id: string; bundle: Bundle }>(`${relayUrl}/v1/prekeys/${peerId}`);
-  await initSession(state, ensureBundle(payload.bundle));
+  await getClient(user).bootstrap({ id: userIdByKey[user] });
 }
 
 export async function sendDirectMessage(from: DemoUser, to: DemoUser, text: string): Promise<DirectUserChat> {
@@ -140,11 +73,9 @@ export async function sendDirectMessage(from: DemoUser, to: DemoUser, text: stri
 
   const fromId = userIdByKey[from];
   const toId = userIdByKey[to];
-  const state = getState(from);
 
   await ensureUserBootstrapped(from);
   await ensureUserBootstrapped(to);
-  await ensureSessionWith(from, toId);
 
   const message: DirectUserChat = {
     version: 1,
@@ -156,68 +87,106 @@ export async function sendDirectMessage(from: DemoUser, to: DemoUser, text: stri
     createdAt: Date.now()
   };
 
-  const envelope = await encryptMessage(state, toId, JSON.stringify(message));
-  await httpPostJson(`${relayUrl}/v1/messages`, {
+  await sendToPeer(getClient(from), toId, JSON.stringify(message));
+
+  return message;
+}
+
+export async function sendDirectReceipt(
+  from: DemoUser,
+  to: DemoUser,
+  receipt: DirectUserReceipt["receipt"],
+  messageIds: string[]
+): Promise<DirectUserReceipt> {
+  const fromId = userIdByKey[from];
+  const toId = userIdByKey[to];
+
+  await ensureUserBootstrapped(from);
+
+  const payload: DirectUserReceipt = {
+    version: 1,
+    kind: "user.receipt.v1",
+    receipt,
+    messageIds,
     from: fromId,
     to: toId,
-    envelope
-  });
+    createdAt: Date.now()
+  };
+  await sendToPeer(getClient(from), toId, JSON.stringify(payload));
+  return payload;
+}
 
-  return message;
+function demoUserById(id: string): DemoUser | undefined {
+  return DemoUserSchema.options.find((user) => userIdByKey[user] === id);
+}
+
+function parseDirect<T>(schema: z.ZodType<T>, plaintext: string): T | undefined {
+  try {
+    const parsed = schema.safeParse(JSON.parse(plaintext));
+    return parsed.success ? parsed.data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Takes chats and receipts addressed to `user` from the relay, then tells each sender
+// their chats were delivered.
+export async function pullDirectMessages(user: DemoUser, windowMs = 900): Promise<DirectPull> {
+  const pulled = await pullDirectFrames(user, windowMs);
+  const bySender = new Map<DemoUser, string[]>();
+  for (const message of pulled.messages) {
+    const sender = demoUserById(message.from);
+    if (!sender) continue;
+    bySender.set(sender, [...(bySender.get(sender) ?? []), message.messageId]);
+  }
+  for (const [sender, messageIds] of bySender) {
+    await sendDirectReceipt(user, sender, "delivered", messageIds).catch(() => {
+      // The chats are already out of the relay queue; a lost receipt only leaves them at "sent".
+    });
+  }
+  return pulled;
 }
 
-export async function pullDirectMessages(user: DemoUser, windowMs = 900): Promise<DirectUserChat[]> {
+async function pullDirectFrames(user: DemoUser, windowMs: number): Promise<DirectPull> {
   const userId = userIdByKey[user];
-  const state = getState(user);
+  const client = getClient(user);
 
   await ensureUserBootstrapped(user);
 
-  return await new Promise<DirectUserChat[]>((resolve, reject) => {
-    const ws = new WebSocket(resolveWsUrl(relayUrl, userId));
-    const received = new Map<string, DirectUserChat>();
-    const pending: Promise<void>[] = [];
+  return await new Promise<DirectPull>((resolve, reject) => {
+    const stream = openInboxStream(client);
     let settled = false;
 
+    const takeDirectMessages = (): DirectPull => ({
+      messages: takeInboxMessages(client.state, (plaintext) => {
+        const message = parseDirect(DirectUserChatSchema, plaintext);
+        return message?.to === userId ? message : undefined;
+      }).sort((a, b) => a.createdAt - b.createdAt),
+      receipts: takeInboxMessages(client.state, (plaintext) => {
+        const receipt = parseDirect(DirectUserReceiptSchema, plaintext);
+        return receipt?.to === userId ? receipt : undefined;
+      })
+    });
+
     const done = (err?: Error): void => {
       if (settled) return;
       settled = true;
       clearTimeout(timer);
-      void Promise.allSettled(pending).then(() => {
-        try {
-          ws.close(1000, "pull-complete");
-        } catch {
-          // ignore
-        }
+      void stream.idle().then(() => {
+        stream.close(1000, "pull-complete");
         if (err) reject(err);
-        else resolve(Array.from(received.values()).sort((a, b) => a.createdAt - b.createdAt));
+        else resolve(takeDirectMessages());
       });
     };
 
     const timer = setTimeout(() => done(), windowMs);
     timer.unref();
 
-    ws.on("message", (raw: RawData) => {
-      const task = (async () => {
-        try {
-          const payload = JSON.parse(raw.toString()) as { envelope?: unknown };
-          const envelope = loadEnvelope(payload.envelope ?? payload);
-          const plaintext = await decryptMessage(state, envelope);
-          const parsed = DirectUserChatSchema.safeParse(JSON.parse(plaintext));
-          if (!parsed.success) return;
-          if (parsed.data.to !== userId) return;
-          received.set(parsed.data.messageId, parsed.data);
-        } catch {
-          // Ignore unrelated payloads or parse failures.
-        }
-      })();
-      pending.push(task);
-    });
-
-    ws.on("error", (err) => {
+    stream.on("error", (err) => {
       done(err instanceof Error ? err : new Error(String(err)));
     });
 
-    ws.on("close", () => {
+    stream.on("close", () => {
       done();
     });
   });
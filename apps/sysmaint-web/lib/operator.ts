@@ -0,0 +1,23 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { NextResponse } from "next/server";
+import { operatorToken } from "./config";
+
+// Actions that change what Alice's identity trusts or who can speak for it are for the
+// operator only: the request must carry `Authorization: Bearer <SYSMAINT_WEB_OPERATOR_TOKEN>`.
+// Returns the response to send when it does not, or null to go ahead.
+export function requireOperator(req: Request): NextResponse | null {
+  if (!operatorToken) {
+    return NextResponse.json(
+      { ok: false, error: "Operator actions are disabled. Set SYSMAINT_WEB_OPERATOR_TOKEN to enable them." },
+      { status: 403 }
+    );
+  }
+  const header = req.headers.get("authorization") ?? "";
+  const presented = header.startsWith("Bearer ") ? header.slice("Bearer ".length) : "";
+  // Hashing first gives equal lengths, which timingSafeEqual requires.
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  if (!presented || !timingSafeEqual(digest(presented), digest(operatorToken))) {
+    return NextResponse.json({ ok: false, error: "Operator token required." }, { status: 401 });
+  }
+  return null;
+}
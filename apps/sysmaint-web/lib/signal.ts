@@ -1,28 +1,32 @@
 import { mkdirSync } from "node:fs";
 import path from "node:path";
-import { ProtocolAddress } from "@signalapp/libsignal-client";
-import { WebSocket, type RawData } from "ws";
 import {
   createRequestId,
   decodeSysmaintMessage,
   encodeSysmaintMessage,
-  type SysmaintChatPrompt
+  type SysmaintChatPrompt,
+  type SysmaintChatReceipt,
+  type SysmaintMessage
 } from "@mega/sysmaint-protocol";
 import {
-  decryptMessage,
-  encryptMessage,
-  exportBundle,
-  generatePreKeys,
-  initSession,
-  initializeIdentity,
-  loadEnvelope,
+  deleteInboxMessage,
+  getSafetyNumber,
+  listInboxMessages,
   openStore,
-  type Bundle
+  saveInboxMessage,
+  setIdentityVerified,
+  SignalClient,
+  type RelayStream,
+  type SafetyNumber,
+  type SignalState
 } from "@mega/signal-core";
-import { aliceId, relayUrl, signalDbPath, sysmaintId, waitTimeoutMs } from "./config";
+import { aliceId, relayUrl, sealedSender, signalDbPath, sysmaintId, trustPolicy, waitTimeoutMs } from "./config";
 
-let signalState: ReturnType<typeof openStore> | null = null;
+let signalClient: SignalClient | null = null;
 let chatPromptQueue: Promise<void> = Promise.resolve();
+// Latest receipt from SysMaint per in-flight prompt (undefined until the first arrives),
+// for the chat page to poll.
+const promptReceipts = new Map<string, SysmaintChatReceipt["receipt"] | undefined>();
 
 function getPassphrase(): string {
   const value = process.env.MEGA_PASSPHRASE;
@@ -32,128 +36,146 @@ function getPassphrase(): string {
   return value;
 }
 
-function getSignalState() {
-  if (signalState) return signalState;
+function getSignalClient(): SignalClient {
+  if (signalClient) return signalClient;
   mkdirSync(path.dirname(signalDbPath), { recursive: true });
-  signalState = openStore(signalDbPath, getPassphrase());
-  return signalState;
+  signalClient = new SignalClient(openStore(signalDbPath, getPassphrase(), { trustPolicy }), { relayUrl });
+  return signalClient;
 }
 
-export function getAliceSignalState() {
-  return getSignalState();
+export function getAliceClient(): SignalClient {
+  return getSignalClient();
 }
 
-function resolveWsUrl(serverBase: string, clientId: string): string {
-  const base = new URL(serverBase);
-  const protocol = base.protocol === "https:" ? "wss:" : "ws:";
-  const wsUrl = new URL("/ws", `${protocol}//${base.host}`);
-  wsUrl.searchParams.set("client_id", clientId);
-  return wsUrl.toString();
+export async function ensureAliceBootstrapped(): Promise<void> {
+  await getSignalClient().bootstrap({ id: aliceId });
 }
 
-async function httpGetJson<T>(url: string): Promise<T> {
-  const res = await fetch(url);
-  if (!res.ok) {
-    const msg = await res.text();
-    throw new Error(`HTTP ${res.status}: ${msg}`);
-  }
-  return (await res.json()) as T;
+// With SYSMAINT_SEALED_SENDER on and a published delivery token for the peer the message
+// goes sealed and unsigned; otherwise identified and signed.
+export async function sendToPeer(client: SignalClient, toId: string, plaintext: string): Promise<void> {
+  await client.send(toId, plaintext, { sealed: sealedSender ? "preferred" : undefined });
 }
 
-async function httpPostJson<T>(url: string, body: unknown): Promise<T> {
-  const res = await fetch(url, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(body)
-  });
-  if (!res.ok) {
-    const msg = await res.text();
-    throw new Error(`HTTP ${res.status}: ${msg}`);
-  }
-  return (await res.json()) as T;
+export async function linkAliceDevice(deviceId: number, identityKey: string): Promise<void> {
+  await ensureAliceBootstrapped();
+  await getSignalClient().linkDevice(deviceId, identityKey);
 }
 
-function ensureBundle(input: unknown): Bundle {
-  if (!input || typeof input !== "object") {
-    throw new Error("Invalid prekey bundle payload.");
-  }
-  const bundle = input as Bundle;
-  if (!bundle.id) {
-    throw new Error("Invalid prekey bundle payload.");
-  }
-  return bundle;
+// Alice's safety number with SysMaint, for comparing against the agent's store
+// (`mega --db <SYSMAINT_SIGNAL_DB> identity fingerprint --peer <alice id>`).
+export async function getSysmaintSafetyNumber(): Promise<SafetyNumber> {
+  await ensureAliceBootstrapped();
+  await getSignalClient().ensureSessionWith(sysmaintId);
+  return await getSafetyNumber(getSignalClient().state, sysmaintId);
 }
 
-export async function ensureAliceBootstrapped(): Promise<void> {
-  const state = getSignalState();
-  if (!state.getLocalIdentity()) {
-    await initializeIdentity(state, aliceId, 1);
+export async function setSysmaintVerified(verified: boolean): Promise<SafetyNumber> {
+  await ensureAliceBootstrapped();
+  await getSignalClient().ensureSessionWith(sysmaintId);
+  return await setIdentityVerified(getSignalClient().state, sysmaintId, verified);
+}
+
+// Connects once and decrypts every frame into the local inbox, then acks it. Frames meant
+// for another consumer (direct chats arriving while a SysMaint reply is awaited, or the
+// reverse) wait in the inbox until that consumer takes them. Frames held for an untrusted
+// identity key stay on the relay; the stream acks ones that can never open.
+export function openInboxStream(client: SignalClient): RelayStream {
+  const stream = client.listen();
+  stream.on("message", (message) => {
+    // The console has no group view; sender keys and group messages are acked and dropped.
+    if (!message.groupId) {
+      saveInboxMessage(client.state, {
+        id: message.frame.id,
+        senderId: message.senderId,
+        timestamp: message.frame.envelope.timestamp,
+        plaintext: message.plaintext,
+        envelope: message.frame.envelope
+      });
+    }
+    message.ack();
+  });
+  return stream;
+}
+
+export function takeInboxMessages<T>(state: SignalState, parse: (plaintext: string) => T | undefined): T[] {
+  const taken: T[] = [];
+  for (const message of listInboxMessages(state)) {
+    const value = parse(message.plaintext);
+    if (value === undefined) continue;
+    deleteInboxMessage(state, message.id);
+    taken.push(value);
   }
+  return taken;
+}
 
-  await generatePreKeys(state, 1);
-  await httpPostJson(`${relayUrl}/v1/register`, { id: aliceId });
+export type PromptStatus = "sent" | SysmaintChatReceipt["receipt"];
 
-  const bundle = await exportBundle(state);
-  await httpPostJson(`${relayUrl}/v1/prekeys`, { id: aliceId, bundle });
+export function getPromptStatus(requestId: string): PromptStatus | undefined {
+  if (!promptReceipts.has(requestId)) return undefined;
+  return promptReceipts.get(requestId) ?? "sent";
 }
 
-export async function ensureAliceSessionWith(peerId: string): Promise<void> {
-  const state = getSignalState();
-  const address = ProtocolAddress.new(peerId, 1);
-  const existing = await state.sessionStore.getSession(address);
-  if (existing) return;
+function recordPromptReceipt(receipt: SysmaintChatReceipt): void {
+  // Receipts for prompts that already finished are dropped; "read" is never downgraded.
+  if (!promptReceipts.has(receipt.requestId) || promptReceipts.get(receipt.requestId) === "read") return;
+  promptReceipts.set(receipt.requestId, receipt.receipt);
+}
 
-  const payload = await httpGetJson<{ id: string; bundle: Bundle }>(`${relayUrl}/v1/prekeys/${peerId}`);
-  await initSession(state, ensureBundle(payload.bundle));
+function decodeOrUndefined(plaintext: string): SysmaintMessage | undefined {
+  try {
+    return decodeSysmaintMessage(plaintext);
+  } catch {
+    return undefined;
+  }
 }
 
 async function waitForChatReply(requestId: string, timeoutMs: number): Promise<string> {
-  const state = getSignalState();
+  const state = getSignalClient().state;
   return await new Promise<string>((resolve, reject) => {
-    const ws = new WebSocket(resolveWsUrl(relayUrl, aliceId));
+    const stream = openInboxStream(getSignalClient());
     let settled = false;
 
     const done = (fn: (value: string | Error) => void, value: string | Error): void => {
       if (settled) return;
       settled = true;
       clearTimeout(timeoutHandle);
-      try {
-        ws.close(1000, "done");
-      } catch {
-        // ignore close errors
-      }
+      clearInterval(pollHandle);
+      stream.close(1000, "done");
       fn(value);
     };
 
+    const takeReply = (): void => {
+      takeInboxMessages(state, (plaintext) => {
+        const message = decodeOrUndefined(plaintext);
+        return message?.kind === "chat.receipt" ? message : undefined;
+      }).forEach(recordPromptReceipt);
+      const [reply] = takeInboxMessages(state, (plaintext) => {
+        const message = decodeOrUndefined(plaintext);
+        return message?.kind === "chat.reply" && message.requestId === requestId ? message.reply : undefined;
+      });
+      if (reply !== undefined) done((text) => resolve(String(text)), reply);
+    };
+
     const timeoutHandle = setTimeout(() => {
       done((err) => reject(err), new Error(`Timed out waiting for SysMaint reply (requestId=${requestId}).`));
     }, timeoutMs);
     timeoutHandle.unref();
 
-    ws.on("message", (raw: RawData) => {
-      void (async () => {
-        try {
-          const payload = JSON.parse(raw.toString()) as { envelope?: unknown };
-          const envelope = loadEnvelope(payload.envelope ?? payload);
-          const plaintext = await decryptMessage(state, envelope);
-          const message = decodeSysmaintMessage(plaintext);
-          if (message.kind !== "chat.reply") return;
-          if (message.requestId !== requestId) return;
-          done((text) => resolve(String(text)), message.reply);
-        } catch {
-          // Ignore invalid/unrelated frames while we wait for the matching request.
-        }
-      })().catch((err) => {
-        done((error) => reject(error), err as Error);
-      });
-    });
+    // A direct-message pull for Alice supersedes this socket; its frames land in the
+    // same inbox, so keep checking it until the timeout.
+    const pollHandle = setInterval(takeReply, 500);
+    pollHandle.unref();
+
+    // Listeners run in order, so the frame is already in the inbox here.
+    stream.on("message", takeReply);
 
-    ws.on("error", (err) => {
-      done((error) => reject(error), err as Error);
+    stream.on("error", (err) => {
+      done((error) => reject(error), err instanceof Error ? err : new Error(String(err)));
     });
 
-    ws.on("close", () => {
-      if (!settled) {
+    stream.on("close", (code) => {
+      if (!settled && code !== 4000) {
         done((error) => reject(error), new Error("WebSocket closed before reply arrived."));
       }
     });
@@ -169,13 +191,27 @@ function runChatPromptSerial<T>(task: () => Promise<T>): Promise<T> {
   return run;
 }
 
-export async function sendPromptToSysmaint(prompt: string): Promise<{ requestId: string; reply: string }> {
+// The reply is handed straight to the page, so it is acknowledged as read on arrival.
+async function sendReplyReceipt(requestId: string): Promise<void> {
+  const receipt: SysmaintChatReceipt = {
+    version: 1,
+    kind: "chat.receipt",
+    requestId,
+    receipt: "read",
+    from: aliceId,
+    createdAt: Date.now()
+  };
+  await sendToPeer(getSignalClient(), sysmaintId, encodeSysmaintMessage(receipt));
+}
+
+// `requestId` may be chosen by the caller so it can poll getPromptStatus while waiting.
+export async function sendPromptToSysmaint(
+  prompt: string,
+  requestId = createRequestId()
+): Promise<{ requestId: string; reply: string }> {
   return await runChatPromptSerial(async () => {
-    const state = getSignalState();
     await ensureAliceBootstrapped();
-    await ensureAliceSessionWith(sysmaintId);
 
-    const requestId = createRequestId();
     const message: SysmaintChatPrompt = {
       version: 1,
       kind: "chat.prompt",
@@ -185,14 +221,17 @@ export async function sendPromptToSysmaint(prompt: string): Promise<{ requestId:
       createdAt: Date.now()
     };
 
-    const envelope = await encryptMessage(state, sysmaintId, encodeSysmaintMessage(message));
-    await httpPostJson(`${relayUrl}/v1/messages`, {
-      from: aliceId,
-      to: sysmaintId,
-      envelope
-    });
+    await sendToPeer(getSignalClient(), sysmaintId, encodeSysmaintMessage(message));
+    promptReceipts.set(requestId, undefined);
 
-    const reply = await waitForChatReply(requestId, waitTimeoutMs);
-    return { requestId, reply };
+    try {
+      const reply = await waitForChatReply(requestId, waitTimeoutMs);
+      void sendReplyReceipt(requestId).catch(() => {
+        // Only SysMaint's bookkeeping misses out; the reply is already here.
+      });
+      return { requestId, reply };
+    } finally {
+      promptReceipts.delete(requestId);
+    }
   });
 }
@@ -1,6 +1,7 @@
 import Database from "better-sqlite3";
 import { mkdirSync } from "node:fs";
 import path from "node:path";
+import { migrate, type Migration } from "@mega/shared";
 import { stateDbPath } from "./config";
 
 export type StatusSnapshot = {
@@ -33,31 +34,44 @@ export type UsageTotals = {
 mkdirSync(path.dirname(stateDbPath), { recursive: true });
 const db = new Database(stateDbPath, { readonly: false });
 
-db.exec(
-  "CREATE TABLE IF NOT EXISTS snapshots (" +
-    "id INTEGER PRIMARY KEY AUTOINCREMENT," +
-    "report_id TEXT NOT NULL," +
-    "source TEXT NOT NULL," +
-    "created_at INTEGER NOT NULL," +
-    "cpu_pct REAL NOT NULL," +
-    "mem_pct REAL NOT NULL," +
-    "swap_pct REAL NOT NULL," +
-    "net_in_bytes REAL NOT NULL," +
-    "net_out_bytes REAL NOT NULL," +
-    "load1 REAL NOT NULL," +
-    "load5 REAL NOT NULL," +
-    "load15 REAL NOT NULL," +
-    "relay_uptime_sec INTEGER NOT NULL," +
-    "relay_users INTEGER NOT NULL," +
-    "relay_prekeys INTEGER NOT NULL," +
-    "relay_queued INTEGER NOT NULL," +
-    "relay_active_ws INTEGER NOT NULL" +
-    ");" +
-    "CREATE TABLE IF NOT EXISTS usage_resets (" +
-    "id INTEGER PRIMARY KEY AUTOINCREMENT," +
-    "created_at INTEGER NOT NULL" +
-    ");"
-);
+// The agent owns this file's chat and telemetry schema; the console only adds what it
+// needs to read snapshots before the agent has run, and its usage resets. New schema
+// changes are appended here.
+const WEB_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "baseline",
+    up: (db) => {
+      db.exec(
+        "CREATE TABLE IF NOT EXISTS snapshots (" +
+          "id INTEGER PRIMARY KEY AUTOINCREMENT," +
+          "report_id TEXT NOT NULL," +
+          "source TEXT NOT NULL," +
+          "created_at INTEGER NOT NULL," +
+          "cpu_pct REAL NOT NULL," +
+          "mem_pct REAL NOT NULL," +
+          "swap_pct REAL NOT NULL," +
+          "net_in_bytes REAL NOT NULL," +
+          "net_out_bytes REAL NOT NULL," +
+          "load1 REAL NOT NULL," +
+          "load5 REAL NOT NULL," +
+          "load15 REAL NOT NULL," +
+          "relay_uptime_sec INTEGER NOT NULL," +
+          "relay_users INTEGER NOT NULL," +
+          "relay_prekeys INTEGER NOT NULL," +
+          "relay_queued INTEGER NOT NULL," +
+          "relay_active_ws INTEGER NOT NULL" +
+          ");" +
+          "CREATE TABLE IF NOT EXISTS usage_resets (" +
+          "id INTEGER PRIMARY KEY AUTOINCREMENT," +
+          "created_at INTEGER NOT NULL" +
+          ");"
+      );
+    }
+  }
+];
+
+migrate(db, "sysmaint-web", WEB_MIGRATIONS);
 
 type SnapshotRow = {
   created_at: number;
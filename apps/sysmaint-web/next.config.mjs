@@ -1,6 +1,6 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
-  transpilePackages: ["@mega/sysmaint-protocol"],
+  transpilePackages: ["@mega/shared", "@mega/sysmaint-protocol"],
   experimental: {
     serverComponentsExternalPackages: ["better-sqlite3", "@signalapp/libsignal-client", "@mega/signal-core"]
   }
@@ -0,0 +1,114 @@
+// Open WebSocket connections per device, with the heartbeat that drops dead ones and the
+// send-buffer backpressure that pauses delivery to slow ones.
+
+// The parts of a ws WebSocket the registry uses.
+export type RelaySocket = {
+  readonly bufferedAmount: number;
+  ping(): void;
+  terminate(): void;
+  close(code?: number, reason?: string): void;
+};
+
+export type ConnectionOptions = {
+  // A socket that has not answered (pong or any frame) for this long is terminated.
+  heartbeatTimeoutMs: number;
+  // Delivery pauses while the socket has more than this queued for sending...
+  maxBufferedBytes: number;
+  // ...and tries again after this delay.
+  backpressureRetryMs: number;
+};
+
+export type SocketState = {
+  connectedAt: number;
+  lastSeen: number;
+  resumeTimer: NodeJS.Timeout | null;
+};
+
+export class ConnectionRegistry<S extends RelaySocket = RelaySocket> {
+  readonly stats = { terminated: 0, backpressurePauses: 0 };
+  // Keyed by device (see connectionKey in relay.ts) so every linked device keeps its own socket.
+  private readonly sockets = new Map<string, S>();
+  private readonly states = new WeakMap<S, SocketState>();
+
+  constructor(private options: ConnectionOptions) {}
+
+  get size(): number {
+    return this.sockets.size;
+  }
+
+  get(key: string): S | undefined {
+    return this.sockets.get(key);
+  }
+
+  state(ws: S): SocketState | undefined {
+    return this.states.get(ws);
+  }
+
+  // Makes `ws` the device's socket, closing the one it supersedes.
+  add(key: string, ws: S, now = Date.now()): SocketState {
+    const existing = this.sockets.get(key);
+    if (existing && existing !== ws) existing.close(4000, "superseded");
+    this.sockets.set(key, ws);
+    const state: SocketState = { connectedAt: now, lastSeen: now, resumeTimer: null };
+    this.states.set(ws, state);
+    return state;
+  }
+
+  // Forgets `ws` unless a newer socket has already taken the device's slot.
+  remove(key: string, ws: S): void {
+    const state = this.states.get(ws);
+    if (state?.resumeTimer) {
+      clearTimeout(state.resumeTimer);
+      state.resumeTimer = null;
+    }
+    if (this.sockets.get(key) === ws) this.sockets.delete(key);
+  }
+
+  // Any pong or frame from the client counts as a heartbeat.
+  seen(ws: S, now = Date.now()): void {
+    const state = this.states.get(ws);
+    if (state) state.lastSeen = now;
+  }
+
+  // True while the send buffer is over the limit or a resume is already pending, so new
+  // frames wait for it rather than overtaking queued ones.
+  isCongested(ws: S): boolean {
+    const state = this.states.get(ws);
+    return Boolean(state?.resumeTimer) || ws.bufferedAmount > this.options.maxBufferedBytes;
+  }
+
+  // Calls `resume` once the retry delay has passed, if `ws` is still the device's socket.
+  // A pause already pending absorbs further calls.
+  scheduleResume(key: string, ws: S, resume: () => void): void {
+    const state = this.states.get(ws);
+    if (!state || state.resumeTimer) return;
+    this.stats.backpressurePauses += 1;
+    state.resumeTimer = setTimeout(() => {
+      state.resumeTimer = null;
+      if (this.sockets.get(key) === ws) resume();
+    }, this.options.backpressureRetryMs);
+  }
+
+  // Pings every socket and terminates those silent for longer than the heartbeat timeout,
+  // so half-open connections stop holding a device's slot.
+  checkHeartbeats(now = Date.now()): void {
+    for (const [key, ws] of this.sockets) {
+      const state = this.states.get(ws);
+      if (!state) continue;
+      if (now - state.lastSeen > this.options.heartbeatTimeoutMs) {
+        this.stats.terminated += 1;
+        this.remove(key, ws);
+        ws.terminate();
+        continue;
+      }
+      ws.ping();
+    }
+  }
+
+  terminateAll(): void {
+    for (const [key, ws] of this.sockets) {
+      this.remove(key, ws);
+      ws.terminate();
+    }
+  }
+}
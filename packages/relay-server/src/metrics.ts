@@ -0,0 +1,110 @@
+// Minimal Prometheus text exposition (format 0.0.4) for the relay's /metrics route.
+
+export const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+export type Labels = Record<string, string>;
+
+type MetricType = "counter" | "gauge" | "histogram";
+
+export type Sample = {
+  labels?: Labels;
+  value: number;
+};
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels | undefined): string {
+  const entries = Object.entries(labels ?? {});
+  if (entries.length === 0) return "";
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabel(value)}"`).join(",")}}`;
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return "NaN";
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function header(name: string, help: string, type: MetricType): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+export function renderFamily(name: string, help: string, type: "counter" | "gauge", samples: Sample[]): string {
+  const lines = header(name, help, type);
+  for (const sample of samples) {
+    lines.push(`${name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+  }
+  return lines.join("\n");
+}
+
+export class Counter {
+  private readonly values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string
+  ) {}
+
+  inc(labels: Labels = {}, amount = 1): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) ?? { labels, value: 0 };
+    entry.value += amount;
+    this.values.set(key, entry);
+  }
+
+  render(): string {
+    return renderFamily(this.name, this.help, "counter", [...this.values.values()]);
+  }
+}
+
+type HistogramSeries = {
+  labels: Labels;
+  counts: number[];
+  sum: number;
+  count: number;
+};
+
+export class Histogram {
+  private readonly series = new Map<string, HistogramSeries>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly buckets: number[]
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, entry);
+    }
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) entry.counts[index] += 1;
+    });
+    entry.sum += value;
+    entry.count += 1;
+  }
+
+  render(): string {
+    const lines = header(this.name, this.help, "histogram");
+    for (const entry of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        const labels = formatLabels({ ...entry.labels, le: formatValue(bound) });
+        lines.push(`${this.name}_bucket${labels} ${entry.counts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...entry.labels, le: "+Inf" })} ${entry.count}`);
+      lines.push(`${this.name}_sum${formatLabels(entry.labels)} ${entry.sum}`);
+      lines.push(`${this.name}_count${formatLabels(entry.labels)} ${entry.count}`);
+    }
+    return lines.join("\n");
+  }
+}
@@ -0,0 +1,55 @@
+// Per-key token buckets for the relay's sender, source-address and prekey-fetch limits.
+
+export type RateLimit = {
+  perMinute: number;
+  burst: number;
+};
+
+type Bucket = {
+  tokens: number;
+  updatedAt: number;
+};
+
+// Token bucket per key: up to `burst` requests at once, refilled at `perMinute`.
+// A non-positive rate disables the limiter.
+export class RateLimiter {
+  private readonly buckets = new Map<string, Bucket>();
+  throttled = 0;
+
+  constructor(
+    readonly perMinute: number,
+    readonly burst: number
+  ) {}
+
+  get tracked(): number {
+    return this.buckets.size;
+  }
+
+  // Returns 0 when the request may proceed, otherwise the seconds until a token frees up.
+  take(key: string, now = Date.now()): number {
+    if (this.perMinute <= 0) return 0;
+    const bucket = this.refill(key, now);
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return 0;
+    }
+    this.throttled += 1;
+    return Math.ceil(((1 - bucket.tokens) * 60) / this.perMinute);
+  }
+
+  // Full buckets carry no state worth keeping.
+  prune(now = Date.now()): void {
+    for (const key of this.buckets.keys()) {
+      if (this.refill(key, now).tokens >= this.burst) this.buckets.delete(key);
+    }
+  }
+
+  private refill(key: string, now: number): Bucket {
+    const bucket = this.buckets.get(key) ?? { tokens: this.burst, updatedAt: now };
+    const refilled = ((now - bucket.updatedAt) / 60_000) * this.perMinute;
+    bucket.tokens = Math.min(this.burst, bucket.tokens + refilled);
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+    return bucket;
+  }
+}
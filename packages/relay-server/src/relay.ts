@@ -0,0 +1,1497 @@
+import http from "node:http";
+import { mkdirSync, rmSync } from "node:fs";
+import { readFile, writeFile } from "node:fs/promises";
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import path from "node:path";
+import Database from "better-sqlite3";
+import { PrivateKey, PublicKey, SenderCertificate, ServerCertificate } from "@signalapp/libsignal-client";
+import { WebSocketServer, type RawData, type WebSocket } from "ws";
+import { z } from "zod";
+import {
+  BundleSchema,
+  EnvelopeSchema,
+  OneTimePreKeySchema,
+  RelayAckFrameSchema,
+  RelayMetricsSchema,
+  SealedEnvelopeSchema,
+  RelayAuthHeaders,
+  buildDeviceLinkMessage,
+  buildRelayAuthMessage,
+  ensureColumn,
+  migrate,
+  type Migration,
+  type MigrationDatabase,
+  type Bundle,
+  type OneTimePreKey,
+  type RelayEnvelope,
+  type RelayMessageFrame,
+  type RelayMetrics
+} from "@mega/shared";
+import { ConnectionRegistry } from "./connections.js";
+import { Counter, Histogram, PROMETHEUS_CONTENT_TYPE, renderFamily, type Sample } from "./metrics.js";
+import { RateLimiter, type RateLimit } from "./rate-limiter.js";
+
+const MAX_PREKEY_BATCH = 500;
+const MAX_GROUP_MEMBERS = 100;
+
+const RegisterSchema = z.object({
+  id: z.string().min(1),
+  deviceId: z.number().int().positive().default(1),
+  identityKey: z.string().min(1),
+  deliveryToken: z.string().min(16).max(128).optional()
+});
+
+const DeviceLinkSchema = z.object({
+  id: z.string().min(1),
+  deviceId: z.number().int().positive(),
+  identityKey: z.string().min(1),
+  // The linking device's signature over buildDeviceLinkMessage.
+  signature: z.string().min(1)
+});
+
+const PreKeyUploadSchema = z.object({
+  id: z.string().min(1),
+  bundle: BundleSchema
+});
+
+const PreKeyBatchUploadSchema = z.object({
+  id: z.string().min(1),
+  bundle: BundleSchema.omit({ preKey: true }),
+  preKeys: z.array(OneTimePreKeySchema).max(MAX_PREKEY_BATCH)
+});
+
+const MessageSchema = z.object({
+  from: z.string().min(1),
+  to: z.string().min(1),
+  envelope: EnvelopeSchema
+});
+
+// Unauthenticated: the delivery token stands in for the sender's signature.
+const SealedMessageSchema = z.object({
+  to: z.string().min(1),
+  deliveryToken: z.string().min(1),
+  envelope: SealedEnvelopeSchema
+});
+
+const GroupCreateSchema = z.object({
+  name: z.string().min(1).max(64),
+  members: z.array(z.string().min(1)).max(MAX_GROUP_MEMBERS)
+});
+
+const GroupMembersSchema = z.object({
+  members: z.array(z.string().min(1)).min(1).max(MAX_GROUP_MEMBERS)
+});
+
+// The envelope is copied to every member device; only the recipient fields change.
+const GroupMessageSchema = z.object({
+  envelope: EnvelopeSchema
+});
+
+// Sealed rows carry this in messages.from_id, which predates sealed sender and is NOT NULL.
+const SEALED_SENDER = "";
+
+type MessageRow = {
+  id: string;
+  to_id: string;
+  to_device_id: number;
+  from_id: string;
+  envelope_json: string;
+  created_at: number;
+  sent_at?: number | null;
+};
+
+type AttachmentRow = {
+  id: string;
+  size: number;
+};
+
+type GroupRow = {
+  id: string;
+  name: string;
+  owner_id: string;
+  created_at: number;
+};
+
+type PrekeyRow = {
+  bundle_json: string;
+  updated_at: number;
+  signed_prekey_at: number | null;
+};
+
+type DeviceRow = {
+  device_id: number;
+  identity_key: string;
+  linked_by: number | null;
+  link_signature: string | null;
+};
+
+type AuthContext = {
+  id: string;
+  deviceId: number;
+};
+
+type TableInfoRow = {
+  name: string;
+};
+
+type CertificateIssuer = {
+  trustRoot: PrivateKey;
+  serverKey: PrivateKey;
+  serverCertificate: ServerCertificate;
+};
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly retryAfterSec?: number
+  ) {
+    super(message);
+  }
+}
+
+const PREKEYS_COLUMNS =
+  "id TEXT NOT NULL, device_id INTEGER NOT NULL DEFAULT 1, bundle_json TEXT NOT NULL, updated_at INTEGER NOT NULL, " +
+  "signed_prekey_at INTEGER, PRIMARY KEY (id, device_id)";
+const ONE_TIME_PREKEYS_COLUMNS =
+  "user_id TEXT NOT NULL, device_id INTEGER NOT NULL DEFAULT 1, key_id INTEGER NOT NULL, public_key TEXT NOT NULL, " +
+  "created_at INTEGER NOT NULL, PRIMARY KEY (user_id, device_id, key_id)";
+
+function ensureDbDir(dbPath: string): void {
+  const dir = path.dirname(dbPath);
+  mkdirSync(dir, { recursive: true });
+}
+
+// New schema changes are appended here. Migration 1 is the schema as it stood before
+// versioning and also upgrades databases created by earlier builds, so every step in it
+// only adds what is missing.
+const RELAY_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "baseline",
+    up: (db) => {
+      db.exec(
+        "CREATE TABLE IF NOT EXISTS users (id TEXT PRIMARY KEY, created_at INTEGER NOT NULL);" +
+          "CREATE TABLE IF NOT EXISTS devices (user_id TEXT NOT NULL, device_id INTEGER NOT NULL, identity_key TEXT NOT NULL, created_at INTEGER NOT NULL, PRIMARY KEY (user_id, device_id));" +
+          `CREATE TABLE IF NOT EXISTS prekeys (${PREKEYS_COLUMNS});` +
+          `CREATE TABLE IF NOT EXISTS one_time_prekeys (${ONE_TIME_PREKEYS_COLUMNS});` +
+          "CREATE TABLE IF NOT EXISTS messages (id TEXT PRIMARY KEY, to_id TEXT NOT NULL, from_id TEXT NOT NULL, envelope_json TEXT NOT NULL, created_at INTEGER NOT NULL, delivered INTEGER NOT NULL DEFAULT 0);" +
+          "CREATE TABLE IF NOT EXISTS server_keys (name TEXT PRIMARY KEY, value TEXT NOT NULL);" +
+          "CREATE TABLE IF NOT EXISTS chat_groups (id TEXT PRIMARY KEY, name TEXT NOT NULL, owner_id TEXT NOT NULL, created_at INTEGER NOT NULL);" +
+          "CREATE TABLE IF NOT EXISTS group_members (group_id TEXT NOT NULL, member_id TEXT NOT NULL, added_at INTEGER NOT NULL, PRIMARY KEY (group_id, member_id));" +
+          "CREATE TABLE IF NOT EXISTS attachments (id TEXT PRIMARY KEY, owner_id TEXT NOT NULL, size INTEGER NOT NULL, created_at INTEGER NOT NULL, expires_at INTEGER NOT NULL);"
+      );
+      ensureColumn(db, "users", "identity_key", "TEXT");
+      ensureColumn(db, "users", "delivery_token", "TEXT");
+      ensureColumn(db, "prekeys", "signed_prekey_at", "INTEGER");
+      ensureColumn(db, "messages", "to_device_id", "INTEGER NOT NULL DEFAULT 1");
+      ensureColumn(db, "messages", "sent_at", "INTEGER");
+      ensureColumn(db, "messages", "acked_at", "INTEGER");
+      ensureColumn(db, "messages", "expires_at", "INTEGER");
+      ensureDeviceKey(db, "prekeys", PREKEYS_COLUMNS);
+      ensureDeviceKey(db, "one_time_prekeys", ONE_TIME_PREKEYS_COLUMNS);
+      // Identity keys bound before devices existed become device 1 of their user.
+      db.exec(
+        "INSERT OR IGNORE INTO devices (user_id, device_id, identity_key, created_at) " +
+          "SELECT id, 1, identity_key, created_at FROM users WHERE identity_key IS NOT NULL"
+      );
+    }
+  },
+  {
+    version: 2,
+    name: "signed device links",
+    up: (db) => {
+      ensureColumn(db, "devices", "linked_by", "INTEGER");
+      ensureColumn(db, "devices", "link_signature", "TEXT");
+    }
+  }
+];
+
+function openDb(dbPath: string): InstanceType<typeof Database> {
+  ensureDbDir(dbPath);
+  const db = new Database(dbPath);
+  db.pragma("journal_mode = WAL");
+  const { from, to } = migrate(db, "relay", RELAY_MIGRATIONS);
+  if (from !== to) console.log(`Relay DB schema migrated from version ${from} to ${to}`);
+  return db;
+}
+
+// Rebuilds a table created before bundles were stored per device, keeping its rows as device 1.
+function ensureDeviceKey(db: MigrationDatabase, table: string, columns: string): void {
+  const rows = db.prepare(`PRAGMA table_info(${table})`).all() as TableInfoRow[];
+  if (rows.some((row) => row.name === "device_id")) return;
+  const copied = rows.map((row) => row.name).join(", ");
+  db.exec(`ALTER TABLE ${table} RENAME TO ${table}_legacy`);
+  db.exec(`CREATE TABLE ${table} (${columns})`);
+  db.exec(`INSERT INTO ${table} (${copied}, device_id) SELECT ${copied}, 1 FROM ${table}_legacy`);
+  db.exec(`DROP TABLE ${table}_legacy`);
+}
+
+// The relay is the trust root for sealed sender: it signs a server certificate once and
+// uses the server key to issue short-lived sender certificates to authenticated devices.
+// Keys persist in the DB so certificates (and the root clients pinned) survive restarts.
+function loadCertificateIssuer(db: InstanceType<typeof Database>): CertificateIssuer {
+  const select = db.prepare("SELECT value FROM server_keys WHERE name = ?");
+  const read = (name: string) => (select.get(name) as { value: string } | undefined)?.value;
+  const stored = {
+    trustRoot: read("trust_root"),
+    serverKey: read("server_key"),
+    certificate: read("server_certificate")
+  };
+
+  if (stored.trustRoot && stored.serverKey && stored.certificate) {
+    return {
+      trustRoot: PrivateKey.deserialize(Buffer.from(stored.trustRoot, "base64")),
+      serverKey: PrivateKey.deserialize(Buffer.from(stored.serverKey, "base64")),
+      serverCertificate: ServerCertificate.deserialize(Buffer.from(stored.certificate, "base64"))
+    };
+  }
+
+  const trustRoot = PrivateKey.generate();
+  const serverKey = PrivateKey.generate();
+  const serverCertificate = ServerCertificate.new(1, serverKey.getPublicKey(), trustRoot);
+  const insert = db.prepare("INSERT OR REPLACE INTO server_keys (name, value) VALUES (?, ?)");
+  db.transaction(() => {
+    insert.run("trust_root", Buffer.from(trustRoot.serialize()).toString("base64"));
+    insert.run("server_key", Buffer.from(serverKey.serialize()).toString("base64"));
+    insert.run("server_certificate", Buffer.from(serverCertificate.serialize()).toString("base64"));
+  })();
+  return { trustRoot, serverKey, serverCertificate };
+}
+
+function json<T>(res: http.ServerResponse, status: number, payload: T): void {
+  const body = JSON.stringify(payload);
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Content-Length": Buffer.byteLength(body)
+  });
+  res.end(body);
+}
+
+function metricsText(res: http.ServerResponse, payload: string): void {
+  res.writeHead(200, {
+    "Content-Type": PROMETHEUS_CONTENT_TYPE,
+    "Content-Length": Buffer.byteLength(payload)
+  });
+  res.end(payload);
+}
+
+function binary(res: http.ServerResponse, status: number, payload: Buffer): void {
+  res.writeHead(status, {
+    "Content-Type": "application/octet-stream",
+    "Content-Length": payload.length
+  });
+  res.end(payload);
+}
+
+function text(res: http.ServerResponse, status: number, payload: string): void {
+  res.writeHead(status, {
+    "Content-Type": "text/plain; charset=utf-8",
+    "Content-Length": Buffer.byteLength(payload)
+  });
+  res.end(payload);
+}
+
+// Rejects on the declared Content-Length when present, otherwise as soon as the
+// streamed total crosses the limit, so oversized bodies are never buffered whole.
+async function readBodyBytes(req: http.IncomingMessage, maxBytes: number): Promise<Buffer> {
+  const declared = Number(headerValue(req.headers, "content-length") ?? "0");
+  if (declared > maxBytes) throw new HttpError(413, `Request body exceeds ${maxBytes} bytes.`);
+  const chunks: Buffer[] = [];
+  let total = 0;
+  for await (const chunk of req) {
+    const buf = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    total += buf.length;
+    if (total > maxBytes) throw new HttpError(413, `Request body exceeds ${maxBytes} bytes.`);
+    chunks.push(buf);
+  }
+  return Buffer.concat(chunks);
+}
+
+async function readBody(req: http.IncomingMessage, maxBytes: number): Promise<string> {
+  return (await readBodyBytes(req, maxBytes)).toString("utf8");
+}
+
+function parseJson(raw: string): unknown {
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new Error("Invalid JSON body.");
+  }
+}
+
+async function readJson(req: http.IncomingMessage, maxBytes: number): Promise<unknown> {
+  return parseJson(await readBody(req, maxBytes));
+}
+
+function headerValue(headers: http.IncomingHttpHeaders, name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function verifySignature(identityKey: string, message: Uint8Array, signature: string): boolean {
+  try {
+    const key = PublicKey.deserialize(Buffer.from(identityKey, "base64"));
+    return key.verify(message, Buffer.from(signature, "base64"));
+  } catch {
+    return false;
+  }
+}
+
+// Collapses ids out of paths so per-route series stay bounded.
+function routeLabel(pathname: string): string {
+  if (pathname.startsWith("/v1/prekeys/")) {
+    return pathname.endsWith("/status") ? "/v1/prekeys/:id/status" : "/v1/prekeys/:id";
+  }
+  if (pathname.startsWith("/v1/devices/")) return "/v1/devices/:id";
+  if (pathname.startsWith("/v1/attachments/")) return "/v1/attachments/:id";
+  if (pathname.startsWith("/v1/groups/")) {
+    if (pathname.endsWith("/messages")) return "/v1/groups/:id/messages";
+    if (pathname.endsWith("/members")) return "/v1/groups/:id/members";
+    return pathname.includes("/members/") ? "/v1/groups/:id/members/:member" : "/v1/groups/:id";
+  }
+  const known = [
+    "/health",
+    "/metrics",
+    "/diagnostics",
+    "/diagnostics/metrics",
+    "/v1/register",
+    "/v1/devices",
+    "/v1/prekeys",
+    "/v1/messages",
+    "/v1/messages/sealed",
+    "/v1/certificate",
+    "/v1/certificate/trust-root",
+    "/v1/groups",
+    "/v1/attachments"
+  ];
+  return known.includes(pathname) ? pathname : "other";
+}
+
+function clientAddress(req: http.IncomingMessage): string {
+  return req.socket.remoteAddress ?? "unknown";
+}
+
+function normalizeServerUrl(reqUrl: string | undefined): URL {
+  return new URL(reqUrl ?? "/", "http://localhost");
+}
+
+async function sendWsMessage(ws: WebSocket, payload: unknown): Promise<void> {
+  return await new Promise((resolve, reject) => {
+    ws.send(JSON.stringify(payload), (err?: Error | null) => {
+      if (err) reject(err);
+      else resolve();
+    });
+  });
+}
+
+function connectionKey(id: string, deviceId: number): string {
+  return `${id}:${deviceId}`;
+}
+
+function buildMessagePayload(row: MessageRow): RelayMessageFrame {
+  return {
+    id: row.id,
+    ...(row.from_id === SEALED_SENDER ? {} : { from: row.from_id }),
+    to: row.to_id,
+    envelope: JSON.parse(row.envelope_json) as RelayEnvelope
+  };
+}
+
+export type RelayOptions = {
+  dbPath: string;
+  authMaxSkewMs: number;
+  ackTimeoutMs: number;
+  messageTtlMs: number;
+  ackedRetentionMs: number;
+  bodyLimits: { default: number; prekeys: number; messages: number };
+  wsMaxPayloadBytes: number;
+  wsPingIntervalMs: number;
+  wsHeartbeatTimeoutMs: number;
+  wsMaxBufferedBytes: number;
+  wsBackpressureRetryMs: number;
+  maxQueuedPerRecipient: number;
+  senderCertTtlMs: number;
+  attachmentsDir: string;
+  attachmentLimits: { maxBytes: number; ttlMs: number; quotaBytesPerUser: number };
+  senderRate: RateLimit;
+  sourceAddressRate: RateLimit;
+  // Bundle fetches per requester; each one uses up one-time prekeys of the peer.
+  prekeyFetchRate: RateLimit;
+};
+
+// The relay's settings from RELAY_* variables, with the defaults documented in the README.
+export function relayOptionsFromEnv(env: NodeJS.ProcessEnv): RelayOptions {
+  const dbPath = env.RELAY_DB || path.join(process.cwd(), "data", "relay.db");
+  return {
+    dbPath,
+    authMaxSkewMs: Number(env.RELAY_AUTH_MAX_SKEW_MS ?? "300000"),
+    ackTimeoutMs: Number(env.RELAY_ACK_TIMEOUT_MS ?? "30000"),
+    messageTtlMs: Number(env.RELAY_MESSAGE_TTL_MS ?? "604800000"),
+    ackedRetentionMs: Number(env.RELAY_ACKED_RETENTION_MS ?? "0"),
+    bodyLimits: {
+      default: Number(env.RELAY_MAX_BODY_BYTES ?? "16384"),
+      prekeys: Number(env.RELAY_MAX_PREKEYS_BODY_BYTES ?? "131072"),
+      messages: Number(env.RELAY_MAX_MESSAGE_BODY_BYTES ?? "131072")
+    },
+    wsMaxPayloadBytes: Number(env.RELAY_WS_MAX_PAYLOAD_BYTES ?? "16384"),
+    wsPingIntervalMs: Number(env.RELAY_WS_PING_INTERVAL_MS ?? "15000"),
+    wsHeartbeatTimeoutMs: Number(env.RELAY_WS_HEARTBEAT_TIMEOUT_MS ?? "45000"),
+    wsMaxBufferedBytes: Number(env.RELAY_WS_MAX_BUFFERED_BYTES ?? "1048576"),
+    wsBackpressureRetryMs: Number(env.RELAY_WS_BACKPRESSURE_RETRY_MS ?? "250"),
+    maxQueuedPerRecipient: Number(env.RELAY_MAX_QUEUED_PER_RECIPIENT ?? "1000"),
+    senderCertTtlMs: Number(env.RELAY_SENDER_CERT_TTL_MS ?? "86400000"),
+    attachmentsDir: env.RELAY_ATTACHMENTS_DIR ?? path.join(path.dirname(dbPath), "attachments"),
+    attachmentLimits: {
+      maxBytes: Number(env.RELAY_MAX_ATTACHMENT_BYTES ?? "10485760"),
+      ttlMs: Number(env.RELAY_ATTACHMENT_TTL_MS ?? "604800000"),
+      quotaBytesPerUser: Number(env.RELAY_ATTACHMENT_QUOTA_BYTES ?? "104857600")
+    },
+    senderRate: {
+      perMinute: Number(env.RELAY_SENDER_RATE_PER_MIN ?? "120"),
+      burst: Number(env.RELAY_SENDER_BURST ?? "30")
+    },
+    sourceAddressRate: {
+      perMinute: Number(env.RELAY_IP_RATE_PER_MIN ?? "600"),
+      burst: Number(env.RELAY_IP_BURST ?? "100")
+    },
+    prekeyFetchRate: {
+      perMinute: Number(env.RELAY_PREKEY_FETCH_RATE_PER_MIN ?? "30"),
+      burst: Number(env.RELAY_PREKEY_FETCH_BURST ?? "10")
+    }
+  };
+}
+
+export type Relay = {
+  server: http.Server;
+  // Redelivers frames whose ack is overdue at `now`.
+  redeliverUnacked: (now?: number) => Promise<void>;
+  checkHeartbeats: (now?: number) => void;
+  // Retention sweep: acked and expired messages, expired attachments, idle rate-limit buckets.
+  sweep: (now?: number) => void;
+  close: () => void;
+};
+
+// Everything but the listening socket and the timers, which index.ts owns.
+export function createRelay(options: RelayOptions): Relay {
+  const {
+    dbPath,
+    authMaxSkewMs,
+    ackTimeoutMs,
+    messageTtlMs,
+    ackedRetentionMs,
+    bodyLimits,
+    wsMaxPayloadBytes,
+    wsPingIntervalMs,
+    wsHeartbeatTimeoutMs,
+    wsMaxBufferedBytes,
+    wsBackpressureRetryMs,
+    maxQueuedPerRecipient,
+    senderCertTtlMs,
+    attachmentsDir,
+    attachmentLimits
+  } = options;
+  const senderLimiter = new RateLimiter(options.senderRate.perMinute, options.senderRate.burst);
+  const ipLimiter = new RateLimiter(options.sourceAddressRate.perMinute, options.sourceAddressRate.burst);
+  const prekeyFetchLimiter = new RateLimiter(options.prekeyFetchRate.perMinute, options.prekeyFetchRate.burst);
+  let quotaRejections = 0;
+
+  const db = openDb(dbPath);
+  const issuer = loadCertificateIssuer(db);
+  mkdirSync(attachmentsDir, { recursive: true });
+
+  const stmtUserInsert = db.prepare("INSERT OR IGNORE INTO users (id, created_at) VALUES (?, ?)");
+  const stmtDeviceInsert = db.prepare(
+    "INSERT INTO devices (user_id, device_id, identity_key, created_at) VALUES (?, ?, ?, ?)"
+  );
+  const stmtDeviceGet = db.prepare(
+    "SELECT device_id, identity_key, linked_by, link_signature FROM devices WHERE user_id = ? AND device_id = ?"
+  );
+  const stmtDeviceList = db.prepare("SELECT device_id FROM devices WHERE user_id = ? ORDER BY device_id ASC");
+  const stmtDeviceLinks = db.prepare(
+    "SELECT device_id, identity_key, linked_by, link_signature FROM devices WHERE user_id = ? ORDER BY device_id ASC"
+  );
+  const stmtDeviceLinkInsert = db.prepare(
+    "INSERT INTO devices (user_id, device_id, identity_key, created_at, linked_by, link_signature) VALUES (?, ?, ?, ?, ?, ?)"
+  );
+  const stmtDeviceLinkSet = db.prepare(
+    "UPDATE devices SET linked_by = ?, link_signature = ? WHERE user_id = ? AND device_id = ?"
+  );
+  // The device that registered the id; the only one without a link.
+  const stmtDeviceRoot = db.prepare(
+    "SELECT device_id FROM devices WHERE user_id = ? AND linked_by IS NULL ORDER BY created_at ASC, device_id ASC LIMIT 1"
+  );
+  const stmtDeliveryTokenGet = db.prepare("SELECT delivery_token FROM users WHERE id = ?");
+  const stmtDeliveryTokenSet = db.prepare("UPDATE users SET delivery_token = ? WHERE id = ?");
+  const stmtPrekeyUpsert = db.prepare(
+    "INSERT OR REPLACE INTO prekeys (id, device_id, bundle_json, updated_at, signed_prekey_at) VALUES (?, ?, ?, ?, ?)"
+  );
+  const stmtPrekeyGet = db.prepare(
+    "SELECT bundle_json, updated_at, signed_prekey_at FROM prekeys WHERE id = ? AND device_id = ?"
+  );
+  const stmtPrekeyDevices = db.prepare("SELECT device_id FROM prekeys WHERE id = ? ORDER BY device_id ASC");
+  const stmtOneTimeInsert = db.prepare(
+    "INSERT OR IGNORE INTO one_time_prekeys (user_id, device_id, key_id, public_key, created_at) VALUES (?, ?, ?, ?, ?)"
+  );
+  const stmtOneTimeNext = db.prepare(
+    "SELECT key_id, public_key FROM one_time_prekeys WHERE user_id = ? AND device_id = ? ORDER BY key_id ASC LIMIT 1"
+  );
+  const stmtOneTimeDelete = db.prepare(
+    "DELETE FROM one_time_prekeys WHERE user_id = ? AND device_id = ? AND key_id = ?"
+  );
+  const stmtOneTimeCount = db.prepare("SELECT COUNT(1) as count FROM one_time_prekeys");
+  const stmtOneTimeCountByDevice = db.prepare(
+    "SELECT COUNT(1) as count FROM one_time_prekeys WHERE user_id = ? AND device_id = ?"
+  );
+  const stmtMsgInsert = db.prepare(
+    "INSERT INTO messages (id, to_id, to_device_id, from_id, envelope_json, created_at, expires_at, delivered) " +
+      "VALUES (?, ?, ?, ?, ?, ?, ?, 0)"
+  );
+  const stmtMsgPending = db.prepare(
+    "SELECT id, to_id, to_device_id, from_id, envelope_json, created_at, sent_at FROM messages " +
+      "WHERE to_id = ? AND to_device_id = ? AND delivered = 0 AND (expires_at IS NULL OR expires_at > ?) " +
+      "ORDER BY created_at ASC"
+  );
+  const stmtMsgUnacked = db.prepare(
+    "SELECT id, to_id, to_device_id, from_id, envelope_json, created_at FROM messages " +
+      "WHERE delivered = 0 AND sent_at IS NOT NULL AND sent_at <= ? AND (expires_at IS NULL OR expires_at > ?) " +
+      "ORDER BY created_at ASC"
+  );
+  const stmtMsgMarkSent = db.prepare("UPDATE messages SET sent_at = ? WHERE id = ?");
+  const stmtMsgAck = db.prepare(
+    "UPDATE messages SET delivered = 1, acked_at = ? WHERE id = ? AND to_id = ? AND to_device_id = ? AND delivered = 0"
+  );
+  const stmtMsgDeleteOnAck = db.prepare("DELETE FROM messages WHERE id = ? AND to_id = ? AND to_device_id = ?");
+  // Rows delivered before acks existed have no acked_at and go on the first sweep.
+  const stmtMsgPurgeAcked = db.prepare(
+    "DELETE FROM messages WHERE delivered = 1 AND (acked_at IS NULL OR acked_at <= ?)"
+  );
+  const stmtMsgPurgeExpired = db.prepare(
+    "DELETE FROM messages WHERE delivered = 0 AND (created_at <= ? OR (expires_at IS NOT NULL AND expires_at <= ?))"
+  );
+  const stmtUserCount = db.prepare("SELECT COUNT(1) as count FROM users");
+  const stmtDeviceCount = db.prepare("SELECT COUNT(1) as count FROM devices");
+  const stmtPrekeyCount = db.prepare("SELECT COUNT(1) as count FROM prekeys");
+  const stmtQueuedCount = db.prepare("SELECT COUNT(1) as count FROM messages WHERE delivered = 0");
+  const stmtSealedQueuedCount = db.prepare(
+    "SELECT COUNT(1) as count FROM messages WHERE delivered = 0 AND from_id = ?"
+  );
+  const stmtQueueDepth = db.prepare(
+    "SELECT COUNT(1) as count FROM messages WHERE to_id = ? AND to_device_id = ? AND delivered = 0"
+  );
+  const stmtAwaitingAckCount = db.prepare(
+    "SELECT COUNT(1) as count FROM messages WHERE delivered = 0 AND sent_at IS NOT NULL"
+  );
+  const stmtQueueByRecipient = db.prepare(
+    "SELECT to_id, to_device_id, COUNT(1) as count FROM messages WHERE delivered = 0 GROUP BY to_id, to_device_id"
+  );
+  const stmtAttachmentInsert = db.prepare(
+    "INSERT INTO attachments (id, owner_id, size, created_at, expires_at) VALUES (?, ?, ?, ?, ?)"
+  );
+  const stmtAttachmentGet = db.prepare("SELECT id, size FROM attachments WHERE id = ? AND expires_at > ?");
+  const stmtAttachmentBytesByOwner = db.prepare(
+    "SELECT COALESCE(SUM(size), 0) as total FROM attachments WHERE owner_id = ? AND expires_at > ?"
+  );
+  const stmtAttachmentExpired = db.prepare("SELECT id, size FROM attachments WHERE expires_at <= ?");
+  const stmtAttachmentDelete = db.prepare("DELETE FROM attachments WHERE id = ?");
+  const stmtAttachmentTotals = db.prepare(
+    "SELECT COUNT(1) as count, COALESCE(SUM(size), 0) as total FROM attachments"
+  );
+  const stmtGroupInsert = db.prepare("INSERT INTO chat_groups (id, name, owner_id, created_at) VALUES (?, ?, ?, ?)");
+  const stmtGroupGet = db.prepare("SELECT id, name, owner_id, created_at FROM chat_groups WHERE id = ?");
+  const stmtGroupsForMember = db.prepare(
+    "SELECT g.id, g.name, g.owner_id, g.created_at FROM chat_groups g JOIN group_members m ON m.group_id = g.id " +
+      "WHERE m.member_id = ? ORDER BY g.created_at ASC"
+  );
+  const stmtGroupCount = db.prepare("SELECT COUNT(1) as count FROM chat_groups");
+  const stmtGroupMemberInsert = db.prepare(
+    "INSERT OR IGNORE INTO group_members (group_id, member_id, added_at) VALUES (?, ?, ?)"
+  );
+  const stmtGroupMemberDelete = db.prepare("DELETE FROM group_members WHERE group_id = ? AND member_id = ?");
+  const stmtGroupMembers = db.prepare(
+    "SELECT member_id FROM group_members WHERE group_id = ? ORDER BY added_at ASC, member_id ASC"
+  );
+
+  const storePreKeys = db.transaction(
+    (id: string, deviceId: number, bundle: Omit<Bundle, "preKey">, preKeys: OneTimePreKey[]) => {
+      const now = Date.now();
+      const existing = stmtPrekeyGet.get(id, deviceId) as PrekeyRow | undefined;
+      const previous = existing ? (JSON.parse(existing.bundle_json) as Bundle) : undefined;
+      // Only a new signed prekey id resets the age reported by the status route.
+      const signedPreKeyAt =
+        previous && previous.signedPreKey.keyId === bundle.signedPreKey.keyId
+          ? (existing?.signed_prekey_at ?? existing?.updated_at ?? now)
+          : now;
+      stmtPrekeyUpsert.run(id, deviceId, JSON.stringify(bundle), now, signedPreKeyAt);
+      for (const preKey of preKeys) {
+        stmtOneTimeInsert.run(id, deviceId, preKey.keyId, preKey.publicKey, now);
+      }
+    }
+  );
+
+  // Hands out the signed bundle plus at most one pooled one-time prekey, deleting it
+  // in the same transaction so concurrent fetchers never receive the same key.
+  const takeBundle = db.transaction((id: string, deviceId: number): Bundle | undefined => {
+    const row = stmtPrekeyGet.get(id, deviceId) as PrekeyRow | undefined;
+    if (!row) return undefined;
+    const { preKey: _stale, ...bundle } = JSON.parse(row.bundle_json) as Bundle;
+    const next = stmtOneTimeNext.get(id, deviceId) as { key_id: number; public_key: string } | undefined;
+    if (!next) return bundle;
+    stmtOneTimeDelete.run(id, deviceId, next.key_id);
+    return { ...bundle, preKey: { keyId: next.key_id, publicKey: next.public_key } };
+  });
+
+  const registerDevice = db.transaction((id: string, deviceId: number, identityKey: string) => {
+    const now = Date.now();
+    stmtUserInsert.run(id, now);
+    stmtDeviceInsert.run(id, deviceId, identityKey, now);
+  });
+
+  function listDeviceIds(id: string): number[] {
+    return (stmtDeviceList.all(id) as { device_id: number }[]).map((row) => row.device_id);
+  }
+
+  const addGroupMembers = db.transaction((groupId: string, members: string[]) => {
+    const now = Date.now();
+    for (const member of members) stmtGroupMemberInsert.run(groupId, member, now);
+  });
+
+  const createGroup = db.transaction((id: string, name: string, ownerId: string, members: string[]) => {
+    stmtGroupInsert.run(id, name, ownerId, Date.now());
+    addGroupMembers(id, members);
+  });
+
+  function listGroupMembers(groupId: string): string[] {
+    return (stmtGroupMembers.all(groupId) as { member_id: string }[]).map((row) => row.member_id);
+  }
+
+  // Non-members get the same 404 as a missing group, so group ids cannot be probed.
+  function requireGroupMember(groupId: string, memberId: string): { group: GroupRow; members: string[] } {
+    const group = stmtGroupGet.get(groupId) as GroupRow | undefined;
+    const members = group ? listGroupMembers(groupId) : [];
+    if (!group || !members.includes(memberId)) throw new HttpError(404, "Group not found.");
+    return { group, members };
+  }
+
+  function requireRegistered(ids: string[]): void {
+    const missing = ids.filter((id) => listDeviceIds(id).length === 0);
+    if (missing.length > 0) throw new HttpError(404, `Not registered: ${missing.join(", ")}.`);
+  }
+
+  function describeGroup(group: GroupRow, members: string[]) {
+    return { id: group.id, name: group.name, owner: group.owner_id, members, createdAt: group.created_at };
+  }
+
+  const connections = new ConnectionRegistry<WebSocket>({
+    heartbeatTimeoutMs: wsHeartbeatTimeoutMs,
+    maxBufferedBytes: wsMaxBufferedBytes,
+    backpressureRetryMs: wsBackpressureRetryMs
+  });
+  const startedAt = Date.now();
+  let latestMetrics: RelayMetrics | null = null;
+  const seenSignatures = new Map<string, number>();
+  const messagesAccepted = new Counter("mega_relay_messages_accepted_total", "Envelopes accepted and queued.");
+  const messagesDelivered = new Counter(
+    "mega_relay_messages_delivered_total",
+    "Queued messages acknowledged by the recipient device."
+  );
+  const messagesFailed = new Counter(
+    "mega_relay_messages_failed_total",
+    "Messages rejected at submission or dropped before delivery, by reason."
+  );
+  const requestDuration = new Histogram(
+    "mega_relay_http_request_duration_seconds",
+    "HTTP request latency by route.",
+    [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5]
+  );
+  const purgeStats: { acked: number; expired: number; attachments: number; lastSweepAt: number | null } = {
+    acked: 0,
+    expired: 0,
+    attachments: 0,
+    lastSweepAt: null
+  };
+
+  // Verifies the signed auth headers and returns the authenticated client and device.
+  // `identityKey` overrides the registered key (used by /v1/register to prove possession).
+  function authenticate(
+    headers: http.IncomingHttpHeaders,
+    method: string,
+    pathname: string,
+    body: string | Uint8Array,
+    identityKey?: string
+  ): AuthContext {
+    const id = headerValue(headers, RelayAuthHeaders.id);
+    const deviceRaw = headerValue(headers, RelayAuthHeaders.device) ?? "1";
+    const timestampRaw = headerValue(headers, RelayAuthHeaders.timestamp);
+    const signature = headerValue(headers, RelayAuthHeaders.signature);
+    if (!id || !timestampRaw || !signature) throw new HttpError(401, "Missing auth headers.");
+
+    const deviceId = Number(deviceRaw);
+    if (!Number.isInteger(deviceId) || deviceId < 1) throw new HttpError(401, "Invalid auth device id.");
+
+    const timestamp = Number(timestampRaw);
+    const now = Date.now();
+    if (!Number.isFinite(timestamp) || Math.abs(now - timestamp) > authMaxSkewMs) {
+      throw new HttpError(401, "Auth timestamp outside allowed window.");
+    }
+
+    for (const [seen, expiresAt] of seenSignatures) {
+      if (expiresAt <= now) seenSignatures.delete(seen);
+    }
+    if (seenSignatures.has(signature)) throw new HttpError(401, "Auth signature already used.");
+
+    let key = identityKey;
+    if (!key) {
+      const device = stmtDeviceGet.get(id, deviceId) as DeviceRow | undefined;
+      if (!device) throw new HttpError(401, "Device not registered.");
+      key = device.identity_key;
+    }
+
+    const message = buildRelayAuthMessage({ method, path: pathname, id, deviceId, timestamp, body });
+    if (!verifySignature(key, message, signature)) throw new HttpError(401, "Invalid auth signature.");
+
+    seenSignatures.set(signature, timestamp + authMaxSkewMs);
+    // Counted only after the signature checks out so forged requests cannot drain a sender's bucket.
+    enforceRate(senderLimiter, id, "sender");
+    return { id, deviceId };
+  }
+
+  function enforceRate(limiter: RateLimiter, key: string, scope: string): void {
+    const retryAfterSec = limiter.take(key);
+    if (retryAfterSec > 0) throw new HttpError(429, `Rate limit exceeded for ${scope}.`, retryAfterSec);
+  }
+
+  // Messages stay queued until the client acks them; a send only records `sent_at` so
+  // the redelivery sweep knows when the ack is overdue.
+  async function sendFrame(ws: WebSocket, row: MessageRow): Promise<boolean> {
+    try {
+      await sendWsMessage(ws, buildMessagePayload(row));
+      stmtMsgMarkSent.run(Date.now(), row.id);
+      return true;
+    } catch {
+      messagesFailed.inc({ reason: "send_error" });
+      return false;
+    }
+  }
+
+  // Pushes everything still queued for the device, skipping frames already sent on this
+  // socket (those are left to redeliverUnacked). Stops while the socket's send buffer is
+  // over the limit and picks up again once it has had time to drain.
+  async function deliverPending(toId: string, toDeviceId: number, ws: WebSocket): Promise<void> {
+    const state = connections.state(ws);
+    if (!state) return;
+    const rows = stmtMsgPending.all(toId, toDeviceId, Date.now()) as MessageRow[];
+    for (const row of rows) {
+      if (row.sent_at != null && row.sent_at >= state.connectedAt) continue;
+      if (ws.readyState !== ws.OPEN) return;
+      if (ws.bufferedAmount > wsMaxBufferedBytes) {
+        scheduleResume(toId, toDeviceId, ws);
+        return;
+      }
+      if (!(await sendFrame(ws, row))) break;
+    }
+  }
+
+  function scheduleResume(toId: string, toDeviceId: number, ws: WebSocket): void {
+    connections.scheduleResume(connectionKey(toId, toDeviceId), ws, () => void deliverPending(toId, toDeviceId, ws));
+  }
+
+  async function deliverIfConnected(row: MessageRow): Promise<boolean> {
+    const ws = connections.get(connectionKey(row.to_id, row.to_device_id));
+    if (!ws || ws.readyState !== ws.OPEN) return false;
+    if (connections.isCongested(ws)) {
+      // Left queued; the resumed deliverPending sends it in order.
+      scheduleResume(row.to_id, row.to_device_id, ws);
+      return false;
+    }
+    return await sendFrame(ws, row);
+  }
+
+  async function redeliverUnacked(now = Date.now()): Promise<void> {
+    const rows = stmtMsgUnacked.all(now - ackTimeoutMs, now) as MessageRow[];
+    for (const row of rows) {
+      await deliverIfConnected(row);
+    }
+  }
+
+  function acknowledge(id: string, client: AuthContext): void {
+    if (ackedRetentionMs > 0) {
+      messagesDelivered.inc({}, stmtMsgAck.run(Date.now(), id, client.id, client.deviceId).changes);
+      return;
+    }
+    const result = stmtMsgDeleteOnAck.run(id, client.id, client.deviceId);
+    purgeStats.acked += result.changes;
+    messagesDelivered.inc({}, result.changes);
+  }
+
+  // Drops acked rows once their retention window has passed and undelivered rows past
+  // the relay TTL or their sender-specified expiry, so ciphertext does not pile up.
+  function sweep(now = Date.now()): void {
+    purgeStats.acked += stmtMsgPurgeAcked.run(now - ackedRetentionMs).changes;
+    const expired = stmtMsgPurgeExpired.run(now - messageTtlMs, now).changes;
+    purgeStats.expired += expired;
+    if (expired > 0) messagesFailed.inc({ reason: "expired" }, expired);
+    for (const row of stmtAttachmentExpired.all(now) as AttachmentRow[]) {
+      rmSync(attachmentPath(row.id), { force: true });
+      stmtAttachmentDelete.run(row.id);
+      purgeStats.attachments += 1;
+    }
+    purgeStats.lastSweepAt = now;
+    senderLimiter.prune(now);
+    ipLimiter.prune(now);
+    prekeyFetchLimiter.prune(now);
+  }
+
+  // Blobs are named by their relay-generated id, never by anything the client sent.
+  function attachmentPath(id: string): string {
+    return path.join(attachmentsDir, id);
+  }
+
+  // Shared tail of identified and sealed sends: checks the recipient device, quota and
+  // expiry, stores the envelope and pushes it if the device is online.
+  async function queueMessage(
+    toId: string,
+    fromId: string,
+    envelope: RelayEnvelope,
+    mode: "identified" | "sealed" | "group" = "identified"
+  ): Promise<boolean> {
+    const toDeviceId = envelope.recipientDeviceId ?? 1;
+    const device = stmtDeviceGet.get(toId, toDeviceId);
+    if (!device) {
+      messagesFailed.inc({ reason: "unknown_recipient" });
+      throw new HttpError(404, "Recipient device not registered.");
+    }
+    const depth = (stmtQueueDepth.get(toId, toDeviceId) as { count: number }).count;
+    if (maxQueuedPerRecipient > 0 && depth >= maxQueuedPerRecipient) {
+      quotaRejections += 1;
+      messagesFailed.inc({ reason: "quota" });
+      throw new HttpError(507, "Recipient queue is full.");
+    }
+
+    const messageId = randomUUID();
+    const createdAt = Date.now();
+    const expiresAt = envelope.expiresAt ?? null;
+    if (expiresAt !== null && expiresAt <= createdAt) {
+      messagesFailed.inc({ reason: "expired" });
+      throw new HttpError(400, "Envelope already expired.");
+    }
+    const envelopeJson = JSON.stringify(envelope);
+    stmtMsgInsert.run(messageId, toId, toDeviceId, fromId, envelopeJson, createdAt, expiresAt);
+    messagesAccepted.inc({ mode });
+
+    return await deliverIfConnected({
+      id: messageId,
+      to_id: toId,
+      to_device_id: toDeviceId,
+      from_id: fromId,
+      envelope_json: envelopeJson,
+      created_at: createdAt
+    });
+  }
+
+  // Copies one sender-key envelope to every member device except the sending one. A full
+  // queue skips that device rather than failing the send for everyone else.
+  async function fanOutGroupMessage(members: string[], sender: AuthContext, envelope: z.infer<typeof EnvelopeSchema>) {
+    const result = { recipients: 0, delivered: 0, skipped: 0 };
+    for (const member of members) {
+      for (const deviceId of listDeviceIds(member)) {
+        if (member === sender.id && deviceId === sender.deviceId) continue;
+        try {
+          const copy = { ...envelope, recipientId: member, recipientDeviceId: deviceId };
+          if (await queueMessage(member, sender.id, copy, "group")) result.delivered += 1;
+          result.recipients += 1;
+        } catch (err) {
+          if (!(err instanceof HttpError) || err.status !== 507) throw err;
+          result.skipped += 1;
+        }
+      }
+    }
+    return result;
+  }
+
+  function deliveryTokenMatches(id: string, token: string): boolean {
+    const row = stmtDeliveryTokenGet.get(id) as { delivery_token: string | null } | undefined;
+    if (!row?.delivery_token) return false;
+    const expected = Buffer.from(row.delivery_token, "utf8");
+    const given = Buffer.from(token, "utf8");
+    return expected.length === given.length && timingSafeEqual(expected, given);
+  }
+
+  function collectCounts() {
+    const attachmentTotals = stmtAttachmentTotals.get() as { count: number; total: number };
+    const byRecipient = stmtQueueByRecipient.all() as { to_id: string; to_device_id: number; count: number }[];
+    const histogram = { "0": 0, "1-5": 0, "6-20": 0, "21+": 0 };
+    for (const row of byRecipient) {
+      if (row.count <= 0) histogram["0"] += 1;
+      else if (row.count <= 5) histogram["1-5"] += 1;
+      else if (row.count <= 20) histogram["6-20"] += 1;
+      else histogram["21+"] += 1;
+    }
+
+    return {
+      counts: {
+        users: (stmtUserCount.get() as { count: number }).count,
+        devices: (stmtDeviceCount.get() as { count: number }).count,
+        prekeys: (stmtPrekeyCount.get() as { count: number }).count,
+        oneTimePreKeys: (stmtOneTimeCount.get() as { count: number }).count,
+        queuedMessages: (stmtQueuedCount.get() as { count: number }).count,
+        sealedQueuedMessages: (stmtSealedQueuedCount.get(SEALED_SENDER) as { count: number }).count,
+        awaitingAck: (stmtAwaitingAckCount.get() as { count: number }).count,
+        groups: (stmtGroupCount.get() as { count: number }).count,
+        attachments: attachmentTotals.count,
+        attachmentBytes: attachmentTotals.total,
+        throttledRequests: senderLimiter.throttled + ipLimiter.throttled + prekeyFetchLimiter.throttled,
+        quotaRejections,
+        activeConnections: connections.size
+      },
+      histogram
+    };
+  }
+
+  function renderMetrics(): string {
+    const { counts, histogram } = collectCounts();
+    const gauge = (name: string, help: string, value: number) => renderFamily(name, help, "gauge", [{ value }]);
+    const families = [
+      gauge("mega_relay_uptime_seconds", "Seconds since relay start.", Math.floor((Date.now() - startedAt) / 1000)),
+      gauge("mega_relay_users", "Registered users.", counts.users),
+      gauge("mega_relay_devices", "Registered devices across all users.", counts.devices),
+      gauge("mega_relay_prekey_bundles", "Stored signed prekey bundles.", counts.prekeys),
+      gauge("mega_relay_one_time_prekeys", "Unclaimed one-time prekeys.", counts.oneTimePreKeys),
+      gauge("mega_relay_queued_messages", "Messages not yet acknowledged by the recipient.", counts.queuedMessages),
+      gauge("mega_relay_sealed_queued_messages", "Queued sealed-sender messages.", counts.sealedQueuedMessages),
+      gauge("mega_relay_awaiting_ack_messages", "Messages pushed but not yet acknowledged.", counts.awaitingAck),
+      gauge("mega_relay_active_connections", "Open WebSocket connections.", counts.activeConnections),
+      gauge("mega_relay_groups", "Group conversations.", counts.groups),
+      gauge("mega_relay_attachments", "Stored attachment blobs.", counts.attachments),
+      gauge("mega_relay_attachment_bytes", "Bytes of stored attachment ciphertext.", counts.attachmentBytes),
+      renderFamily(
+        "mega_relay_queue_depth_recipients",
+        "Recipient devices with queued messages, by queue depth bucket.",
+        "gauge",
+        Object.entries(histogram).map(([bucket, value]) => ({ labels: { bucket }, value }))
+      ),
+      messagesAccepted.render(),
+      messagesDelivered.render(),
+      messagesFailed.render(),
+      renderFamily("mega_relay_throttled_requests_total", "Requests refused by a rate limiter.", "counter", [
+        { labels: { limiter: "sender" }, value: senderLimiter.throttled },
+        { labels: { limiter: "source_address" }, value: ipLimiter.throttled },
+        { labels: { limiter: "prekey_fetch" }, value: prekeyFetchLimiter.throttled }
+      ]),
+      renderFamily("mega_relay_purged_messages_total", "Messages removed by the retention sweeper.", "counter", [
+        { labels: { reason: "acked" }, value: purgeStats.acked },
+        { labels: { reason: "expired" }, value: purgeStats.expired }
+      ]),
+      renderFamily("mega_relay_attachments_expired_total", "Attachment blobs deleted after expiry.", "counter", [
+        { value: purgeStats.attachments }
+      ]),
+      renderFamily(
+        "mega_relay_ws_terminated_total",
+        "WebSocket connections terminated after missing heartbeats.",
+        "counter",
+        [{ value: connections.stats.terminated }]
+      ),
+      renderFamily(
+        "mega_relay_ws_backpressure_pauses_total",
+        "Times delivery to a socket paused on a full send buffer.",
+        "counter",
+        [{ value: connections.stats.backpressurePauses }]
+      ),
+      requestDuration.render()
+    ];
+
+    // Host metrics come from the last POST /diagnostics/metrics push and are absent until one arrives.
+    if (latestMetrics) {
+      const metrics = latestMetrics;
+      const host: [string, string, Sample[]][] = [
+        ["mega_host_cpu_percent", "Host CPU usage reported by the probe.", [{ value: metrics.cpuPct }]],
+        ["mega_host_memory_percent", "Host memory usage reported by the probe.", [{ value: metrics.memPct }]],
+        ["mega_host_swap_percent", "Host swap usage reported by the probe.", [{ value: metrics.swapPct }]],
+        ["mega_host_network_in_bytes", "Host inbound network bytes.", [{ value: metrics.netInBytes }]],
+        ["mega_host_network_out_bytes", "Host outbound network bytes.", [{ value: metrics.netOutBytes }]],
+        [
+          "mega_host_load_average",
+          "Host load average reported by the probe.",
+          (["1m", "5m", "15m"] as const).map((window, index) => ({ labels: { window }, value: metrics.load[index] }))
+        ],
+        [
+          "mega_host_metrics_updated_seconds",
+          "When the host metrics were last pushed, as a Unix timestamp.",
+          [{ value: metrics.updatedAt / 1000 }]
+        ]
+      ];
+      for (const [name, help, samples] of host) families.push(renderFamily(name, help, "gauge", samples));
+    }
+
+    return `${families.join("\n")}\n`;
+  }
+
+  const wss = new WebSocketServer({ noServer: true, maxPayload: wsMaxPayloadBytes });
+  wss.on("connection", (ws: WebSocket, _request: http.IncomingMessage, client: AuthContext) => {
+    const key = connectionKey(client.id, client.deviceId);
+    connections.add(key, ws);
+    void deliverPending(client.id, client.deviceId, ws);
+
+    ws.on("pong", () => {
+      connections.seen(ws);
+    });
+
+    ws.on("message", (data: RawData) => {
+      connections.seen(ws);
+      let frame: unknown;
+      try {
+        frame = JSON.parse(data.toString());
+      } catch {
+        return;
+      }
+      const ack = RelayAckFrameSchema.safeParse(frame);
+      if (ack.success) acknowledge(ack.data.id, client);
+    });
+
+    ws.on("close", () => {
+      connections.remove(key, ws);
+    });
+
+    ws.on("error", () => {
+      connections.remove(key, ws);
+    });
+  });
+
+  const server = http.createServer(async (req, res) => {
+    const started = process.hrtime.bigint();
+    res.on("finish", () => {
+      const seconds = Number(process.hrtime.bigint() - started) / 1e9;
+      const route = routeLabel((req.url ?? "/").split("?")[0]);
+      requestDuration.observe({ route, method: req.method ?? "GET", status: String(res.statusCode) }, seconds);
+    });
+    try {
+      const url = normalizeServerUrl(req.url);
+      const method = req.method ?? "GET";
+
+      if (method === "GET" && url.pathname === "/health") {
+        return text(res, 200, "ok");
+      }
+
+      if (url.pathname.startsWith("/v1/")) {
+        enforceRate(ipLimiter, clientAddress(req), "source address");
+      }
+
+      if (method === "GET" && url.pathname === "/metrics") {
+        return metricsText(res, renderMetrics());
+      }
+
+      if (method === "GET" && url.pathname === "/diagnostics") {
+        const { counts, histogram } = collectCounts();
+        return json(res, 200, {
+          uptimeSec: Math.floor((Date.now() - startedAt) / 1000),
+          dbPath,
+          counts,
+          queueDepthHistogram: histogram,
+          purged: purgeStats,
+          rateLimits: {
+            sender: {
+              perMinute: senderLimiter.perMinute,
+              burst: senderLimiter.burst,
+              throttled: senderLimiter.throttled,
+              tracked: senderLimiter.tracked
+            },
+            sourceAddress: {
+              perMinute: ipLimiter.perMinute,
+              burst: ipLimiter.burst,
+              throttled: ipLimiter.throttled,
+              tracked: ipLimiter.tracked
+            },
+            prekeyFetch: {
+              perMinute: prekeyFetchLimiter.perMinute,
+              burst: prekeyFetchLimiter.burst,
+              throttled: prekeyFetchLimiter.throttled,
+              tracked: prekeyFetchLimiter.tracked
+            },
+            maxQueuedPerRecipient
+          },
+          attachments: attachmentLimits,
+          websocket: {
+            pingIntervalMs: wsPingIntervalMs,
+            heartbeatTimeoutMs: wsHeartbeatTimeoutMs,
+            maxBufferedBytes: wsMaxBufferedBytes,
+            terminated: connections.stats.terminated,
+            backpressurePauses: connections.stats.backpressurePauses
+          },
+          metrics: latestMetrics
+        });
+      }
+
+      if (method === "POST" && url.pathname === "/diagnostics/metrics") {
+        const payload = await readJson(req, bodyLimits.default);
+        latestMetrics = RelayMetricsSchema.parse(payload);
+        return json(res, 200, { ok: true });
+      }
+
+      if (method === "POST" && url.pathname === "/v1/register") {
+        const raw = await readBody(req, bodyLimits.default);
+        const payload = RegisterSchema.parse(parseJson(raw));
+        const auth = authenticate(req.headers, method, url.pathname, raw, payload.identityKey);
+        if (auth.id !== payload.id || auth.deviceId !== payload.deviceId) {
+          throw new HttpError(403, "Auth id does not match registration id.");
+        }
+
+        const existing = stmtDeviceGet.get(payload.id, payload.deviceId) as DeviceRow | undefined;
+        if (existing && existing.identity_key !== payload.identityKey) {
+          return json(res, 409, { error: "Device already bound to a different identity key." });
+        }
+        if (!existing) {
+          // Only the first device claims an id; later devices are linked by one that already has it.
+          if (listDeviceIds(payload.id).length > 0) {
+            throw new HttpError(403, "Device not linked. Link it from an existing device first.");
+          }
+          registerDevice(payload.id, payload.deviceId, payload.identityKey);
+        }
+        if (payload.deliveryToken) stmtDeliveryTokenSet.run(payload.deliveryToken, payload.id);
+        return json(res, 200, { id: payload.id, deviceId: payload.deviceId });
+      }
+
+      if (method === "POST" && url.pathname === "/v1/devices") {
+        const raw = await readBody(req, bodyLimits.default);
+        const auth = authenticate(req.headers, method, url.pathname, raw);
+        const payload = DeviceLinkSchema.parse(parseJson(raw));
+        if (auth.id !== payload.id) throw new HttpError(403, "Cannot link devices for another user.");
+        if (auth.deviceId === payload.deviceId) throw new HttpError(400, "A device cannot link itself.");
+
+        const linker = stmtDeviceGet.get(auth.id, auth.deviceId) as DeviceRow;
+        const message = buildDeviceLinkMessage({
+          id: payload.id,
+          deviceId: payload.deviceId,
+          identityKey: payload.identityKey,
+          linkedBy: auth.deviceId
+        });
+        if (!verifySignature(linker.identity_key, message, payload.signature)) {
+          throw new HttpError(400, "Invalid device link signature.");
+        }
+
+        const existing = stmtDeviceGet.get(payload.id, payload.deviceId) as DeviceRow | undefined;
+        if (existing && existing.identity_key !== payload.identityKey) {
+          return json(res, 409, { error: "Device already bound to a different identity key." });
+        }
+        if (!existing) {
+          stmtDeviceLinkInsert.run(
+            payload.id,
+            payload.deviceId,
+            payload.identityKey,
+            Date.now(),
+            auth.deviceId,
+            payload.signature
+          );
+        } else if (existing.linked_by === null) {
+          // Devices linked before links were signed have no signature; linking one again
+          // adds it. The root stays unlinked so every chain still ends there.
+          const root = stmtDeviceRoot.get(payload.id) as { device_id: number };
+          if (root.device_id !== payload.deviceId) {
+            stmtDeviceLinkSet.run(auth.deviceId, payload.signature, payload.id, payload.deviceId);
+          }
+        }
+        return json(res, 200, { id: payload.id, deviceId: payload.deviceId });
+      }
+
+      if (method === "GET" && url.pathname.startsWith("/v1/devices/")) {
+        const id = decodeURIComponent(url.pathname.replace("/v1/devices/", ""));
+        const devices = listDeviceIds(id);
+        if (devices.length === 0) return json(res, 404, { error: "User not registered." });
+        const links = (stmtDeviceLinks.all(id) as DeviceRow[]).map((row) => ({
+          deviceId: row.device_id,
+          identityKey: row.identity_key,
+          ...(row.linked_by !== null && row.link_signature !== null
+            ? { linkedBy: row.linked_by, signature: row.link_signature }
+            : {})
+        }));
+        return json(res, 200, { id, devices, links });
+      }
+
+      if (method === "GET" && url.pathname === "/v1/certificate/trust-root") {
+        const trustRoot = Buffer.from(issuer.trustRoot.getPublicKey().serialize()).toString("base64");
+        return json(res, 200, { trustRoot });
+      }
+
+      if (method === "GET" && url.pathname === "/v1/certificate") {
+        const auth = authenticate(req.headers, method, url.pathname, "");
+        const device = stmtDeviceGet.get(auth.id, auth.deviceId) as DeviceRow;
+        const expiresAt = Date.now() + senderCertTtlMs;
+        const certificate = SenderCertificate.new(
+          auth.id,
+          null,
+          auth.deviceId,
+          PublicKey.deserialize(Buffer.from(device.identity_key, "base64")),
+          expiresAt,
+          issuer.serverCertificate,
+          issuer.serverKey
+        );
+        return json(res, 200, { certificate: Buffer.from(certificate.serialize()).toString("base64"), expiresAt });
+      }
+
+      if (method === "POST" && url.pathname === "/v1/prekeys") {
+        const raw = await readBody(req, bodyLimits.prekeys);
+        const auth = authenticate(req.headers, method, url.pathname, raw);
+        const body = parseJson(raw);
+        const batch = PreKeyBatchUploadSchema.safeParse(body);
+        // Legacy single-bundle uploads feed their one prekey into the pool.
+        const payload = batch.success ? batch.data : PreKeyUploadSchema.parse(body);
+        const { preKey, ...bundle } = payload.bundle as Bundle;
+        const preKeys = batch.success ? batch.data.preKeys : preKey ? [preKey] : [];
+
+        if (auth.id !== payload.id) throw new HttpError(403, "Cannot upload prekeys for another user.");
+        if (auth.deviceId !== bundle.deviceId) throw new HttpError(403, "Cannot upload prekeys for another device.");
+        const device = stmtDeviceGet.get(auth.id, auth.deviceId) as DeviceRow | undefined;
+        if (device?.identity_key !== bundle.identityKey) {
+          return json(res, 400, { error: "Bundle identity key does not match registered key." });
+        }
+        storePreKeys(auth.id, auth.deviceId, bundle, preKeys);
+        return json(res, 200, { ok: true, accepted: preKeys.length });
+      }
+
+      const statusMatch = /^\/v1\/prekeys\/([^/]+)\/status$/.exec(url.pathname);
+      if (method === "GET" && statusMatch) {
+        const id = decodeURIComponent(statusMatch[1]);
+        const auth = authenticate(req.headers, method, url.pathname, "");
+        if (auth.id !== id) throw new HttpError(403, "Cannot read prekey status for another user.");
+
+        const row = stmtPrekeyGet.get(id, auth.deviceId) as PrekeyRow | undefined;
+        const bundle = row ? (JSON.parse(row.bundle_json) as Bundle) : undefined;
+        const oneTimePreKeys = (stmtOneTimeCountByDevice.get(id, auth.deviceId) as { count: number }).count;
+        const signedPreKeyAt = row ? (row.signed_prekey_at ?? row.updated_at) : null;
+        return json(res, 200, {
+          id,
+          deviceId: auth.deviceId,
+          oneTimePreKeys,
+          signedPreKeyId: bundle?.signedPreKey.keyId ?? null,
+          signedPreKeyAgeMs: signedPreKeyAt === null ? null : Math.max(0, Date.now() - signedPreKeyAt)
+        });
+      }
+
+      // Signed and limited per requester: every fetch uses up one-time prekeys, so an
+      // anonymous caller could otherwise drain a user's pool.
+      if (method === "GET" && url.pathname.startsWith("/v1/prekeys/")) {
+        const auth = authenticate(req.headers, method, url.pathname, "");
+        enforceRate(prekeyFetchLimiter, auth.id, "prekey fetches");
+        const id = decodeURIComponent(url.pathname.replace("/v1/prekeys/", ""));
+        const deviceParam = url.searchParams.get("device");
+        if (deviceParam !== null) {
+          const bundle = takeBundle(id, Number(deviceParam));
+          if (!bundle) return json(res, 404, { error: "Prekeys not found." });
+          return json(res, 200, { id, bundle });
+        }
+
+        // Without ?device every device's bundle is returned; `bundle` keeps single-device clients working.
+        const bundles: Bundle[] = [];
+        for (const row of stmtPrekeyDevices.all(id) as { device_id: number }[]) {
+          const bundle = takeBundle(id, row.device_id);
+          if (bundle) bundles.push(bundle);
+        }
+        if (bundles.length === 0) return json(res, 404, { error: "Prekeys not found." });
+        return json(res, 200, { id, bundle: bundles[0], bundles });
+      }
+
+      if (method === "POST" && url.pathname === "/v1/messages") {
+        const raw = await readBody(req, bodyLimits.messages);
+        const auth = authenticate(req.headers, method, url.pathname, raw);
+        const payload = MessageSchema.parse(parseJson(raw));
+        if (auth.id !== payload.from) throw new HttpError(403, "Sender does not match authenticated id.");
+        if ((payload.envelope.senderDeviceId ?? 1) !== auth.deviceId) {
+          throw new HttpError(403, "Sender device does not match authenticated device.");
+        }
+        // Recipients open the envelope as whoever it names, so it must name the caller.
+        if (payload.envelope.senderId !== auth.id) {
+          throw new HttpError(403, "Envelope sender does not match authenticated id.");
+        }
+        if (payload.envelope.recipientId !== payload.to) {
+          throw new HttpError(403, "Envelope recipient does not match.");
+        }
+        const delivered = await queueMessage(payload.to, payload.from, payload.envelope);
+        return json(res, 200, { ok: true, queued: true, delivered });
+      }
+
+      if (method === "POST" && url.pathname === "/v1/messages/sealed") {
+        const raw = await readBody(req, bodyLimits.messages);
+        const payload = SealedMessageSchema.parse(parseJson(raw));
+        if (payload.envelope.recipientId !== payload.to) throw new HttpError(400, "Envelope recipient does not match.");
+        if (!deliveryTokenMatches(payload.to, payload.deliveryToken)) {
+          messagesFailed.inc({ reason: "bad_delivery_token" });
+          throw new HttpError(401, "Invalid delivery token.");
+        }
+        const delivered = await queueMessage(payload.to, SEALED_SENDER, payload.envelope, "sealed");
+        return json(res, 200, { ok: true, queued: true, delivered });
+      }
+
+      // Attachments arrive as raw ciphertext; the signature covers the bytes as sent.
+      if (method === "POST" && url.pathname === "/v1/attachments") {
+        const body = await readBodyBytes(req, attachmentLimits.maxBytes);
+        const auth = authenticate(req.headers, method, url.pathname, body);
+        if (body.length === 0) throw new HttpError(400, "Attachment body is empty.");
+        const now = Date.now();
+        const stored = (stmtAttachmentBytesByOwner.get(auth.id, now) as { total: number }).total;
+        if (attachmentLimits.quotaBytesPerUser > 0 && stored + body.length > attachmentLimits.quotaBytesPerUser) {
+          quotaRejections += 1;
+          throw new HttpError(507, "Attachment storage quota exceeded.");
+        }
+        const id = randomUUID();
+        const expiresAt = now + attachmentLimits.ttlMs;
+        await writeFile(attachmentPath(id), body);
+        stmtAttachmentInsert.run(id, auth.id, body.length, now, expiresAt);
+        return json(res, 200, { id, size: body.length, expiresAt });
+      }
+
+      const attachmentMatch = /^\/v1\/attachments\/([^/]+)$/.exec(url.pathname);
+      if (method === "GET" && attachmentMatch) {
+        authenticate(req.headers, method, url.pathname, "");
+        const row = stmtAttachmentGet.get(decodeURIComponent(attachmentMatch[1]), Date.now()) as
+          | AttachmentRow
+          | undefined;
+        if (!row) throw new HttpError(404, "Attachment not found.");
+        return binary(res, 200, await readFile(attachmentPath(row.id)));
+      }
+
+      if (method === "POST" && url.pathname === "/v1/groups") {
+        const raw = await readBody(req, bodyLimits.default);
+        const auth = authenticate(req.headers, method, url.pathname, raw);
+        const payload = GroupCreateSchema.parse(parseJson(raw));
+        const members = [...new Set([auth.id, ...payload.members])];
+        if (members.length > MAX_GROUP_MEMBERS) {
+          throw new HttpError(400, `Groups are limited to ${MAX_GROUP_MEMBERS} members.`);
+        }
+        requireRegistered(members);
+        const id = randomUUID();
+        createGroup(id, payload.name, auth.id, members);
+        return json(res, 200, describeGroup(stmtGroupGet.get(id) as GroupRow, members));
+      }
+
+      if (method === "GET" && url.pathname === "/v1/groups") {
+        const auth = authenticate(req.headers, method, url.pathname, "");
+        const rows = stmtGroupsForMember.all(auth.id) as GroupRow[];
+        return json(res, 200, { groups: rows.map((row) => describeGroup(row, listGroupMembers(row.id))) });
+      }
+
+      const groupMatch = /^\/v1\/groups\/([^/]+)$/.exec(url.pathname);
+      if (method === "GET" && groupMatch) {
+        const auth = authenticate(req.headers, method, url.pathname, "");
+        const { group, members } = requireGroupMember(decodeURIComponent(groupMatch[1]), auth.id);
+        return json(res, 200, describeGroup(group, members));
+      }
+
+      // Any member may add people; removal is for the owner, or a member leaving.
+      const groupMembersMatch = /^\/v1\/groups\/([^/]+)\/members$/.exec(url.pathname);
+      if (method === "POST" && groupMembersMatch) {
+        const raw = await readBody(req, bodyLimits.default);
+        const auth = authenticate(req.headers, method, url.pathname, raw);
+        const payload = GroupMembersSchema.parse(parseJson(raw));
+        const { group, members } = requireGroupMember(decodeURIComponent(groupMembersMatch[1]), auth.id);
+        const added = [...new Set(payload.members)].filter((member) => !members.includes(member));
+        if (members.length + added.length > MAX_GROUP_MEMBERS) {
+          throw new HttpError(400, `Groups are limited to ${MAX_GROUP_MEMBERS} members.`);
+        }
+        requireRegistered(added);
+        addGroupMembers(group.id, added);
+        return json(res, 200, describeGroup(group, listGroupMembers(group.id)));
+      }
+
+      const groupMemberMatch = /^\/v1\/groups\/([^/]+)\/members\/([^/]+)$/.exec(url.pathname);
+      if (method === "DELETE" && groupMemberMatch) {
+        const auth = authenticate(req.headers, method, url.pathname, "");
+        const { group, members } = requireGroupMember(decodeURIComponent(groupMemberMatch[1]), auth.id);
+        const member = decodeURIComponent(groupMemberMatch[2]);
+        if (!members.includes(member)) throw new HttpError(404, "Not a member of the group.");
+        if (member === group.owner_id) throw new HttpError(403, "The group owner cannot be removed.");
+        if (auth.id !== group.owner_id && auth.id !== member) {
+          throw new HttpError(403, "Only the group owner can remove other members.");
+        }
+        stmtGroupMemberDelete.run(group.id, member);
+        return json(res, 200, describeGroup(group, listGroupMembers(group.id)));
+      }
+
+      const groupMessagesMatch = /^\/v1\/groups\/([^/]+)\/messages$/.exec(url.pathname);
+      if (method === "POST" && groupMessagesMatch) {
+        const raw = await readBody(req, bodyLimits.messages);
+        const auth = authenticate(req.headers, method, url.pathname, raw);
+        const payload = GroupMessageSchema.parse(parseJson(raw));
+        const { group, members } = requireGroupMember(decodeURIComponent(groupMessagesMatch[1]), auth.id);
+        const { envelope } = payload;
+        if (envelope.groupId !== group.id) throw new HttpError(400, "Envelope group does not match.");
+        if (envelope.senderId !== auth.id || (envelope.senderDeviceId ?? 1) !== auth.deviceId) {
+          throw new HttpError(403, "Sender does not match authenticated device.");
+        }
+        const result = await fanOutGroupMessage(members, auth, envelope);
+        return json(res, 200, { ok: true, ...result });
+      }
+
+      return json(res, 404, { error: "Not found." });
+    } catch (err) {
+      if (err instanceof HttpError) {
+        if (err.retryAfterSec !== undefined) res.setHeader("Retry-After", String(err.retryAfterSec));
+        // The unread remainder of an oversized body is dropped with the connection.
+        if (err.status === 413) res.setHeader("Connection", "close");
+        return json(res, err.status, { error: err.message });
+      }
+      if (err instanceof z.ZodError) {
+        return json(res, 400, { error: "Invalid request.", details: err.flatten() });
+      }
+      if (err instanceof Error && err.message === "Invalid JSON body.") {
+        return json(res, 400, { error: "Invalid JSON body." });
+      }
+      console.error(err);
+      return json(res, 500, { error: "Internal server error." });
+    }
+  });
+
+  server.on("upgrade", (req, socket, head) => {
+    try {
+      const url = normalizeServerUrl(req.url);
+      if (url.pathname !== "/ws") {
+        socket.write("HTTP/1.1 404 Not Found\r\n\r\n");
+        socket.destroy();
+        return;
+      }
+
+      const clientId = url.searchParams.get("client_id");
+      if (!clientId) {
+        socket.write("HTTP/1.1 400 Bad Request\r\n\r\n");
+        socket.destroy();
+        return;
+      }
+
+      let client: AuthContext;
+      try {
+        enforceRate(ipLimiter, clientAddress(req), "source address");
+        client = authenticate(req.headers, "GET", url.pathname, "");
+      } catch (err) {
+        const status = err instanceof HttpError ? err.status : 401;
+        socket.write(`HTTP/1.1 ${status} ${http.STATUS_CODES[status]}\r\n\r\n`);
+        socket.destroy();
+        return;
+      }
+      if (client.id !== clientId) {
+        socket.write("HTTP/1.1 403 Forbidden\r\n\r\n");
+        socket.destroy();
+        return;
+      }
+
+      wss.handleUpgrade(req, socket, head, (ws: WebSocket) => {
+        wss.emit("connection", ws, req, client);
+      });
+    } catch {
+      socket.write("HTTP/1.1 500 Internal Server Error\r\n\r\n");
+      socket.destroy();
+    }
+  });
+
+  return {
+    server,
+    redeliverUnacked,
+    checkHeartbeats: (now) => connections.checkHeartbeats(now),
+    sweep,
+    close: () => {
+      connections.terminateAll();
+      wss.close();
+      server.closeAllConnections();
+      server.close();
+      db.close();
+    }
+  };
+}
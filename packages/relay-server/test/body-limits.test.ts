@@ -0,0 +1,84 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import http from "node:http";
+import { randomBytes } from "node:crypto";
+import { startRelay, TestDevice, type TestRelay } from "./helpers";
+
+// Posts `size` bytes in chunks without a Content-Length, so only the streamed total can
+// trip the limit.
+async function postStreamed(relayUrl: string, route: string, size: number): Promise<number> {
+  return await new Promise((resolve, reject) => {
+    const req = http.request(new URL(route, relayUrl), {
+      method: "POST",
+      headers: { "Content-Type": "application/octet-stream", "Transfer-Encoding": "chunked" }
+    });
+    req.on("response", (res) => {
+      res.resume();
+      resolve(res.statusCode ?? 0);
+    });
+    // The relay answers and drops the connection while the rest is still being written.
+    req.on("error", (err: NodeJS.ErrnoException) => {
+      if (err.code !== "EPIPE" && err.code !== "ECONNRESET") reject(err);
+    });
+    for (let sent = 0; sent < size; sent += 512) req.write(Buffer.alloc(Math.min(512, size - sent), "x"));
+    req.end();
+  });
+}
+
+describe("request body limits", () => {
+  let relay: TestRelay;
+  let alice: TestDevice;
+  let bob: TestDevice;
+
+  before(async () => {
+    relay = await startRelay({
+      RELAY_MAX_BODY_BYTES: "2048",
+      RELAY_MAX_PREKEYS_BODY_BYTES: "16384",
+      RELAY_MAX_MESSAGE_BODY_BYTES: "4096",
+      RELAY_MAX_ATTACHMENT_BYTES: "1024"
+    });
+    alice = new TestDevice(relay.url, "alice");
+    bob = new TestDevice(relay.url, "bob");
+  });
+
+  after(() => relay.stop());
+
+  it("limits registration to the default body size", async () => {
+    const body = { id: "alice", deviceId: 1, identityKey: alice.identityKey };
+    const over = await alice.request("POST", "/v1/register", { ...body, padding: "x".repeat(2048) });
+    assert.equal(over.status, 413);
+    assert.match(over.body.error, /exceeds 2048 bytes/);
+
+    const within = await alice.request("POST", "/v1/register", { ...body, padding: "x".repeat(1024) });
+    assert.equal(within.status, 200);
+    await bob.register();
+  });
+
+  it("limits prekey uploads to the prekeys body size", async () => {
+    const keyIds = (count: number) => Array.from({ length: count }, (_, i) => i + 1);
+    assert.equal((await alice.request("POST", "/v1/prekeys", alice.preKeyUpload(keyIds(300)))).status, 413);
+    assert.equal((await alice.request("POST", "/v1/prekeys", alice.preKeyUpload(keyIds(50)))).status, 200);
+  });
+
+  it("limits identified and sealed sends to the message body size", async () => {
+    const body = (length: number) => ({ body: randomBytes(length).toString("base64").slice(0, length) });
+    assert.equal((await alice.send("bob", body(4096))).status, 413);
+    assert.equal((await alice.send("bob", body(3072))).status, 200);
+
+    const sealed = { to: "bob", deliveryToken: "x".repeat(16), envelope: { padding: "x".repeat(4096) } };
+    assert.equal((await alice.request("POST", "/v1/messages/sealed", sealed, { signed: false })).status, 413);
+  });
+
+  it("limits attachments to the attachment size", async () => {
+    assert.equal((await alice.request("POST", "/v1/attachments", randomBytes(1025))).status, 413);
+    assert.equal((await alice.request("POST", "/v1/attachments", randomBytes(1024))).status, 200);
+  });
+
+  it("stops reading a streamed body once it crosses the limit", async () => {
+    assert.equal(await postStreamed(relay.url, "/v1/register", 64 * 1024), 413);
+    assert.equal(await postStreamed(relay.url, "/v1/messages", 64 * 1024), 413);
+    assert.equal(await postStreamed(relay.url, "/v1/attachments", 64 * 1024), 413);
+    // Under the limit the body is read in full and the request fails on its content instead.
+    assert.equal(await postStreamed(relay.url, "/v1/register", 1024), 400);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ConnectionRegistry, type RelaySocket } from "../src/connections";
+
+class FakeSocket implements RelaySocket {
+  bufferedAmount = 0;
+  pings = 0;
+  terminated = false;
+  closed: { code?: number; reason?: string } | undefined;
+
+  ping(): void {
+    this.pings += 1;
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+
+  close(code?: number, reason?: string): void {
+    this.closed = { code, reason };
+  }
+}
+
+const options = { heartbeatTimeoutMs: 45_000, maxBufferedBytes: 1024, backpressureRetryMs: 10 };
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("connection registry", () => {
+  it("keeps one socket per device and closes the one a new connection supersedes", () => {
+    const registry = new ConnectionRegistry<FakeSocket>(options);
+    const first = new FakeSocket();
+    const second = new FakeSocket();
+    registry.add("bob:1", first);
+    registry.add("bob:1", second);
+    assert.deepEqual(first.closed, { code: 4000, reason: "superseded" });
+    assert.equal(registry.get("bob:1"), second);
+
+    // The superseded socket's own close event must not evict its replacement.
+    registry.remove("bob:1", first);
+    assert.equal(registry.get("bob:1"), second);
+    registry.remove("bob:1", second);
+    assert.equal(registry.size, 0);
+  });
+
+  it("pings live sockets and terminates those silent past the timeout", () => {
+    const registry = new ConnectionRegistry<FakeSocket>(options);
+    const live = new FakeSocket();
+    const silent = new FakeSocket();
+    registry.add("alice:1", live, 0);
+    registry.add("bob:1", silent, 0);
+
+    registry.checkHeartbeats(30_000);
+    assert.equal(live.pings, 1);
+    assert.equal(silent.pings, 1);
+
+    registry.seen(live, 40_000);
+    registry.checkHeartbeats(50_000);
+    assert.equal(live.pings, 2);
+    assert.equal(live.terminated, false);
+    assert.equal(silent.terminated, true);
+    assert.equal(registry.get("bob:1"), undefined);
+    assert.equal(registry.size, 1);
+    assert.equal(registry.stats.terminated, 1);
+  });
+
+  it("reports congestion while the send buffer is over the limit", () => {
+    const registry = new ConnectionRegistry<FakeSocket>(options);
+    const ws = new FakeSocket();
+    registry.add("bob:1", ws);
+    ws.bufferedAmount = 1024;
+    assert.equal(registry.isCongested(ws), false);
+    ws.bufferedAmount = 1025;
+    assert.equal(registry.isCongested(ws), true);
+  });
+
+  it("resumes once after the retry delay and stays congested until then", async () => {
+    const registry = new ConnectionRegistry<FakeSocket>(options);
+    const ws = new FakeSocket();
+    registry.add("bob:1", ws);
+    let resumed = 0;
+    registry.scheduleResume("bob:1", ws, () => (resumed += 1));
+    registry.scheduleResume("bob:1", ws, () => (resumed += 1));
+    assert.equal(registry.isCongested(ws), true);
+    assert.equal(registry.stats.backpressurePauses, 1);
+
+    await wait(30);
+    assert.equal(resumed, 1);
+    assert.equal(registry.isCongested(ws), false);
+  });
+
+  it("does not resume a socket that was replaced or closed meanwhile", async () => {
+    const registry = new ConnectionRegistry<FakeSocket>(options);
+    const replaced = new FakeSocket();
+    const closed = new FakeSocket();
+    registry.add("bob:1", replaced);
+    registry.add("alice:1", closed);
+    let resumed = 0;
+    registry.scheduleResume("bob:1", replaced, () => (resumed += 1));
+    registry.scheduleResume("alice:1", closed, () => (resumed += 1));
+    registry.add("bob:1", new FakeSocket());
+    registry.remove("alice:1", closed);
+
+    await wait(30);
+    assert.equal(resumed, 0);
+  });
+});
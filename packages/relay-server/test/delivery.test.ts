@@ -0,0 +1,97 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { diagnostics, eventually, startRelay, TestDevice, type TestRelay } from "./helpers";
+
+describe("acks", () => {
+  let relay: TestRelay;
+  let alice: TestDevice;
+  let bob: TestDevice;
+
+  before(async () => {
+    relay = await startRelay();
+    alice = new TestDevice(relay.url, "alice");
+    bob = new TestDevice(relay.url, "bob");
+    await alice.register();
+    await bob.register();
+  });
+
+  after(() => relay.stop());
+
+  const queued = async () => (await diagnostics(relay)).counts.queuedMessages;
+
+  it("deletes a message once its recipient acks it", async () => {
+    await alice.send("bob");
+    const socket = await bob.connect();
+    const frame = await socket.next();
+    assert.equal(await queued(), 1);
+
+    socket.ack(frame.id);
+    await eventually(async () => (await queued()) === 0);
+    assert.equal((await diagnostics(relay)).purged.acked, 1);
+    await socket.close();
+  });
+
+  it("pushes an un-acked message again on the next connection", async () => {
+    await alice.send("bob");
+    const first = await bob.connect();
+    const sent = await first.next();
+    await first.close();
+
+    const second = await bob.connect();
+    const again = await second.next();
+    assert.equal(again.id, sent.id);
+    second.ack(again.id);
+    await eventually(async () => (await queued()) === 0);
+    await second.close();
+
+    const third = await bob.connect();
+    assert.ok(await third.quiet());
+    await third.close();
+  });
+
+  it("ignores acks for messages queued for someone else", async () => {
+    await alice.send("bob");
+    const socket = await bob.connect();
+    const frame = await socket.next();
+
+    const mallory = new TestDevice(relay.url, "mallory");
+    await mallory.register();
+    const intruder = await mallory.connect();
+    intruder.ack(frame.id);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    assert.equal(await queued(), 1);
+
+    socket.ack(frame.id);
+    await eventually(async () => (await queued()) === 0);
+    await intruder.close();
+    await socket.close();
+  });
+});
+
+describe("acked retention", () => {
+  it("keeps acked messages until the sweep passes the retention window", async () => {
+    const relay = await startRelay({ RELAY_ACKED_RETENTION_MS: "60000" });
+    try {
+      const alice = new TestDevice(relay.url, "alice");
+      const bob = new TestDevice(relay.url, "bob");
+      await alice.register();
+      await bob.register();
+      await alice.send("bob");
+      const socket = await bob.connect();
+      socket.ack((await socket.next()).id);
+      await eventually(async () => (await diagnostics(relay)).counts.queuedMessages === 0);
+      await socket.close();
+
+      relay.relay.sweep();
+      assert.equal((await diagnostics(relay)).purged.acked, 0);
+      relay.relay.sweep(Date.now() + 60_001);
+      assert.equal((await diagnostics(relay)).purged.acked, 1);
+
+      const reconnected = await bob.connect();
+      assert.ok(await reconnected.quiet());
+      await reconnected.close();
+    } finally {
+      relay.stop();
+    }
+  });
+});
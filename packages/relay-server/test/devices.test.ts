@@ -0,0 +1,63 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { startRelay, TestDevice, type TestRelay } from "./helpers";
+
+describe("device links", () => {
+  let relay: TestRelay;
+  let alice: TestDevice;
+
+  before(async () => {
+    relay = await startRelay();
+    alice = new TestDevice(relay.url, "alice");
+    await alice.register();
+  });
+
+  after(() => relay.stop());
+
+  it("refuses a device that registers without a link", async () => {
+    const unlinked = new TestDevice(relay.url, "alice", 5);
+    await assert.rejects(unlinked.register(), /403/);
+  });
+
+  it("refuses a link not signed by the linking device", async () => {
+    const laptop = new TestDevice(relay.url, "alice", 2);
+    const res = await alice.link(laptop, new TestDevice(relay.url, "alice"));
+    assert.equal(res.status, 400);
+    assert.match(res.body.error, /link signature/);
+    await assert.rejects(laptop.register(), /403/);
+  });
+
+  it("records the linker and its signature in the device list", async () => {
+    const laptop = new TestDevice(relay.url, "alice", 2);
+    assert.equal((await alice.link(laptop)).status, 200);
+    await laptop.register();
+    const phone = new TestDevice(relay.url, "alice", 3);
+    assert.equal((await laptop.link(phone)).status, 200);
+
+    const listed = await alice.request("GET", "/v1/devices/alice", undefined, { signed: false });
+    assert.deepEqual(listed.body.devices, [1, 2, 3]);
+    const [first, second, third] = listed.body.links;
+    assert.deepEqual(first, { deviceId: 1, identityKey: alice.identityKey });
+    assert.equal(second.linkedBy, 1);
+    assert.equal(third.linkedBy, 2);
+    assert.equal(third.identityKey, phone.identityKey);
+  });
+
+  it("does not hand out delivery tokens", async () => {
+    const bob = new TestDevice(relay.url, "bob");
+    const registered = await bob.request("POST", "/v1/register", {
+      id: "bob",
+      deviceId: 1,
+      identityKey: bob.identityKey,
+      deliveryToken: "t".repeat(32)
+    });
+    assert.equal(registered.status, 200);
+    const listed = await alice.request("GET", "/v1/devices/bob", undefined, { signed: false });
+    assert.deepEqual(Object.keys(listed.body).sort(), ["devices", "id", "links"]);
+  });
+
+  it("keeps a linked device's key", async () => {
+    const impostor = new TestDevice(relay.url, "alice", 2);
+    assert.equal((await alice.link(impostor)).status, 409);
+  });
+});
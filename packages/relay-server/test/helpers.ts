@@ -0,0 +1,223 @@
+import { randomBytes } from "node:crypto";
+import { mkdtempSync, rmSync } from "node:fs";
+import type { AddressInfo } from "node:net";
+import os from "node:os";
+import path from "node:path";
+import { PrivateKey } from "@signalapp/libsignal-client";
+import { WebSocket, type RawData } from "ws";
+import {
+  RelayAuthHeaders,
+  buildDeviceLinkMessage,
+  buildRelayAuthMessage,
+  encodeRelayAck,
+  parseRelayMessageFrame,
+  KYBER_PUBLIC_KEY_LENGTH,
+  SIGNATURE_LENGTH,
+  type Envelope,
+  type RelayMessageFrame
+} from "@mega/shared";
+import { createRelay, relayOptionsFromEnv, type Relay } from "../src/relay";
+
+export type TestRelay = {
+  relay: Relay;
+  url: string;
+  stop: () => void;
+};
+
+// A relay on a random local port with its own database; `env` overrides RELAY_* settings.
+export async function startRelay(env: NodeJS.ProcessEnv = {}): Promise<TestRelay> {
+  const dir = mkdtempSync(path.join(os.tmpdir(), "mega-relay-test-"));
+  const relay = createRelay(relayOptionsFromEnv({ RELAY_DB: path.join(dir, "relay.db"), ...env }));
+  await new Promise<void>((resolve) => relay.server.listen(0, "127.0.0.1", resolve));
+  const { port } = relay.server.address() as AddressInfo;
+  return {
+    relay,
+    url: `http://127.0.0.1:${port}`,
+    stop: () => {
+      relay.close();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  };
+}
+
+export async function diagnostics(relay: TestRelay): Promise<any> {
+  return await (await fetch(`${relay.url}/diagnostics`)).json();
+}
+
+// Acks are fire-and-forget frames, so tests poll for their effect.
+export async function eventually(check: () => Promise<boolean>, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await check())) {
+    if (Date.now() > deadline) throw new Error(`Condition not met within ${timeoutMs}ms.`);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+export type TestResponse = {
+  status: number;
+  headers: Headers;
+  body: any;
+};
+
+// A device with a bare identity key pair, signing requests the way SignalClient does.
+export class TestDevice {
+  readonly key = PrivateKey.generate();
+
+  constructor(
+    readonly relayUrl: string,
+    readonly id: string,
+    readonly deviceId = 1
+  ) {}
+
+  get identityKey(): string {
+    return Buffer.from(this.key.getPublicKey().serialize()).toString("base64");
+  }
+
+  sign(message: Uint8Array): string {
+    return Buffer.from(this.key.sign(message)).toString("base64");
+  }
+
+  authHeaders(method: string, pathname: string, body: string | Uint8Array = ""): Record<string, string> {
+    const timestamp = Date.now();
+    const message = buildRelayAuthMessage({ method, path: pathname, id: this.id, deviceId: this.deviceId, timestamp, body });
+    return {
+      [RelayAuthHeaders.id]: this.id,
+      [RelayAuthHeaders.device]: String(this.deviceId),
+      [RelayAuthHeaders.timestamp]: String(timestamp),
+      [RelayAuthHeaders.signature]: this.sign(message)
+    };
+  }
+
+  async request(
+    method: string,
+    route: string,
+    body?: unknown,
+    options: { signed?: boolean } = {}
+  ): Promise<TestResponse> {
+    const raw = body === undefined ? "" : Buffer.isBuffer(body) ? new Uint8Array(body) : JSON.stringify(body);
+    const headers: Record<string, string> = {};
+    if (body !== undefined) headers["Content-Type"] = Buffer.isBuffer(body) ? "application/octet-stream" : "application/json";
+    const url = new URL(route, this.relayUrl);
+    if (options.signed ?? true) Object.assign(headers, this.authHeaders(method, url.pathname, raw));
+    const res = await fetch(url, { method, headers, body: body === undefined ? undefined : raw });
+    const text = await res.text();
+    return { status: res.status, headers: res.headers, body: text ? JSON.parse(text) : undefined };
+  }
+
+  async register(): Promise<void> {
+    const res = await this.request("POST", "/v1/register", {
+      id: this.id,
+      deviceId: this.deviceId,
+      identityKey: this.identityKey
+    });
+    if (res.status !== 200) throw new Error(`register ${this.id}: ${res.status} ${JSON.stringify(res.body)}`);
+  }
+
+  // Links `other` to this device's id, signing the link as the client does.
+  async link(other: TestDevice, signer: TestDevice = this): Promise<TestResponse> {
+    const body = { id: this.id, deviceId: other.deviceId, identityKey: other.identityKey };
+    const signature = signer.sign(buildDeviceLinkMessage({ ...body, linkedBy: this.deviceId }));
+    return await this.request("POST", "/v1/devices", { ...body, signature });
+  }
+
+  // A batch upload with one-time prekeys `keyIds`. The relay checks key lengths and type
+  // bytes but not signatures, so the signed and Kyber prekeys are random.
+  preKeyUpload(keyIds: number[], signedPreKeyId = 1) {
+    const ecKey = () => Buffer.from(PrivateKey.generate().getPublicKey().serialize()).toString("base64");
+    const signature = () => randomBytes(SIGNATURE_LENGTH).toString("base64");
+    const kyberKey = Buffer.concat([Buffer.from([0x08]), randomBytes(KYBER_PUBLIC_KEY_LENGTH - 1)]).toString("base64");
+    return {
+      id: this.id,
+      bundle: {
+        id: this.id,
+        deviceId: this.deviceId,
+        registrationId: 1,
+        identityKey: this.identityKey,
+        signedPreKey: { keyId: signedPreKeyId, publicKey: ecKey(), signature: signature() },
+        kyberPreKey: { keyId: 1, publicKey: kyberKey, signature: signature() }
+      },
+      preKeys: keyIds.map((keyId) => ({ keyId, publicKey: ecKey() }))
+    };
+  }
+
+  // The relay never decrypts, so any base64 body will do.
+  envelope(to: string, overrides: Partial<Envelope> = {}): Envelope {
+    return {
+      version: 1,
+      senderId: this.id,
+      senderDeviceId: this.deviceId,
+      recipientId: to,
+      recipientDeviceId: 1,
+      sessionId: "test",
+      type: 1,
+      body: Buffer.from("ciphertext").toString("base64"),
+      timestamp: Date.now(),
+      ...overrides
+    };
+  }
+
+  async send(to: string, overrides: Partial<Envelope> = {}): Promise<TestResponse> {
+    return await this.request("POST", "/v1/messages", { from: this.id, to, envelope: this.envelope(to, overrides) });
+  }
+
+  async connect(): Promise<TestSocket> {
+    const url = new URL(`/ws?client_id=${encodeURIComponent(this.id)}`, this.relayUrl.replace(/^http/, "ws"));
+    const ws = new WebSocket(url, { headers: this.authHeaders("GET", "/ws") });
+    const socket = new TestSocket(ws);
+    await new Promise<void>((resolve, reject) => {
+      ws.once("open", () => resolve());
+      ws.once("error", reject);
+    });
+    return socket;
+  }
+}
+
+// Buffers pushed frames so tests can take them in order.
+export class TestSocket {
+  private readonly frames: RelayMessageFrame[] = [];
+  private waiting: ((frame: RelayMessageFrame) => void) | undefined;
+
+  constructor(readonly ws: WebSocket) {
+    ws.on("message", (data: RawData) => {
+      const frame = parseRelayMessageFrame(JSON.parse(data.toString()));
+      if (this.waiting) this.waiting(frame);
+      else this.frames.push(frame);
+    });
+  }
+
+  async next(timeoutMs = 2000): Promise<RelayMessageFrame> {
+    const queued = this.frames.shift();
+    if (queued) return queued;
+    return await new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.waiting = undefined;
+        reject(new Error(`No frame within ${timeoutMs}ms.`));
+      }, timeoutMs);
+      this.waiting = (frame) => {
+        clearTimeout(timer);
+        this.waiting = undefined;
+        resolve(frame);
+      };
+    });
+  }
+
+  // Resolves to true when nothing arrives within `ms`.
+  async quiet(ms = 200): Promise<boolean> {
+    return await this.next(ms).then(
+      () => false,
+      () => true
+    );
+  }
+
+  ack(id: string): void {
+    this.ws.send(encodeRelayAck(id));
+  }
+
+  async close(): Promise<void> {
+    if (this.ws.readyState === WebSocket.CLOSED) return;
+    await new Promise<void>((resolve) => {
+      this.ws.once("close", () => resolve());
+      this.ws.close();
+    });
+  }
+}
@@ -0,0 +1,44 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { startRelay, TestDevice, type TestRelay } from "./helpers";
+
+describe("identified sends", () => {
+  let relay: TestRelay;
+  let alice: TestDevice;
+  let bob: TestDevice;
+  let mallory: TestDevice;
+
+  before(async () => {
+    relay = await startRelay();
+    alice = new TestDevice(relay.url, "alice");
+    bob = new TestDevice(relay.url, "bob");
+    mallory = new TestDevice(relay.url, "mallory");
+    for (const device of [alice, bob, mallory]) await device.register();
+  });
+
+  after(() => relay.stop());
+
+  it("refuses envelopes naming someone other than the caller as sender", async () => {
+    const res = await mallory.send("bob", { senderId: "alice" });
+    assert.equal(res.status, 403);
+    assert.match(res.body.error, /Envelope sender/);
+  });
+
+  it("refuses envelopes addressed to someone other than the recipient", async () => {
+    const res = await mallory.send("bob", { recipientId: "alice" });
+    assert.equal(res.status, 403);
+    assert.match(res.body.error, /Envelope recipient/);
+  });
+
+  it("queues an envelope that matches the caller and recipient", async () => {
+    const res = await alice.send("bob");
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body, { ok: true, queued: true, delivered: false });
+
+    const socket = await bob.connect();
+    const frame = await socket.next();
+    assert.equal(frame.from, "alice");
+    assert.equal(frame.envelope.recipientId, "bob");
+    await socket.close();
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Counter, Histogram, renderFamily } from "../src/metrics";
+
+describe("prometheus exposition", () => {
+  it("renders labelled counters and escapes label values", () => {
+    const counter = new Counter("mega_test_total", "Test counter.");
+    counter.inc({ reason: "quota" });
+    counter.inc({ reason: "quota" }, 2);
+    counter.inc({ reason: 'say "hi"' });
+
+    assert.equal(
+      counter.render(),
+      [
+        "# HELP mega_test_total Test counter.",
+        "# TYPE mega_test_total counter",
+        'mega_test_total{reason="quota"} 3',
+        'mega_test_total{reason="say \\"hi\\""} 1'
+      ].join("\n")
+    );
+  });
+
+  it("renders cumulative histogram buckets with sum and count", () => {
+    const histogram = new Histogram("mega_test_seconds", "Test latency.", [0.1, 1]);
+    histogram.observe({ route: "/v1/messages" }, 0.05);
+    histogram.observe({ route: "/v1/messages" }, 0.5);
+    histogram.observe({ route: "/v1/messages" }, 3);
+
+    const lines = histogram.render().split("\n");
+    assert.ok(lines.includes('mega_test_seconds_bucket{route="/v1/messages",le="0.1"} 1'));
+    assert.ok(lines.includes('mega_test_seconds_bucket{route="/v1/messages",le="1"} 2'));
+    assert.ok(lines.includes('mega_test_seconds_bucket{route="/v1/messages",le="+Inf"} 3'));
+    assert.ok(lines.includes('mega_test_seconds_sum{route="/v1/messages"} 3.55'));
+    assert.ok(lines.includes('mega_test_seconds_count{route="/v1/messages"} 3'));
+  });
+
+  it("renders unlabelled gauges", () => {
+    assert.equal(
+      renderFamily("mega_test_users", "Users.", "gauge", [{ value: 4 }]),
+      "# HELP mega_test_users Users.\n# TYPE mega_test_users gauge\nmega_test_users 4"
+    );
+  });
+});
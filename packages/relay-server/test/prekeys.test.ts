@@ -0,0 +1,72 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { startRelay, TestDevice, type TestRelay } from "./helpers";
+
+describe("prekey pool", () => {
+  let relay: TestRelay;
+  let alice: TestDevice;
+  let bob: TestDevice;
+
+  before(async () => {
+    relay = await startRelay({ RELAY_PREKEY_FETCH_RATE_PER_MIN: "60", RELAY_PREKEY_FETCH_BURST: "5" });
+    alice = new TestDevice(relay.url, "alice");
+    bob = new TestDevice(relay.url, "bob");
+    await alice.register();
+    await bob.register();
+  });
+
+  after(() => relay.stop());
+
+  const oneTimeLeft = async () => (await bob.request("GET", "/v1/prekeys/bob/status")).body.oneTimePreKeys;
+
+  it("hands out each one-time prekey once, then signed-prekey-only bundles, until refilled", async () => {
+    const upload = await bob.request("POST", "/v1/prekeys", bob.preKeyUpload([3, 1, 2]));
+    assert.deepEqual(upload.body, { ok: true, accepted: 3 });
+    assert.equal(await oneTimeLeft(), 3);
+
+    const taken: number[] = [];
+    for (let i = 0; i < 3; i += 1) {
+      const res = await alice.request("GET", "/v1/prekeys/bob?device=1");
+      assert.equal(res.status, 200);
+      taken.push(res.body.bundle.preKey.keyId);
+    }
+    assert.deepEqual(taken, [1, 2, 3]);
+    // Clients refill once the count the status route reports drops below their low-water mark.
+    assert.equal(await oneTimeLeft(), 0);
+
+    const drained = await alice.request("GET", "/v1/prekeys/bob?device=1");
+    assert.equal(drained.status, 200);
+    assert.equal(drained.body.bundle.preKey, undefined);
+    assert.equal(drained.body.bundle.signedPreKey.keyId, 1);
+
+    // Keys already in the pool are not duplicated by a repeated upload.
+    await bob.request("POST", "/v1/prekeys", bob.preKeyUpload([4, 5]));
+    await bob.request("POST", "/v1/prekeys", bob.preKeyUpload([5]));
+    assert.equal(await oneTimeLeft(), 2);
+    const refilled = await alice.request("GET", "/v1/prekeys/bob");
+    assert.equal(refilled.body.bundle.preKey.keyId, 4);
+    assert.deepEqual(
+      refilled.body.bundles.map((bundle: { deviceId: number }) => bundle.deviceId),
+      [1]
+    );
+    assert.equal(await oneTimeLeft(), 1);
+  });
+
+  it("requires a signed request and limits fetches per requester", async () => {
+    const anonymous = await alice.request("GET", "/v1/prekeys/bob?device=1", undefined, { signed: false });
+    assert.equal(anonymous.status, 401);
+
+    const carol = new TestDevice(relay.url, "carol");
+    await carol.register();
+    const statuses: number[] = [];
+    for (let i = 0; i < 6; i += 1) statuses.push((await carol.request("GET", "/v1/prekeys/bob?device=1")).status);
+    assert.deepEqual(statuses, [200, 200, 200, 200, 200, 429]);
+    const limited = await carol.request("GET", "/v1/prekeys/bob?device=1");
+    assert.ok(Number(limited.headers.get("retry-after")) > 0);
+
+    // Someone else's bucket is untouched.
+    const other = new TestDevice(relay.url, "dave");
+    await other.register();
+    assert.equal((await other.request("GET", "/v1/prekeys/bob?device=1")).status, 200);
+  });
+});
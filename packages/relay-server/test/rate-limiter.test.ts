@@ -0,0 +1,60 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { RateLimiter } from "../src/rate-limiter";
+
+describe("rate limiter", () => {
+  it("allows a burst, then refuses with the seconds until the next token", () => {
+    const limiter = new RateLimiter(6, 3);
+    const now = 1_000_000;
+    assert.deepEqual(
+      [1, 2, 3].map(() => limiter.take("alice", now)),
+      [0, 0, 0]
+    );
+    assert.equal(limiter.take("alice", now), 10);
+    assert.equal(limiter.take("alice", now + 4_000), 6);
+    assert.equal(limiter.throttled, 2);
+  });
+
+  it("refills at the per-minute rate up to the burst", () => {
+    const limiter = new RateLimiter(6, 3);
+    const now = 1_000_000;
+    for (let i = 0; i < 3; i += 1) limiter.take("alice", now);
+
+    assert.equal(limiter.take("alice", now + 10_000), 0);
+    assert.ok(limiter.take("alice", now + 10_000) > 0);
+
+    // An hour idle refills to the burst, not past it.
+    const later = now + 3_600_000;
+    assert.deepEqual(
+      [1, 2, 3, 4].map(() => limiter.take("alice", later)),
+      [0, 0, 0, 10]
+    );
+  });
+
+  it("keeps a bucket per key", () => {
+    const limiter = new RateLimiter(6, 1);
+    const now = 1_000_000;
+    assert.equal(limiter.take("alice", now), 0);
+    assert.ok(limiter.take("alice", now) > 0);
+    assert.equal(limiter.take("bob", now), 0);
+    assert.equal(limiter.tracked, 2);
+  });
+
+  it("prunes only buckets that have refilled", () => {
+    const limiter = new RateLimiter(6, 2);
+    const now = 1_000_000;
+    limiter.take("alice", now);
+    limiter.take("bob", now + 9_000);
+
+    limiter.prune(now + 10_000);
+    assert.equal(limiter.tracked, 1);
+    limiter.prune(now + 19_000);
+    assert.equal(limiter.tracked, 0);
+  });
+
+  it("never limits when the rate is not positive", () => {
+    const limiter = new RateLimiter(0, 0);
+    for (let i = 0; i < 100; i += 1) assert.equal(limiter.take("alice"), 0);
+    assert.equal(limiter.tracked, 0);
+  });
+});
@@ -0,0 +1,83 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { diagnostics, startRelay, TestDevice, type TestRelay } from "./helpers";
+
+describe("expiry sweep", () => {
+  let relay: TestRelay;
+  let alice: TestDevice;
+  let bob: TestDevice;
+
+  before(async () => {
+    relay = await startRelay({ RELAY_MESSAGE_TTL_MS: "60000" });
+    alice = new TestDevice(relay.url, "alice");
+    bob = new TestDevice(relay.url, "bob");
+    await alice.register();
+    await bob.register();
+  });
+
+  after(() => relay.stop());
+
+  const counts = async () => {
+    const snapshot = await diagnostics(relay);
+    return { queued: snapshot.counts.queuedMessages, expired: snapshot.purged.expired };
+  };
+
+  it("drops undelivered messages once they pass the relay TTL", async () => {
+    await alice.send("bob");
+    const sentAt = Date.now();
+    relay.relay.sweep(sentAt + 30_000);
+    assert.deepEqual(await counts(), { queued: 1, expired: 0 });
+
+    relay.relay.sweep(sentAt + 60_001);
+    assert.deepEqual(await counts(), { queued: 0, expired: 1 });
+  });
+
+  it("drops a message at its own expiry when that comes before the TTL", async () => {
+    const expiresAt = Date.now() + 10_000;
+    await alice.send("bob", { expiresAt });
+    relay.relay.sweep(expiresAt - 1);
+    assert.equal((await counts()).queued, 1);
+
+    relay.relay.sweep(expiresAt);
+    assert.deepEqual(await counts(), { queued: 0, expired: 2 });
+
+    const socket = await bob.connect();
+    assert.ok(await socket.quiet());
+    await socket.close();
+  });
+
+  it("refuses an envelope that has already expired", async () => {
+    const res = await alice.send("bob", { expiresAt: Date.now() - 1 });
+    assert.equal(res.status, 400);
+    assert.match(res.body.error, /already expired/);
+  });
+});
+
+describe("redelivery", () => {
+  it("pushes an un-acked message again to a connected device once the ack is overdue", async () => {
+    const relay = await startRelay({ RELAY_ACK_TIMEOUT_MS: "30000" });
+    try {
+      const alice = new TestDevice(relay.url, "alice");
+      const bob = new TestDevice(relay.url, "bob");
+      await alice.register();
+      await bob.register();
+      const socket = await bob.connect();
+      await alice.send("bob");
+      const first = await socket.next();
+
+      await relay.relay.redeliverUnacked(Date.now() + 10_000);
+      assert.ok(await socket.quiet());
+
+      await relay.relay.redeliverUnacked(Date.now() + 30_001);
+      assert.equal((await socket.next()).id, first.id);
+
+      socket.ack(first.id);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      await relay.relay.redeliverUnacked(Date.now() + 60_000);
+      assert.ok(await socket.quiet());
+      await socket.close();
+    } finally {
+      relay.stop();
+    }
+  });
+});
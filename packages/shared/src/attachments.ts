@@ -0,0 +1,51 @@
+import { z } from "zod";
+
+export const ATTACHMENT_MESSAGE_TYPE = "mega.attachments.v1";
+export const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+
+// Everything a recipient needs to fetch and open one blob. Only `id` is known to the
+// relay; the rest travels inside the Signal message.
+export const AttachmentPointerSchema = z.object({
+  id: z.string().min(1),
+  // Base64 AES-256-GCM key, fresh per attachment.
+  key: z.string().min(1),
+  // Base64 SHA-256 of the uploaded ciphertext, checked before decrypting.
+  digest: z.string().min(1),
+  // Plaintext length in bytes.
+  size: z.number().int().nonnegative(),
+  // A bare name: no directory parts, so receivers can write it as-is.
+  fileName: z
+    .string()
+    .min(1)
+    .max(255)
+    .regex(/^(?!\.{1,2}$)[^/\\]+$/)
+    .optional()
+});
+
+// Plaintext of a message that carries attachments. Messages without attachments stay
+// plain strings, so existing clients and the sysmaint protocol are unaffected.
+export const AttachmentMessageSchema = z.object({
+  type: z.literal(ATTACHMENT_MESSAGE_TYPE),
+  text: z.string(),
+  attachments: z.array(AttachmentPointerSchema).min(1).max(MAX_ATTACHMENTS_PER_MESSAGE)
+});
+
+export type AttachmentPointer = z.infer<typeof AttachmentPointerSchema>;
+export type AttachmentMessage = z.infer<typeof AttachmentMessageSchema>;
+
+export function encodeAttachmentMessage(text: string, attachments: AttachmentPointer[]): string {
+  const message: AttachmentMessage = { type: ATTACHMENT_MESSAGE_TYPE, text, attachments };
+  return JSON.stringify(AttachmentMessageSchema.parse(message));
+}
+
+// Returns undefined for anything that is not an attachment message, including plain text.
+export function parseAttachmentMessage(plaintext: string): AttachmentMessage | undefined {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(plaintext);
+  } catch {
+    return undefined;
+  }
+  const result = AttachmentMessageSchema.safeParse(parsed);
+  return result.success ? result.data : undefined;
+}
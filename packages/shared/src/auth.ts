@@ -0,0 +1,62 @@
+import { createHash } from "node:crypto";
+
+export const RELAY_AUTH_VERSION = "mega-relay-auth:v1";
+
+export const RelayAuthHeaders = {
+  id: "x-mega-id",
+  device: "x-mega-device",
+  timestamp: "x-mega-timestamp",
+  signature: "x-mega-signature"
+} as const;
+
+export type RelayAuthRequest = {
+  method: string;
+  path: string;
+  id: string;
+  deviceId: number;
+  timestamp: number;
+  // Raw bytes for binary uploads such as attachments.
+  body: string | Uint8Array;
+};
+
+export function hashRelayBody(body: string | Uint8Array): string {
+  const hash = createHash("sha256");
+  if (typeof body === "string") hash.update(body, "utf8");
+  else hash.update(body);
+  return hash.digest("base64");
+}
+
+// Canonical string signed with the identity key; the relay rebuilds it from the
+// received request and verifies the signature against the registered key.
+export function buildRelayAuthMessage(request: RelayAuthRequest): Uint8Array {
+  const canonical = [
+    RELAY_AUTH_VERSION,
+    request.method.toUpperCase(),
+    request.path,
+    request.id,
+    String(request.deviceId),
+    String(request.timestamp),
+    hashRelayBody(request.body)
+  ].join("\n");
+  return new TextEncoder().encode(canonical);
+}
+
+export const DEVICE_LINK_VERSION = "mega-device-link:v1";
+
+export type DeviceLink = {
+  id: string;
+  deviceId: number;
+  // Base64 identity key of the device being linked.
+  identityKey: string;
+  // The device whose identity key signs the link.
+  linkedBy: number;
+};
+
+// Signed by an existing device's identity key when it links a new one. Peers check the
+// chain of links back to a device they already know, so the relay cannot add a device.
+export function buildDeviceLinkMessage(link: DeviceLink): Uint8Array {
+  const canonical = [DEVICE_LINK_VERSION, link.id, String(link.deviceId), link.identityKey, String(link.linkedBy)].join(
+    "\n"
+  );
+  return new TextEncoder().encode(canonical);
+}
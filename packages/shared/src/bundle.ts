@@ -0,0 +1,62 @@
+import { Buffer } from "node:buffer";
+import { z } from "zod";
+
+// Serialized libsignal keys start with a type byte: 0x05 for Curve25519, 0x08 for Kyber1024.
+export const EC_PUBLIC_KEY_LENGTH = 33;
+export const KYBER_PUBLIC_KEY_LENGTH = 1569;
+export const SIGNATURE_LENGTH = 64;
+const EC_KEY_TYPE = 0x05;
+const KYBER_KEY_TYPE = 0x08;
+
+const BASE64 = /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+
+// Checks the decoded length, and the type byte when given, so a truncated or mislabelled
+// key fails here with a readable message instead of deep inside libsignal.
+function base64Bytes(label: string, length: number, keyType?: number) {
+  return z.string().superRefine((value, ctx) => {
+    if (!BASE64.test(value)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${label} is not base64.` });
+      return;
+    }
+    const bytes = Buffer.from(value, "base64");
+    if (bytes.length !== length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${label} is ${bytes.length} bytes, expected ${length}.` });
+      return;
+    }
+    if (keyType !== undefined && bytes[0] !== keyType) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${label} has key type ${bytes[0]}, expected ${keyType}.` });
+    }
+  });
+}
+
+export const EcPublicKeySchema = base64Bytes("Public key", EC_PUBLIC_KEY_LENGTH, EC_KEY_TYPE);
+export const KyberPublicKeySchema = base64Bytes("Kyber public key", KYBER_PUBLIC_KEY_LENGTH, KYBER_KEY_TYPE);
+export const SignatureSchema = base64Bytes("Signature", SIGNATURE_LENGTH);
+
+export const OneTimePreKeySchema = z.object({
+  keyId: z.number().int().nonnegative(),
+  publicKey: EcPublicKeySchema
+});
+
+// What one device publishes so others can start a session with it. Both signatures are
+// by the identity key; only signal-core can check them, since that needs libsignal.
+export const BundleSchema = z.object({
+  id: z.string().min(1),
+  deviceId: z.number().int().positive(),
+  registrationId: z.number().int().positive(),
+  identityKey: EcPublicKeySchema,
+  signedPreKey: z.object({
+    keyId: z.number().int().nonnegative(),
+    publicKey: EcPublicKeySchema,
+    signature: SignatureSchema
+  }),
+  preKey: OneTimePreKeySchema.optional(),
+  kyberPreKey: z.object({
+    keyId: z.number().int().nonnegative(),
+    publicKey: KyberPublicKeySchema,
+    signature: SignatureSchema
+  })
+});
+
+export type OneTimePreKey = z.infer<typeof OneTimePreKeySchema>;
+export type Bundle = z.infer<typeof BundleSchema>;
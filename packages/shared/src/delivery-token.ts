@@ -0,0 +1,29 @@
+import { z } from "zod";
+
+export const DELIVERY_TOKEN_MESSAGE_TYPE = "mega.delivery-token.v1";
+
+// Plaintext that hands the sender's delivery token to a peer device, so only peers it
+// has messaged can send to it sealed. Clients store it on receipt and show nothing.
+export const DeliveryTokenMessageSchema = z.object({
+  type: z.literal(DELIVERY_TOKEN_MESSAGE_TYPE),
+  token: z.string().min(16).max(128)
+});
+
+export type DeliveryTokenMessage = z.infer<typeof DeliveryTokenMessageSchema>;
+
+export function encodeDeliveryTokenMessage(token: string): string {
+  const message: DeliveryTokenMessage = { type: DELIVERY_TOKEN_MESSAGE_TYPE, token };
+  return JSON.stringify(DeliveryTokenMessageSchema.parse(message));
+}
+
+// Returns undefined for anything that is not a delivery token message.
+export function parseDeliveryTokenMessage(plaintext: string): DeliveryTokenMessage | undefined {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(plaintext);
+  } catch {
+    return undefined;
+  }
+  const result = DeliveryTokenMessageSchema.safeParse(parsed);
+  return result.success ? result.data : undefined;
+}
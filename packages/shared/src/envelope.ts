@@ -1,17 +1,51 @@
 import { z } from "zod";
 
+// Base64 ciphertext cap; larger payloads belong outside the envelope.
+export const ENVELOPE_BODY_MAX_LENGTH = 64 * 1024;
+
 export const EnvelopeSchema = z.object({
   version: z.number().int().positive(),
   senderId: z.string().min(1),
+  senderDeviceId: z.number().int().positive().optional(),
   recipientId: z.string().min(1),
+  recipientDeviceId: z.number().int().positive().optional(),
   sessionId: z.string().min(1),
   type: z.number().int().nonnegative(),
-  body: z.string().min(1),
-  timestamp: z.number().int().positive()
+  body: z.string().min(1).max(ENVELOPE_BODY_MAX_LENGTH),
+  timestamp: z.number().int().positive(),
+  // Sender-requested expiry (epoch ms); the relay drops the message if still queued by then.
+  expiresAt: z.number().int().positive().optional(),
+  // Set on group traffic: sender-key messages (fanned out by the relay) and the pairwise
+  // messages that hand each member the sender key.
+  groupId: z.string().min(1).optional()
+});
+
+// Sealed-sender envelope: who sent it is only inside `body`, encrypted to the recipient
+// together with a relay-issued sender certificate.
+export const SealedEnvelopeSchema = z.object({
+  version: z.number().int().positive(),
+  sealed: z.literal(true),
+  recipientId: z.string().min(1),
+  recipientDeviceId: z.number().int().positive().optional(),
+  body: z.string().min(1).max(ENVELOPE_BODY_MAX_LENGTH),
+  timestamp: z.number().int().positive(),
+  expiresAt: z.number().int().positive().optional()
 });
 
+export const RelayEnvelopeSchema = z.union([SealedEnvelopeSchema, EnvelopeSchema]);
+
 export type Envelope = z.infer<typeof EnvelopeSchema>;
+export type SealedEnvelope = z.infer<typeof SealedEnvelopeSchema>;
+export type RelayEnvelope = Envelope | SealedEnvelope;
 
 export function parseEnvelope(input: unknown): Envelope {
   return EnvelopeSchema.parse(input);
 }
+
+export function parseRelayEnvelope(input: unknown): RelayEnvelope {
+  return RelayEnvelopeSchema.parse(input);
+}
+
+export function isSealedEnvelope(envelope: RelayEnvelope): envelope is SealedEnvelope {
+  return "sealed" in envelope && envelope.sealed === true;
+}
@@ -0,0 +1,29 @@
+import { z } from "zod";
+import { RelayEnvelopeSchema } from "./envelope.js";
+
+// Relay -> client: one queued message, identified by the relay's message id.
+// `from` is absent for sealed-sender envelopes; the relay never learns it.
+export const RelayMessageFrameSchema = z.object({
+  id: z.string().min(1),
+  from: z.string().min(1).optional(),
+  to: z.string().min(1),
+  envelope: RelayEnvelopeSchema
+});
+
+// Client -> relay: sent once the message has been decrypted and persisted locally.
+export const RelayAckFrameSchema = z.object({
+  type: z.literal("ack"),
+  id: z.string().min(1)
+});
+
+export type RelayMessageFrame = z.infer<typeof RelayMessageFrameSchema>;
+export type RelayAckFrame = z.infer<typeof RelayAckFrameSchema>;
+
+export function parseRelayMessageFrame(input: unknown): RelayMessageFrame {
+  return RelayMessageFrameSchema.parse(input);
+}
+
+export function encodeRelayAck(id: string): string {
+  const frame: RelayAckFrame = { type: "ack", id };
+  return JSON.stringify(frame);
+}
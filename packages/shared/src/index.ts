@@ -1 +1,9 @@
 export * from "./envelope.js";
+export * from "./auth.js";
+export * from "./frames.js";
+export * from "./attachments.js";
+export * from "./receipts.js";
+export * from "./delivery-token.js";
+export * from "./migrations.js";
+export * from "./bundle.js";
+export * from "./relay-api.js";
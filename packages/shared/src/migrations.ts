@@ -0,0 +1,85 @@
+// The subset of better-sqlite3's Database the runner uses, so this package needs no driver.
+export type MigrationDatabase = {
+  exec(sql: string): unknown;
+  prepare(sql: string): {
+    get(...params: unknown[]): unknown;
+    all(...params: unknown[]): unknown[];
+    run(...params: unknown[]): unknown;
+  };
+  transaction(fn: () => void): () => void;
+};
+
+export type Migration = {
+  // 1, 2, 3, ... with no gaps; never renumber or edit one that has shipped.
+  version: number;
+  name: string;
+  up: (db: MigrationDatabase) => void;
+};
+
+export type MigrationResult = {
+  from: number;
+  to: number;
+};
+
+// Opening a database written by a newer build would let this one misread or damage it.
+export class SchemaTooNewError extends Error {
+  constructor(
+    readonly component: string,
+    readonly version: number,
+    readonly supported: number
+  ) {
+    super(`${component} schema is at version ${version}, newer than this build supports (${supported}). Upgrade first.`);
+    this.name = "SchemaTooNewError";
+  }
+}
+
+// Several components may share one database file (the agent and web console share the
+// state DB), so versions are tracked per component.
+const SCHEMA_VERSION_TABLE =
+  "CREATE TABLE IF NOT EXISTS schema_version (" +
+  "component TEXT NOT NULL," +
+  "version INTEGER NOT NULL," +
+  "name TEXT NOT NULL," +
+  "applied_at INTEGER NOT NULL," +
+  "PRIMARY KEY (component, version)" +
+  ")";
+
+export function schemaVersion(db: MigrationDatabase, component: string): number {
+  db.exec(SCHEMA_VERSION_TABLE);
+  const row = db.prepare("SELECT MAX(version) AS version FROM schema_version WHERE component = ?").get(component) as
+    | { version: number | null }
+    | undefined;
+  return row?.version ?? 0;
+}
+
+// Forward only: applies each migration newer than the recorded version in its own
+// transaction, together with its schema_version row, so a failure leaves the database at
+// the last version that completed.
+export function migrate(db: MigrationDatabase, component: string, migrations: Migration[]): MigrationResult {
+  migrations.forEach((migration, index) => {
+    if (migration.version !== index + 1) {
+      throw new Error(`${component} migration ${migration.name} is numbered ${migration.version}, expected ${index + 1}.`);
+    }
+  });
+  const latest = migrations.length;
+  const from = schemaVersion(db, component);
+  if (from > latest) throw new SchemaTooNewError(component, from, latest);
+
+  const record = db.prepare("INSERT INTO schema_version (component, version, name, applied_at) VALUES (?, ?, ?, ?)");
+  for (const migration of migrations.slice(from)) {
+    db.transaction(() => {
+      migration.up(db);
+      record.run(component, migration.version, migration.name, Date.now());
+    })();
+  }
+  return { from, to: latest };
+}
+
+// For migrations that must also bring up to date databases created before versioning,
+// which may already have the column.
+export function ensureColumn(db: MigrationDatabase, table: string, column: string, definition: string): void {
+  const rows = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!rows.some((row) => row.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
@@ -0,0 +1,36 @@
+import { z } from "zod";
+
+export const RECEIPT_MESSAGE_TYPE = "mega.receipt.v1";
+export const MAX_RECEIPT_TIMESTAMPS = 100;
+
+// "read" implies "delivered"; a client that shows a message at once may skip straight to it.
+export const ReceiptTypeSchema = z.enum(["delivered", "read"]);
+
+// Plaintext of a receipt for messages that carry no id of their own (CLI text and
+// attachment messages). They are named by the envelope timestamps the sender stamped,
+// so a receipt is only meaningful to the original sender.
+export const ReceiptMessageSchema = z.object({
+  type: z.literal(RECEIPT_MESSAGE_TYPE),
+  receipt: ReceiptTypeSchema,
+  timestamps: z.array(z.number().int().positive()).min(1).max(MAX_RECEIPT_TIMESTAMPS)
+});
+
+export type ReceiptType = z.infer<typeof ReceiptTypeSchema>;
+export type ReceiptMessage = z.infer<typeof ReceiptMessageSchema>;
+
+export function encodeReceiptMessage(receipt: ReceiptType, timestamps: number[]): string {
+  const message: ReceiptMessage = { type: RECEIPT_MESSAGE_TYPE, receipt, timestamps };
+  return JSON.stringify(ReceiptMessageSchema.parse(message));
+}
+
+// Returns undefined for anything that is not a receipt.
+export function parseReceiptMessage(plaintext: string): ReceiptMessage | undefined {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(plaintext);
+  } catch {
+    return undefined;
+  }
+  const result = ReceiptMessageSchema.safeParse(parsed);
+  return result.success ? result.data : undefined;
+}
@@ -0,0 +1,155 @@
+import { z } from "zod";
+
+// Response bodies of the relay's HTTP API, checked by clients before use so a relay from
+// another build fails with the route and the mismatch rather than an undefined field.
+
+// Every non-2xx answer; `details` carries the validation issues of a rejected request.
+export const RelayErrorBodySchema = z.object({
+  error: z.string(),
+  details: z.unknown().optional()
+});
+
+export const RelayOkSchema = z.object({
+  ok: z.literal(true)
+});
+
+// Register and device link both answer with the device they recorded.
+export const DeviceResponseSchema = z.object({
+  id: z.string().min(1),
+  deviceId: z.number().int().positive()
+});
+
+// How a device joined its user: the first device registers on its own and every later one
+// carries the signature of the device that linked it; see buildDeviceLinkMessage.
+export const DeviceLinkEntrySchema = z.object({
+  deviceId: z.number().int().positive(),
+  identityKey: z.string().min(1),
+  linkedBy: z.number().int().positive().optional(),
+  signature: z.string().min(1).optional()
+});
+
+export const DeviceListResponseSchema = z.object({
+  id: z.string().min(1),
+  devices: z.array(z.number().int().positive()),
+  links: z.array(DeviceLinkEntrySchema)
+});
+
+export const TrustRootResponseSchema = z.object({
+  trustRoot: z.string().min(1)
+});
+
+export const SenderCertificateResponseSchema = z.object({
+  certificate: z.string().min(1),
+  expiresAt: z.number().int().positive()
+});
+
+export const PreKeyUploadResponseSchema = RelayOkSchema.extend({
+  accepted: z.number().int().nonnegative()
+});
+
+export const PreKeyStatusSchema = z.object({
+  id: z.string().min(1),
+  deviceId: z.number().int().positive(),
+  oneTimePreKeys: z.number().int().nonnegative(),
+  signedPreKeyId: z.number().int().nonnegative().nullable(),
+  signedPreKeyAgeMs: z.number().nonnegative().nullable()
+});
+
+// With ?device one bundle; without it `bundles` lists every device and `bundle` is the first.
+// Bundles are left to BundleSchema (and signature checks) so a bad one is reported as such.
+export const PreKeyBundleResponseSchema = z.object({
+  id: z.string().min(1),
+  bundle: z.unknown(),
+  bundles: z.array(z.unknown()).optional()
+});
+
+export const MessageAcceptedResponseSchema = RelayOkSchema.extend({
+  queued: z.boolean(),
+  delivered: z.boolean()
+});
+
+export const AttachmentUploadResponseSchema = z.object({
+  id: z.string().min(1),
+  size: z.number().int().nonnegative(),
+  expiresAt: z.number().int().positive()
+});
+
+export const RelayGroupSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  owner: z.string().min(1),
+  members: z.array(z.string().min(1)),
+  createdAt: z.number().int().positive()
+});
+
+export const GroupListResponseSchema = z.object({
+  groups: z.array(RelayGroupSchema)
+});
+
+export const GroupMessageResponseSchema = RelayOkSchema.extend({
+  recipients: z.number().int().nonnegative(),
+  skipped: z.number().int().nonnegative()
+});
+
+// Host metrics a diagnostics worker posts to the relay and the relay reports back.
+export const RelayMetricsSchema = z.object({
+  cpuPct: z.number().min(0),
+  memPct: z.number().min(0),
+  swapPct: z.number().min(0),
+  netInBytes: z.number().min(0),
+  netOutBytes: z.number().min(0),
+  load: z.tuple([z.number(), z.number(), z.number()]),
+  updatedAt: z.number().int().positive()
+});
+
+const RateLimitSchema = z.object({
+  perMinute: z.number(),
+  burst: z.number()
+});
+
+// Only the fields clients read are checked; the rest passes through for `--json` output.
+export const RelayDiagnosticsSchema = z
+  .object({
+    uptimeSec: z.number().int().nonnegative(),
+    dbPath: z.string(),
+    counts: z
+      .object({
+        users: z.number().int().nonnegative(),
+        devices: z.number().int().nonnegative().optional(),
+        prekeys: z.number().int().nonnegative(),
+        oneTimePreKeys: z.number().int().nonnegative().optional(),
+        queuedMessages: z.number().int().nonnegative(),
+        activeConnections: z.number().int().nonnegative(),
+        throttledRequests: z.number().int().nonnegative().optional(),
+        quotaRejections: z.number().int().nonnegative().optional()
+      })
+      .passthrough(),
+    queueDepthHistogram: z.record(z.number().int().nonnegative()),
+    rateLimits: z
+      .object({
+        sender: RateLimitSchema.passthrough(),
+        sourceAddress: RateLimitSchema.passthrough(),
+        prekeyFetch: RateLimitSchema.passthrough().optional(),
+        maxQueuedPerRecipient: z.number()
+      })
+      .optional(),
+    purged: z
+      .object({
+        acked: z.number(),
+        expired: z.number(),
+        lastSweepAt: z.number().nullable()
+      })
+      .passthrough()
+      .optional(),
+    metrics: RelayMetricsSchema.nullable()
+  })
+  .passthrough();
+
+export type RelayErrorBody = z.infer<typeof RelayErrorBodySchema>;
+export type DeviceLinkEntry = z.infer<typeof DeviceLinkEntrySchema>;
+export type DeviceListResponse = z.infer<typeof DeviceListResponseSchema>;
+export type PreKeyStatus = z.infer<typeof PreKeyStatusSchema>;
+export type PreKeyBundleResponse = z.infer<typeof PreKeyBundleResponseSchema>;
+export type RelayGroup = z.infer<typeof RelayGroupSchema>;
+export type RelayMetrics = z.infer<typeof RelayMetricsSchema>;
+export type RelayDiagnostics = z.infer<typeof RelayDiagnosticsSchema>;
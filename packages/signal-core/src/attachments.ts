@@ -0,0 +1,43 @@
+import crypto from "node:crypto";
+import { Buffer } from "node:buffer";
+import type { AttachmentPointer } from "@mega/shared";
+import { decryptBuffer, encryptBuffer } from "./crypto.js";
+
+export type EncryptedAttachment = {
+  ciphertext: Buffer;
+  key: string;
+  digest: string;
+  size: number;
+};
+
+function sha256(data: Uint8Array): Buffer {
+  return crypto.createHash("sha256").update(data).digest();
+}
+
+// AES-256-GCM under a one-off key. The relay stores only the ciphertext; key and digest
+// go to recipients inside the Signal message (see encodeAttachmentMessage).
+export function encryptAttachment(plaintext: Uint8Array): EncryptedAttachment {
+  const key = crypto.randomBytes(32);
+  const ciphertext = encryptBuffer(key, Buffer.from(plaintext));
+  return {
+    ciphertext,
+    key: key.toString("base64"),
+    digest: sha256(ciphertext).toString("base64"),
+    size: plaintext.byteLength
+  };
+}
+
+// The digest is checked first so a swapped or truncated blob is refused before decryption.
+export function decryptAttachment(
+  ciphertext: Uint8Array,
+  pointer: Pick<AttachmentPointer, "key" | "digest" | "size">
+): Buffer {
+  const expected = Buffer.from(pointer.digest, "base64");
+  const actual = sha256(ciphertext);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    throw new Error("Attachment digest mismatch.");
+  }
+  const plaintext = decryptBuffer(Buffer.from(pointer.key, "base64"), Buffer.from(ciphertext));
+  if (plaintext.length !== pointer.size) throw new Error("Attachment size mismatch.");
+  return plaintext;
+}
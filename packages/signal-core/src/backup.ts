@@ -0,0 +1,91 @@
+import { Buffer } from "node:buffer";
+import { createKdfParams, decodeValue, decryptBuffer, deriveKey, encryptBuffer, type KdfParams } from "./crypto.js";
+import type { StoreSnapshot } from "./store.js";
+
+export const BACKUP_FORMAT = "mega.signal-backup";
+export const BACKUP_VERSION = 1;
+
+// The file as written: a readable header and the snapshot encrypted under a key from the
+// backup passphrase, which is separate from the store passphrase.
+export type BackupFile = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: number;
+  localId: string;
+  deviceId: number;
+  kdf: KdfParams;
+  ciphertext: string;
+};
+
+export type BackupHeader = Pick<BackupFile, "version" | "createdAt" | "localId" | "deviceId">;
+
+// The header is repeated inside the ciphertext so an edited header is caught on restore.
+type BackupPayload = {
+  header: BackupHeader;
+  snapshot: StoreSnapshot;
+};
+
+const IDENTITY_KEY_PAIR_ROW = "local:identityKeyPair";
+
+export function encodeBackup(snapshot: StoreSnapshot, backupPassphrase: string, createdAt = Date.now()): string {
+  if (!backupPassphrase) throw new Error("Backup passphrase must not be empty.");
+  const header = validateSnapshot(snapshot, createdAt);
+  const kdf = createKdfParams();
+  const payload: BackupPayload = { header, snapshot };
+  const ciphertext = encryptBuffer(deriveKey(backupPassphrase, kdf), Buffer.from(JSON.stringify(payload), "utf8"));
+  const file: BackupFile = { format: BACKUP_FORMAT, ...header, kdf, ciphertext: ciphertext.toString("base64") };
+  return `${JSON.stringify(file, null, 2)}\n`;
+}
+
+// Checks everything before anything is written: format, passphrase (the GCM tag covers
+// the whole payload), header, and that each row still decodes.
+export function decodeBackup(text: string, backupPassphrase: string): BackupPayload {
+  let file: BackupFile;
+  try {
+    file = JSON.parse(text) as BackupFile;
+  } catch {
+    throw new Error("Not a backup file: invalid JSON.");
+  }
+  if (file?.format !== BACKUP_FORMAT) throw new Error("Not a backup file.");
+  if (file.version !== BACKUP_VERSION) throw new Error(`Unsupported backup version ${String(file.version)}.`);
+  if (!file.kdf || typeof file.ciphertext !== "string") throw new Error("Backup file is incomplete.");
+
+  let payload: BackupPayload;
+  try {
+    const plaintext = decryptBuffer(deriveKey(backupPassphrase, file.kdf), Buffer.from(file.ciphertext, "base64"));
+    payload = JSON.parse(plaintext.toString("utf8")) as BackupPayload;
+  } catch {
+    throw new Error("Wrong backup passphrase or corrupted backup.");
+  }
+  const header = validateSnapshot(payload.snapshot, payload.header?.createdAt);
+  if (!sameHeader(header, payload.header) || !sameHeader(header, file)) {
+    throw new Error("Backup header does not match its contents.");
+  }
+  return payload;
+}
+
+function sameHeader(a: BackupHeader, b: BackupHeader): boolean {
+  return a.version === b.version && a.createdAt === b.createdAt && a.localId === b.localId && a.deviceId === b.deviceId;
+}
+
+function validateSnapshot(snapshot: StoreSnapshot | undefined, createdAt: number | undefined): BackupHeader {
+  if (!snapshot || typeof snapshot.meta !== "object" || !Array.isArray(snapshot.rows)) {
+    throw new Error("Backup holds no store snapshot.");
+  }
+  const localId = snapshot.meta.localId;
+  const deviceId = snapshot.meta.deviceId ?? 1;
+  if (typeof localId !== "string" || typeof deviceId !== "number" || typeof snapshot.meta.registrationId !== "number") {
+    throw new Error("Backup holds no local identity.");
+  }
+  if (typeof createdAt !== "number") throw new Error("Backup has no creation time.");
+  for (const row of snapshot.rows) {
+    if (typeof row?.key !== "string" || typeof row.value !== "string") throw new Error("Backup has a malformed row.");
+    try {
+      decodeValue(Buffer.from(row.value, "base64").toString("utf8"));
+    } catch {
+      throw new Error(`Backup row ${row.key} does not decode.`);
+    }
+  }
+  if (!snapshot.rows.some((row) => row.key === IDENTITY_KEY_PAIR_ROW)) throw new Error("Backup holds no identity key pair.");
+  return { version: BACKUP_VERSION, createdAt, localId, deviceId };
+}
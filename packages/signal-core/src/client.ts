@@ -0,0 +1,659 @@
+import { Buffer } from "node:buffer";
+import { EventEmitter } from "node:events";
+import { WebSocket, type RawData } from "ws";
+import type { z } from "zod";
+import {
+  DeviceListResponseSchema,
+  DeviceResponseSchema,
+  MessageAcceptedResponseSchema,
+  PreKeyBundleResponseSchema,
+  PreKeyStatusSchema,
+  PreKeyUploadResponseSchema,
+  RelayErrorBodySchema,
+  SenderCertificateResponseSchema,
+  TrustRootResponseSchema,
+  encodeRelayAck,
+  type RelayEnvelope,
+  type RelayMessageFrame
+} from "@mega/shared";
+import {
+  archiveSession,
+  createRelayAuthHeaders,
+  devicesAwaitingDeliveryToken,
+  encodeDeliveryTokenMessage,
+  encryptMessageForDevices,
+  exportIdentityKey,
+  exportPreKeyUpload,
+  generatePreKeys,
+  getDeliveryToken,
+  getPeerDeliveryToken,
+  getSessionInfo,
+  getTrustRoot,
+  hasSenderCertificate,
+  initSession,
+  initializeIdentity,
+  isDuplicateMessageError,
+  isSealedEnvelope,
+  isStaleSessionError,
+  isUntrustedIdentityError,
+  listSessions,
+  loadRelayFrame,
+  markDeliveryTokenShared,
+  markPreKeysUploaded,
+  needsPreKeyRefill,
+  openEnvelope,
+  parseDeliveryTokenMessage,
+  pinTrustRoot,
+  PREKEY_BATCH_SIZE,
+  savePeerDeliveryToken,
+  saveSenderCertificate,
+  sealMessageForDevices,
+  signDeviceLink,
+  verifyBundle,
+  verifyDeviceLink,
+  InvalidBundleError,
+  type Bundle,
+  type DecryptedMessage,
+  type EncryptOptions,
+  type PreKeyRotationOptions,
+  type PreKeyRotationResult,
+  type PreKeyStatus,
+  type SignalState
+} from "./index.js";
+
+export type SignalClientOptions = {
+  // Relay base URL, e.g. http://relay:8080.
+  relayUrl: string;
+  // Overrides the WebSocket URL derived from `relayUrl`.
+  wsUrl?: string;
+};
+
+export type RequestOptions = {
+  // Signs the request with the local identity key. Left off for anything that must not
+  // say who is asking, such as sealed sends.
+  signed?: boolean;
+};
+
+// What a route answers with; see the schemas in @mega/shared.
+export type ResponseSchema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+// The relay refused a request. `error` is the relay's own message and `retryAfterSec` is
+// set when it rate-limited the caller.
+export class RelayHttpError extends Error {
+  constructor(
+    readonly method: string,
+    readonly path: string,
+    readonly status: number,
+    readonly error: string,
+    readonly retryAfterSec?: number
+  ) {
+    super(`Relay answered ${status} to ${method} ${path}: ${error}`);
+    this.name = "RelayHttpError";
+  }
+}
+
+// A successful answer whose body is not what the route should return, which usually means
+// the relay runs a different build.
+export class RelayResponseError extends Error {
+  constructor(
+    readonly method: string,
+    readonly path: string,
+    readonly reason: string
+  ) {
+    super(`Unexpected relay response to ${method} ${path}: ${reason}`);
+    this.name = "RelayResponseError";
+  }
+}
+
+export type BootstrapOptions = {
+  // Used when the store has no identity yet.
+  id: string;
+  deviceId?: number;
+  // Rotates the signed and Kyber prekeys when due; without it only the one-time pool is
+  // topped up.
+  rotation?: PreKeyRotationOptions;
+};
+
+export type SendOptions = EncryptOptions & {
+  // "required" fails when the peer has not sent us its delivery token yet; "preferred"
+  // falls back to an identified, signed send. Unset always sends identified.
+  sealed?: "required" | "preferred";
+};
+
+export type ListenOptions = {
+  // Silence from the relay (no ping, no frame) for this long drops the connection.
+  // 0 disables the check.
+  heartbeatTimeoutMs?: number;
+  // Reconnects after this delay when the connection drops; unset ends the stream.
+  reconnectDelayMs?: number;
+  // On a stale-session failure from an identified sender, resets the session with that
+  // device and sends it our delivery token over the new one, which moves the peer onto it.
+  // The frame is tried once more; if it still does not open it is acked and "rejected",
+  // and the peer has to send it again.
+  resetStaleSessions?: boolean;
+};
+
+// A decrypted frame. The relay redelivers it until `ack` is called, so call it once the
+// message is safely stored or acted on.
+export type ReceivedMessage = DecryptedMessage & {
+  frame: RelayMessageFrame;
+  ack: () => void;
+};
+
+export type RelayStreamEvents = {
+  open: [url: string];
+  // Every decrypted frame except a peer's delivery token, which is stored and acked here.
+  message: [message: ReceivedMessage];
+  // A redelivered frame whose first copy was decrypted; already acked.
+  duplicate: [frame: RelayMessageFrame];
+  // Signed with an identity key the trust policy refuses; left un-acked so it opens once
+  // the key is trusted.
+  untrusted: [frame: RelayMessageFrame, error: unknown];
+  // A frame that could not be read or decrypted, acked unless resetting a stale session
+  // failed (its redelivery tries again); or one whose "message" listener threw, left un-acked.
+  rejected: [error: unknown, frame?: RelayMessageFrame];
+  // The session with a sender's device was reset after a stale-session failure; the
+  // frame is tried once more next.
+  reset: [peerId: string, deviceId: number, frame: RelayMessageFrame];
+  // Connection trouble; the socket closes after it.
+  error: [error: unknown];
+  // `reconnecting` is false for the last close of the stream.
+  close: [code: number, reconnecting: boolean];
+};
+
+// Resetting a stale session failed, usually because the relay could not be reached; the
+// frame stays queued so its redelivery tries again.
+class SessionResetError extends Error {
+  constructor(readonly error: unknown) {
+    super("Could not reset the stale session.");
+    this.name = "SessionResetError";
+  }
+}
+
+// The relay's id for a frame that did not parse, if it has a usable one.
+function rawFrameId(input: unknown): string | undefined {
+  if (typeof input !== "object" || input === null) return undefined;
+  const { id } = input as { id?: unknown };
+  return typeof id === "string" && id.length > 0 ? id : undefined;
+}
+
+// One signed relay connection, replaced when it drops if reconnecting. Frames are
+// decrypted one at a time in arrival order, since each advances a session. As with any
+// EventEmitter, an "error" with no listener throws, so consumers should listen for it.
+export class RelayStream extends EventEmitter<RelayStreamEvents> {
+  readonly done: Promise<void>;
+  private ws: WebSocket | undefined;
+  private stopped = false;
+  private queue: Promise<void> = Promise.resolve();
+  private finish!: () => void;
+
+  constructor(
+    private client: SignalClient,
+    private options: ListenOptions
+  ) {
+    super();
+    // Fails here, not inside the connection, when there is no local identity yet.
+    client.wsUrl();
+    this.done = new Promise((resolve) => {
+      this.finish = resolve;
+    });
+    // Callers attach listeners after listen() returns.
+    queueMicrotask(() => this.connect());
+  }
+
+  // Resolves once every frame received so far has been handled.
+  async idle(): Promise<void> {
+    await this.queue;
+  }
+
+  close(code = 1000, reason = "closing"): void {
+    this.stopped = true;
+    if (!this.ws || this.ws.readyState === WebSocket.CLOSED) {
+      this.finish();
+      return;
+    }
+    try {
+      this.ws.close(code, reason);
+    } catch {
+      this.ws.terminate();
+    }
+  }
+
+  private connect(): void {
+    if (this.stopped) {
+      this.finish();
+      return;
+    }
+    const url = this.client.wsUrl();
+    const ws = new WebSocket(url, { headers: this.client.authHeaders("GET", new URL(url).pathname) });
+    this.ws = ws;
+
+    // The relay pings every connection (ws answers with a pong automatically); silence for
+    // longer than the timeout means the link is dead even if TCP has not noticed.
+    const heartbeatTimeoutMs = this.options.heartbeatTimeoutMs ?? 0;
+    let heartbeatTimer: NodeJS.Timeout | undefined;
+    const resetHeartbeat = (): void => {
+      if (heartbeatTimeoutMs <= 0) return;
+      if (heartbeatTimer) clearTimeout(heartbeatTimer);
+      heartbeatTimer = setTimeout(() => {
+        this.emit("error", new Error(`No heartbeat from relay in ${heartbeatTimeoutMs}ms.`));
+        ws.terminate();
+      }, heartbeatTimeoutMs);
+      heartbeatTimer.unref();
+    };
+
+    ws.on("open", () => {
+      resetHeartbeat();
+      this.emit("open", url);
+    });
+    ws.on("ping", resetHeartbeat);
+    ws.on("message", (data: RawData) => {
+      resetHeartbeat();
+      this.queue = this.queue
+        .then(() => this.handleFrame(ws, data))
+        .catch((err: unknown) => {
+          this.emit("rejected", err);
+        });
+    });
+    ws.on("error", (err: Error) => {
+      this.emit("error", err);
+    });
+    ws.on("close", (code: number) => {
+      if (heartbeatTimer) clearTimeout(heartbeatTimer);
+      const delayMs = this.options.reconnectDelayMs;
+      const reconnecting = !this.stopped && delayMs !== undefined;
+      this.emit("close", code, reconnecting);
+      if (!reconnecting) {
+        this.stopped = true;
+        this.finish();
+        return;
+      }
+      setTimeout(() => this.connect(), delayMs);
+    });
+  }
+
+  private async handleFrame(ws: WebSocket, data: RawData): Promise<void> {
+    const sendAck = (id: string): void => {
+      if (ws.readyState === WebSocket.OPEN) ws.send(encodeRelayAck(id));
+    };
+    let raw: unknown;
+    let frame: RelayMessageFrame;
+    try {
+      raw = JSON.parse(data.toString());
+      frame = loadRelayFrame(raw);
+    } catch (err) {
+      // A malformed frame is malformed on every redelivery.
+      const id = rawFrameId(raw);
+      if (id) sendAck(id);
+      this.emit("rejected", err);
+      return;
+    }
+    const ack = (): void => sendAck(frame.id);
+    let opened: DecryptedMessage;
+    try {
+      opened = await this.open(frame);
+    } catch (err) {
+      if (isDuplicateMessageError(err)) {
+        ack();
+        this.emit("duplicate", frame);
+      } else if (isUntrustedIdentityError(err)) {
+        this.emit("untrusted", frame, err);
+      } else if (err instanceof SessionResetError) {
+        this.emit("rejected", err.error, frame);
+      } else {
+        // Undecodable, tampered, or sealed under a certificate we refuse: a redelivery
+        // would only fail the same way.
+        ack();
+        this.emit("rejected", err, frame);
+      }
+      return;
+    }
+    const tokenMessage = opened.groupId ? undefined : parseDeliveryTokenMessage(opened.plaintext);
+    if (tokenMessage) {
+      savePeerDeliveryToken(this.client.state, opened.senderId, tokenMessage.token);
+      ack();
+      return;
+    }
+    this.emit("message", { ...opened, frame, ack });
+  }
+
+  private async open(frame: RelayMessageFrame): Promise<DecryptedMessage> {
+    const { envelope } = frame;
+    try {
+      return await openEnvelope(this.client.state, envelope);
+    } catch (err) {
+      if (!this.options.resetStaleSessions || !isStaleSessionError(err) || isSealedEnvelope(envelope)) throw err;
+    }
+    const deviceId = envelope.senderDeviceId ?? 1;
+    if (this.needsReset(envelope.senderId, deviceId, envelope.timestamp)) {
+      try {
+        await this.client.resetSession(envelope.senderId, deviceId);
+        // A PreKey message on the new session moves the peer onto it as well, so what it
+        // sends again can be read. Our token is the one message every client swallows.
+        await this.client.shareDeliveryToken(envelope.senderId, [deviceId]);
+      } catch (err) {
+        throw new SessionResetError(err);
+      }
+      this.emit("reset", envelope.senderId, deviceId, frame);
+    }
+    return await openEnvelope(this.client.state, envelope);
+  }
+
+  // A new session the peer has not answered yet, or one set up after the frame was sent,
+  // already came from a reset; redeliveries of old frames must not reset it again.
+  private needsReset(peerId: string, deviceId: number, sentAt: number): boolean {
+    const session = getSessionInfo(this.client.state, peerId, deviceId);
+    if (!session?.usable) return true;
+    if (session.pendingPreKey) return false;
+    return session.establishedAt === undefined || session.establishedAt < sentAt;
+  }
+}
+
+// The relay side of a SignalState: HTTP and WebSocket transport with signed requests,
+// registration and prekey upkeep, session setup and sends, and the receive stream.
+export class SignalClient {
+  readonly relayUrl: string;
+
+  constructor(
+    readonly state: SignalState,
+    private options: SignalClientOptions
+  ) {
+    this.relayUrl = options.relayUrl.replace(/\/+$/, "");
+  }
+
+  get localId(): string {
+    const id = this.state.getLocalIdentity();
+    if (!id) throw new Error("Local identity not set. Run 'mega init'.");
+    return id;
+  }
+
+  wsUrl(): string {
+    if (this.options.wsUrl) return this.options.wsUrl;
+    const base = new URL(this.relayUrl);
+    const protocol = base.protocol === "https:" ? "wss:" : "ws:";
+    const url = new URL("/ws", `${protocol}//${base.host}`);
+    url.searchParams.set("client_id", this.localId);
+    return url.toString();
+  }
+
+  authHeaders(method: string, path: string, body: string | Uint8Array = ""): Record<string, string> {
+    return createRelayAuthHeaders(this.state, method, path, body);
+  }
+
+  async getJson<T>(path: string, schema: ResponseSchema<T>, options: RequestOptions = {}): Promise<T> {
+    return await this.requestJson("GET", path, undefined, schema, options);
+  }
+
+  async postJson<T>(path: string, body: unknown, schema: ResponseSchema<T>, options: RequestOptions = {}): Promise<T> {
+    return await this.requestJson("POST", path, JSON.stringify(body), schema, options);
+  }
+
+  async deleteJson<T>(path: string, schema: ResponseSchema<T>, options: RequestOptions = {}): Promise<T> {
+    return await this.requestJson("DELETE", path, undefined, schema, options);
+  }
+
+  async getBytes(path: string, options: RequestOptions = {}): Promise<Buffer> {
+    const res = await this.request("GET", path, undefined, options);
+    return Buffer.from(await res.arrayBuffer());
+  }
+
+  async postBytes<T>(path: string, body: Uint8Array, schema: ResponseSchema<T>, options: RequestOptions = {}): Promise<T> {
+    return await this.requestJson("POST", path, body, schema, options);
+  }
+
+  // Creates the identity on first run, then registers it, pins the relay's trust root
+  // and keeps the relay's prekeys stocked. Safe to call on every start.
+  async bootstrap(options: BootstrapOptions): Promise<PreKeyRotationResult | undefined> {
+    if (!this.state.getLocalIdentity()) {
+      await initializeIdentity(this.state, options.id, options.deviceId ?? 1);
+    }
+    await this.register();
+    return await this.maintainPreKeys(options.rotation);
+  }
+
+  async register(): Promise<void> {
+    await this.postJson(
+      "/v1/register",
+      {
+        id: this.localId,
+        deviceId: this.state.getDeviceId(),
+        identityKey: exportIdentityKey(this.state),
+        deliveryToken: getDeliveryToken(this.state)
+      },
+      DeviceResponseSchema,
+      { signed: true }
+    );
+    await this.pinTrustRoot();
+  }
+
+  async pinTrustRoot(): Promise<void> {
+    if (getTrustRoot(this.state)) return;
+    const { trustRoot } = await this.getJson("/v1/certificate/trust-root", TrustRootResponseSchema);
+    pinTrustRoot(this.state, trustRoot);
+  }
+
+  async ensureSenderCertificate(): Promise<void> {
+    await this.pinTrustRoot();
+    if (hasSenderCertificate(this.state)) return;
+    const { certificate } = await this.getJson("/v1/certificate", SenderCertificateResponseSchema, { signed: true });
+    saveSenderCertificate(this.state, certificate);
+  }
+
+  async getPreKeyStatus(): Promise<PreKeyStatus> {
+    return await this.getJson(`/v1/prekeys/${encodeURIComponent(this.localId)}/status`, PreKeyStatusSchema, {
+      signed: true
+    });
+  }
+
+  async uploadPreKeys(): Promise<void> {
+    const upload = await exportPreKeyUpload(this.state);
+    await this.postJson("/v1/prekeys", upload, PreKeyUploadResponseSchema, { signed: true });
+    markPreKeysUploaded(this.state, upload);
+  }
+
+  // Tops up the relay's one-time pool and, given `rotation`, rotates the signed and Kyber
+  // prekeys when due. Uploads only when the relay is missing something.
+  async maintainPreKeys(rotation?: PreKeyRotationOptions): Promise<PreKeyRotationResult | undefined> {
+    const rotated = rotation ? await this.state.rotatePreKeys(rotation) : undefined;
+    const status = await this.getPreKeyStatus();
+    const refill = needsPreKeyRefill(status);
+    if (!refill && (!rotated || status.signedPreKeyId === rotated.signedPreKeyId)) return rotated;
+
+    if (refill) await generatePreKeys(this.state, PREKEY_BATCH_SIZE);
+    await this.uploadPreKeys();
+    return rotated;
+  }
+
+  // Adds `deviceId` with `identityKey` (from `mega identity show` on that device) to the
+  // local identity, signed by this device so peers can check it.
+  async linkDevice(deviceId: number, identityKey: string): Promise<void> {
+    const signature = signDeviceLink(this.state, deviceId, identityKey);
+    await this.postJson(
+      "/v1/devices",
+      { id: this.localId, deviceId, identityKey, signature },
+      DeviceResponseSchema,
+      { signed: true }
+    );
+  }
+
+  // Throws InvalidBundleError for a bundle that is malformed, badly signed, or for a
+  // different identity or device than the one asked for.
+  async fetchBundle(peerId: string, deviceId?: number): Promise<Bundle> {
+    const query = deviceId === undefined ? "" : `?device=${deviceId}`;
+    const payload = await this.getJson(`/v1/prekeys/${encodeURIComponent(peerId)}${query}`, PreKeyBundleResponseSchema, {
+      signed: true
+    });
+    const bundle = verifyBundle(payload.bundle);
+    if (bundle.id !== peerId || (deviceId !== undefined && bundle.deviceId !== deviceId)) {
+      throw new InvalidBundleError(peerId, `relay returned the bundle of ${bundle.id} device ${bundle.deviceId}.`);
+    }
+    return bundle;
+  }
+
+  // Opens a session with every device the relay lists for `peerId` and returns their ids;
+  // devices linked later are picked up on the next call. For our own id that means the
+  // other linked devices; this one is left out. Throws InvalidDeviceLinkError, before any
+  // session is opened, for a new device no known device of the peer signed for.
+  async ensureSessionWith(peerId: string): Promise<number[]> {
+    const listed = await this.getJson(`/v1/devices/${encodeURIComponent(peerId)}`, DeviceListResponseSchema);
+    const isSelf = peerId === this.state.getLocalIdentity();
+    const devices = listed.devices.filter((deviceId) => !isSelf || deviceId !== this.state.getDeviceId());
+    const known = new Set(
+      listSessions(this.state, peerId)
+        .filter((session) => session.usable)
+        .map((session) => session.deviceId)
+    );
+    const pending = devices.filter((deviceId) => !known.has(deviceId));
+    for (const deviceId of pending) verifyDeviceLink(this.state, listed, deviceId);
+    for (const deviceId of pending) {
+      const bundle = await this.fetchBundle(peerId, deviceId);
+      const link = listed.links.find((entry) => entry.deviceId === deviceId);
+      if (bundle.identityKey !== link?.identityKey) {
+        throw new InvalidBundleError(peerId, `device ${deviceId} signs with a key other than the one it was linked with.`);
+      }
+      await initSession(this.state, bundle);
+    }
+    return devices;
+  }
+
+  // Archives the current session with `peerId` (or one device) and sets up a new one from
+  // a freshly fetched bundle. Returns the devices the peer now has.
+  async resetSession(peerId: string, deviceId?: number): Promise<number[]> {
+    await archiveSession(this.state, peerId, deviceId);
+    return await this.ensureSessionWith(peerId);
+  }
+
+  async send(peerId: string, plaintext: string, options: SendOptions = {}): Promise<RelayEnvelope[]> {
+    const devices = await this.ensureSessionWith(peerId);
+    return await this.sendToDevices(peerId, plaintext, devices, options);
+  }
+
+  // Encrypts for each device and posts it. Sealed needs the peer's delivery token and goes
+  // unsigned: a signature would tell the relay who is sending. Devices of a peer that do
+  // not have our own token yet get it first, sent the same way.
+  async sendToDevices(
+    peerId: string,
+    plaintext: string,
+    devices: number[],
+    options: SendOptions = {}
+  ): Promise<RelayEnvelope[]> {
+    const { sealed, ...encryptOptions } = options;
+    const deliveryToken = sealed ? getPeerDeliveryToken(this.state, peerId) : undefined;
+    if (sealed === "required" && !deliveryToken) {
+      throw new Error(`${peerId} has not shared a delivery token yet; send without sealed sender.`);
+    }
+    if (peerId !== this.localId) {
+      const awaiting = devicesAwaitingDeliveryToken(this.state, peerId, devices);
+      if (awaiting.length > 0) await this.shareDeliveryToken(peerId, awaiting, deliveryToken);
+    }
+    return await this.postToDevices(peerId, plaintext, devices, deliveryToken, encryptOptions);
+  }
+
+  // Sends our delivery token to `devices`, sealed when the peer's `deliveryToken` is given.
+  // Receiving streams store it without emitting a message.
+  async shareDeliveryToken(peerId: string, devices: number[], deliveryToken?: string): Promise<void> {
+    const message = encodeDeliveryTokenMessage(getDeliveryToken(this.state));
+    await this.postToDevices(peerId, message, devices, deliveryToken, {});
+    markDeliveryTokenShared(this.state, peerId, devices);
+  }
+
+  private async postToDevices(
+    peerId: string,
+    plaintext: string,
+    devices: number[],
+    deliveryToken: string | undefined,
+    encryptOptions: EncryptOptions
+  ): Promise<RelayEnvelope[]> {
+    if (deliveryToken) {
+      await this.ensureSenderCertificate();
+      const envelopes = await sealMessageForDevices(this.state, peerId, plaintext, devices, encryptOptions);
+      for (const envelope of envelopes) {
+        await this.postJson("/v1/messages/sealed", { to: peerId, deliveryToken, envelope }, MessageAcceptedResponseSchema);
+      }
+      return envelopes;
+    }
+    const envelopes = await encryptMessageForDevices(this.state, peerId, plaintext, devices, encryptOptions);
+    for (const envelope of envelopes) await this.postEnvelope(peerId, envelope);
+    return envelopes;
+  }
+
+  // Posts an identified envelope that was encrypted elsewhere, e.g. a sender key.
+  async postEnvelope(peerId: string, envelope: RelayEnvelope): Promise<void> {
+    await this.postJson(
+      "/v1/messages",
+      { from: this.localId, to: peerId, envelope },
+      MessageAcceptedResponseSchema,
+      { signed: true }
+    );
+  }
+
+  listen(options: ListenOptions = {}): RelayStream {
+    return new RelayStream(this, options);
+  }
+
+  private async requestJson<T>(
+    method: string,
+    path: string,
+    body: string | Uint8Array | undefined,
+    schema: ResponseSchema<T>,
+    options: RequestOptions
+  ): Promise<T> {
+    const res = await this.request(method, path, body, options);
+    return await readRelayJson(res, method, path, schema);
+  }
+
+  private async request(
+    method: string,
+    path: string,
+    body: string | Uint8Array | undefined,
+    options: RequestOptions
+  ): Promise<Response> {
+    const headers: Record<string, string> = {};
+    if (body !== undefined) {
+      headers["Content-Type"] = typeof body === "string" ? "application/json" : "application/octet-stream";
+    }
+    const url = `${this.relayUrl}${path}`;
+    if (options.signed) Object.assign(headers, this.authHeaders(method, new URL(url).pathname, body));
+    // fetch's BodyInit takes a Buffer but not a Uint8Array over an arbitrary ArrayBufferLike.
+    const payload = typeof body === "string" || body === undefined ? body : Buffer.from(body);
+    const res = await fetch(url, { method, headers, body: payload });
+    if (!res.ok) throw await relayHttpError(res, method, path);
+    return res;
+  }
+}
+
+// For relay routes that need no identity, such as a device list or diagnostics, when
+// there is no store to build a SignalClient from.
+export async function fetchRelayJson<T>(relayUrl: string, path: string, schema: ResponseSchema<T>): Promise<T> {
+  const res = await fetch(`${relayUrl.replace(/\/+$/, "")}${path}`);
+  if (!res.ok) throw await relayHttpError(res, "GET", path);
+  return await readRelayJson(res, "GET", path, schema);
+}
+
+async function relayHttpError(res: Response, method: string, path: string): Promise<RelayHttpError> {
+  const text = await res.text();
+  let message = text || res.statusText;
+  try {
+    const body = RelayErrorBodySchema.safeParse(JSON.parse(text));
+    if (body.success) message = body.data.error;
+  } catch {
+    // Not JSON, e.g. a proxy's error page; keep the text.
+  }
+  const retryAfter = res.headers.get("retry-after");
+  return new RelayHttpError(method, path, res.status, message, retryAfter === null ? undefined : Number(retryAfter));
+}
+
+async function readRelayJson<T>(res: Response, method: string, path: string, schema: ResponseSchema<T>): Promise<T> {
+  let body: unknown;
+  try {
+    body = await res.json();
+  } catch {
+    throw new RelayResponseError(method, path, "body is not JSON.");
+  }
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new RelayResponseError(method, path, `${issue.path.join(".") || "body"}: ${issue.message}`);
+  }
+  return parsed.data;
+}
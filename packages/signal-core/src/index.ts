@@ -1,6 +1,8 @@
 import crypto from "node:crypto";
 import {
   CiphertextMessageType,
+  ErrorCode,
+  Fingerprint,
   IdentityKeyPair,
   KEMKeyPair,
   KEMPublicKey,
@@ -10,46 +12,105 @@ import {
   PrivateKey,
   ProtocolAddress,
   PublicKey,
+  ScannableFingerprint,
+  SenderCertificate,
+  SenderKeyDistributionMessage,
+  SessionRecord,
   SignalMessage,
   SignedPreKeyRecord,
   KyberPreKeyRecord,
+  LibSignalErrorBase,
+  groupDecrypt,
+  groupEncrypt,
   processPreKeyBundle,
+  processSenderKeyDistributionMessage,
+  sealedSenderDecryptMessage,
+  sealedSenderEncryptMessage,
   signalDecrypt,
   signalDecryptPreKey,
   signalEncrypt
 } from "@signalapp/libsignal-client";
-import { parseEnvelope, type Envelope } from "@mega/shared";
+import {
+  BundleSchema,
+  ENVELOPE_BODY_MAX_LENGTH,
+  RelayAuthHeaders,
+  buildDeviceLinkMessage,
+  buildRelayAuthMessage,
+  isSealedEnvelope,
+  parseRelayEnvelope,
+  parseRelayMessageFrame,
+  type Bundle,
+  type DeviceListResponse,
+  type Envelope,
+  type OneTimePreKey,
+  type PreKeyStatus,
+  type ReceiptMessage,
+  type RelayEnvelope,
+  type RelayMessageFrame,
+  type SealedEnvelope
+} from "@mega/shared";
+import { decodeBackup, encodeBackup, type BackupHeader } from "./backup.js";
 import { fromBase64, toBase64 } from "./crypto.js";
+import { MemoryStore } from "./memory-store.js";
+import { readSessionRecord } from "./session-record.js";
 import {
   EncryptedStore,
+  StorageAdapter,
   SqliteIdentityStore,
   SqliteKyberPreKeyStore,
   SqlitePreKeyStore,
+  SqliteSenderKeyStore,
   SqliteSessionStore,
   SqliteSignedPreKeyStore,
+  WrongPassphraseError,
   loadIdentityKeyPair,
-  saveIdentityKeyPair
+  saveIdentityKeyPair,
+  type IdentityEvent,
+  type TrustPolicy
 } from "./store.js";
 
-export type Bundle = {
+export type PreKeyUpload = {
   id: string;
-  deviceId: number;
-  registrationId: number;
-  identityKey: string;
-  signedPreKey: {
-    keyId: number;
-    publicKey: string;
-    signature: string;
-  };
-  preKey: {
-    keyId: number;
-    publicKey: string;
-  };
-  kyberPreKey: {
-    keyId: number;
-    publicKey: string;
-    signature: string;
+  bundle: Bundle;
+  preKeys: OneTimePreKey[];
+};
+
+export const PREKEY_BATCH_SIZE = 50;
+export const PREKEY_LOW_WATER_MARK = 10;
+export const SIGNED_PREKEY_ROTATION_MS = 7 * 24 * 60 * 60 * 1000;
+export const SIGNED_PREKEY_GRACE_MS = 2 * 24 * 60 * 60 * 1000;
+
+export type PreKeyRotationOptions = {
+  intervalMs?: number;
+  graceMs?: number;
+  force?: boolean;
+};
+
+export type RetiredPreKey = {
+  kind: "signed" | "kyber";
+  id: number;
+  retiredAt: number;
+};
+
+export type PreKeyRotationResult = {
+  rotated: boolean;
+  signedPreKeyId: number;
+  kyberPreKeyId: number;
+  purged: RetiredPreKey[];
+};
+
+type PreKeyRotationState = {
+  current: {
+    signedPreKeyId: number;
+    kyberPreKeyId: number;
+    createdAt: number;
   };
+  retired: RetiredPreKey[];
+};
+
+export type EncryptOptions = {
+  // Lifetime on the relay; stamped into the envelope as an absolute `expiresAt`.
+  expiresInMs?: number;
 };
 
 export type InboxMessage = {
@@ -57,28 +118,119 @@ export type InboxMessage = {
   senderId: string;
   timestamp: number;
   plaintext: string;
-  envelope: Envelope;
+  envelope: RelayEnvelope;
+  // Set once the message has been shown and a read receipt sent.
+  readAt?: number;
+};
+
+// A one-to-one message we sent, kept so receipts can be matched to it.
+export type SentMessage = {
+  id: string;
+  recipientId: string;
+  plaintext: string;
+  // Envelope timestamps, one per recipient device; receipts name the message by these.
+  timestamps: number[];
+  sentAt: number;
+  deliveredAt?: number;
+  readAt?: number;
+};
+
+export type MessageStatus = "sent" | "delivered" | "read";
+
+export type DecryptedMessage = {
+  senderId: string;
+  senderDeviceId: number;
+  plaintext: string;
+  sealed: boolean;
+  groupId?: string;
+  // A sender key handed over for `groupId`; already stored, nothing to show.
+  senderKeyDistribution?: boolean;
+};
+
+// A group as the relay reports it.
+export type GroupInfo = {
+  id: string;
+  name: string;
+  owner: string;
+  members: string[];
+};
+
+export type GroupState = GroupInfo & {
+  // Our sending chain for the group; replaced whenever a member is removed.
+  distributionId: string;
+  // `<id>.<deviceId>` of every device that already holds the current chain.
+  distributedTo: string[];
+};
+
+export type SafetyNumber = {
+  peerId: string;
+  deviceId: number;
+  // 60 digits; both sides compute the same number.
+  displayable: string;
+  // Base64 payload for a QR code. Each side encodes its own view, so compare it with
+  // matchesSafetyNumber rather than as a string.
+  scannable: string;
+  // True while the peer's current identity key is the one that was verified.
+  verified: boolean;
+};
+
+// "trusted": usable under the policy. "unverified": strict policy, safety number not
+// checked. "changed": a new key was accepted under "warn" but not yet approved.
+// "pending": a new key was refused and waits for `trustIdentity`. "blocked": untrusted.
+// Keys stored before approvals were recorded count as approved.
+export type IdentityTrustStatus = "trusted" | "unverified" | "changed" | "pending" | "blocked";
+
+export type IdentityTrust = {
+  peerId: string;
+  deviceId: number;
+  status: IdentityTrustStatus;
+  policy: TrustPolicy;
+  // Base64 key libsignal currently uses, and a refused one waiting for approval.
+  key: string;
+  pendingKey?: string;
 };
 
 const COUNTER_PREKEY = "counter:prekey";
 const COUNTER_SIGNED_PREKEY = "counter:signedprekey";
 const COUNTER_KYBER_PREKEY = "counter:kyberprekey";
+const PREKEY_UPLOADED_THROUGH = "prekey:uploadedThrough";
+const PREKEY_ROTATION = "prekey:rotation";
+const SEALED_TRUST_ROOT = "sealed:trustRoot";
+const SEALED_SENDER_CERTIFICATE = "sealed:senderCertificate";
+const SEALED_DELIVERY_TOKEN = "sealed:deliveryToken";
+const SEALED_PEER_TOKEN_PREFIX = "sealed:peerToken:";
+const SEALED_TOKEN_SHARED_PREFIX = "sealed:tokenShared:";
+const GROUP_PREFIX = "group:";
+// Signal's own parameters, so numbers look and behave like the ones in Signal apps.
+const FINGERPRINT_ITERATIONS = 5200;
+const FINGERPRINT_VERSION = 2;
+
+export type SignalStateOptions = {
+  // How changed peer identity keys are handled; defaults to "tofu".
+  trustPolicy?: TrustPolicy;
+  onIdentityEvent?: (event: IdentityEvent) => void;
+};
 
 export class SignalState {
-  readonly store: EncryptedStore;
+  readonly store: StorageAdapter;
   readonly identityStore: SqliteIdentityStore;
   readonly sessionStore: SqliteSessionStore;
   readonly preKeyStore: SqlitePreKeyStore;
   readonly signedPreKeyStore: SqliteSignedPreKeyStore;
   readonly kyberPreKeyStore: SqliteKyberPreKeyStore;
+  readonly senderKeyStore: SqliteSenderKeyStore;
 
-  constructor(dbPath: string, passphrase: string) {
-    this.store = new EncryptedStore(dbPath, passphrase);
-    this.identityStore = new SqliteIdentityStore(this.store);
+  constructor(store: StorageAdapter, options: SignalStateOptions = {}) {
+    this.store = store;
+    this.identityStore = new SqliteIdentityStore(this.store, {
+      policy: options.trustPolicy,
+      onEvent: options.onIdentityEvent
+    });
     this.sessionStore = new SqliteSessionStore(this.store);
     this.preKeyStore = new SqlitePreKeyStore(this.store);
     this.signedPreKeyStore = new SqliteSignedPreKeyStore(this.store);
     this.kyberPreKeyStore = new SqliteKyberPreKeyStore(this.store);
+    this.senderKeyStore = new SqliteSenderKeyStore(this.store);
   }
 
   getLocalIdentity(): string | undefined {
@@ -120,10 +272,85 @@ export class SignalState {
   setValue(key: string, value: unknown): void {
     this.store.set(key, value);
   }
+
+  // Replaces the signed and Kyber prekeys once they are older than `intervalMs`. Retired
+  // keys stay decryptable for `graceMs` so PreKey messages built from an older bundle
+  // still arrive intact, then they are deleted from the store.
+  async rotatePreKeys(options: PreKeyRotationOptions = {}): Promise<PreKeyRotationResult> {
+    const intervalMs = options.intervalMs ?? SIGNED_PREKEY_ROTATION_MS;
+    const graceMs = options.graceMs ?? SIGNED_PREKEY_GRACE_MS;
+    const rotation = await loadRotationState(this);
+    const now = Date.now();
+
+    const rotated = options.force === true || now - rotation.current.createdAt >= intervalMs;
+    if (rotated) {
+      rotation.retired.push(
+        { kind: "signed", id: rotation.current.signedPreKeyId, retiredAt: now },
+        { kind: "kyber", id: rotation.current.kyberPreKeyId, retiredAt: now }
+      );
+      rotation.current = {
+        signedPreKeyId: await createSignedPreKey(this),
+        kyberPreKeyId: await createKyberPreKey(this),
+        createdAt: now
+      };
+    }
+
+    const purged = rotation.retired.filter((entry) => now - entry.retiredAt >= graceMs);
+    for (const entry of purged) {
+      if (entry.kind === "signed") this.signedPreKeyStore.removeSignedPreKey(entry.id);
+      else this.kyberPreKeyStore.removeKyberPreKey(entry.id);
+    }
+    rotation.retired = rotation.retired.filter((entry) => now - entry.retiredAt < graceMs);
+    this.setValue(PREKEY_ROTATION, rotation);
+
+    return {
+      rotated,
+      signedPreKeyId: rotation.current.signedPreKeyId,
+      kyberPreKeyId: rotation.current.kyberPreKeyId,
+      purged
+    };
+  }
+}
+
+// Throws WrongPassphraseError when `passphrase` does not open an existing store.
+export function openStore(dbPath: string, passphrase: string, options: SignalStateOptions = {}): SignalState {
+  return new SignalState(new EncryptedStore(dbPath, passphrase), options);
+}
+
+// Nothing touches disk; the state is gone with the process.
+export function openMemoryStore(options: SignalStateOptions = {}): SignalState {
+  return new SignalState(new MemoryStore(), options);
+}
+
+// One encrypted file with everything in the store: identity, prekeys, sessions, peer
+// identities and their trust state, inbox. The backup passphrase is independent of the
+// store's, so the file can be kept apart from the machine's secrets.
+export function createBackup(state: SignalState, backupPassphrase: string): string {
+  if (!state.getLocalIdentity()) throw new Error("Local identity not set. Run 'mega init'.");
+  return encodeBackup(state.store.exportSnapshot(), backupPassphrase);
 }
 
-export function openStore(dbPath: string, passphrase: string): SignalState {
-  return new SignalState(dbPath, passphrase);
+// Validates the whole file first, then replaces the store's contents in one transaction.
+// A store that already holds an identity is only overwritten with `force`.
+export function restoreBackup(
+  state: SignalState,
+  backup: string,
+  backupPassphrase: string,
+  options: { force?: boolean } = {}
+): BackupHeader {
+  const { header, snapshot } = decodeBackup(backup, backupPassphrase);
+  const existing = state.getLocalIdentity();
+  if (existing && !options.force) {
+    throw new Error(`Store already holds identity '${existing}'; restore into an empty store or pass force.`);
+  }
+  state.store.importSnapshot(snapshot);
+  return header;
+}
+
+export function changePassphrase(state: SignalState, oldPassphrase: string, newPassphrase: string): void {
+  if (!newPassphrase) throw new Error("New passphrase must not be empty.");
+  if (!(state.store instanceof EncryptedStore)) throw new Error("Only encrypted stores have a passphrase.");
+  state.store.rekey(oldPassphrase, newPassphrase);
 }
 
 export async function initializeIdentity(state: SignalState, localId: string, deviceId = 1): Promise<void> {
@@ -142,16 +369,8 @@ function nextCounter(state: SignalState, key: string, start = 1): number {
   return current;
 }
 
-export async function generatePreKeys(state: SignalState, count = 1): Promise<void> {
+async function createSignedPreKey(state: SignalState): Promise<number> {
   const identityKeyPair = state.getIdentityKeyPair();
-
-  for (let i = 0; i < count; i += 1) {
-    const preKeyId = nextCounter(state, COUNTER_PREKEY);
-    const preKeyPrivate = PrivateKey.generate();
-    const preKeyRecord = PreKeyRecord.new(preKeyId, preKeyPrivate.getPublicKey(), preKeyPrivate);
-    await state.preKeyStore.savePreKey(preKeyId, preKeyRecord);
-  }
-
   const signedPreKeyId = nextCounter(state, COUNTER_SIGNED_PREKEY);
   const signedPreKeyPrivate = PrivateKey.generate();
   const signedPreKeyPublic = signedPreKeyPrivate.getPublicKey();
@@ -164,12 +383,67 @@ export async function generatePreKeys(state: SignalState, count = 1): Promise<vo
     signedSignature
   );
   await state.signedPreKeyStore.saveSignedPreKey(signedPreKeyId, signedPreKeyRecord);
+  return signedPreKeyId;
+}
 
+async function createKyberPreKey(state: SignalState): Promise<number> {
+  const identityKeyPair = state.getIdentityKeyPair();
   const kyberPreKeyId = nextCounter(state, COUNTER_KYBER_PREKEY);
   const kemKeyPair = KEMKeyPair.generate();
   const kyberSignature = identityKeyPair.privateKey.sign(kemKeyPair.getPublicKey().serialize());
   const kyberRecord = KyberPreKeyRecord.new(kyberPreKeyId, Date.now(), kemKeyPair, kyberSignature);
   await state.kyberPreKeyStore.saveKyberPreKey(kyberPreKeyId, kyberRecord);
+  return kyberPreKeyId;
+}
+
+async function loadRotationState(state: SignalState): Promise<PreKeyRotationState> {
+  const existing = state.getValue<PreKeyRotationState>(PREKEY_ROTATION);
+  if (existing) return existing;
+
+  const signedPreKeyId = (state.getValue<number>(COUNTER_SIGNED_PREKEY) ?? 1) - 1;
+  const kyberPreKeyId = (state.getValue<number>(COUNTER_KYBER_PREKEY) ?? 1) - 1;
+  if (signedPreKeyId < 1 || kyberPreKeyId < 1) {
+    const rotation: PreKeyRotationState = {
+      current: {
+        signedPreKeyId: await createSignedPreKey(state),
+        kyberPreKeyId: await createKyberPreKey(state),
+        createdAt: Date.now()
+      },
+      retired: []
+    };
+    state.setValue(PREKEY_ROTATION, rotation);
+    return rotation;
+  }
+
+  // Stores created before rotation existed minted a signed/Kyber pair on every
+  // generatePreKeys call; keep the latest and retire the rest.
+  const now = Date.now();
+  const signedPreKey = await state.signedPreKeyStore.getSignedPreKey(signedPreKeyId);
+  const retired: RetiredPreKey[] = [];
+  for (let id = 1; id < signedPreKeyId; id += 1) {
+    if (state.signedPreKeyStore.hasSignedPreKey(id)) retired.push({ kind: "signed", id, retiredAt: now });
+  }
+  for (let id = 1; id < kyberPreKeyId; id += 1) {
+    if (state.kyberPreKeyStore.hasKyberPreKey(id)) retired.push({ kind: "kyber", id, retiredAt: now });
+  }
+  const rotation: PreKeyRotationState = {
+    current: { signedPreKeyId, kyberPreKeyId, createdAt: signedPreKey.timestamp() },
+    retired
+  };
+  state.setValue(PREKEY_ROTATION, rotation);
+  return rotation;
+}
+
+export async function generatePreKeys(state: SignalState, count = 1): Promise<void> {
+  for (let i = 0; i < count; i += 1) {
+    const preKeyId = nextCounter(state, COUNTER_PREKEY);
+    const preKeyPrivate = PrivateKey.generate();
+    const preKeyRecord = PreKeyRecord.new(preKeyId, preKeyPrivate.getPublicKey(), preKeyPrivate);
+    await state.preKeyStore.savePreKey(preKeyId, preKeyRecord);
+  }
+
+  // Signed and Kyber prekeys are only minted on first use; rotatePreKeys replaces them.
+  await loadRotationState(state);
 }
 
 export async function exportBundle(state: SignalState): Promise<Bundle> {
@@ -184,7 +458,7 @@ export async function exportBundle(state: SignalState): Promise<Bundle> {
   const kyberPreKeyId = (state.getValue<number>(COUNTER_KYBER_PREKEY) ?? 2) - 1;
 
   const signedPreKey = await state.signedPreKeyStore.getSignedPreKey(signedPreKeyId);
-  const preKey = await state.preKeyStore.getPreKey(preKeyId);
+  const preKey = state.preKeyStore.hasPreKey(preKeyId) ? await state.preKeyStore.getPreKey(preKeyId) : undefined;
   const kyberPreKey = await state.kyberPreKeyStore.getKyberPreKey(kyberPreKeyId);
 
   return {
@@ -197,10 +471,12 @@ export async function exportBundle(state: SignalState): Promise<Bundle> {
       publicKey: toBase64(signedPreKey.publicKey().serialize()),
       signature: toBase64(signedPreKey.signature())
     },
-    preKey: {
-      keyId: preKeyId,
-      publicKey: toBase64(preKey.publicKey().serialize())
-    },
+    preKey: preKey
+      ? {
+          keyId: preKeyId,
+          publicKey: toBase64(preKey.publicKey().serialize())
+        }
+      : undefined,
     kyberPreKey: {
       keyId: kyberPreKeyId,
       publicKey: toBase64(kyberPreKey.publicKey().serialize()),
@@ -209,13 +485,150 @@ export async function exportBundle(state: SignalState): Promise<Bundle> {
   };
 }
 
-export async function initSession(state: SignalState, bundle: Bundle): Promise<void> {
+// Collects the one-time prekeys generated since the last successful upload so the
+// relay pool never receives a key twice (a re-uploaded key could be handed out again
+// after the first PreKey message already consumed it).
+export async function exportPreKeyUpload(state: SignalState): Promise<PreKeyUpload> {
+  const bundle = await exportBundle(state);
+  const uploadedThrough = state.getValue<number>(PREKEY_UPLOADED_THROUGH) ?? 0;
+  const latestId = (state.getValue<number>(COUNTER_PREKEY) ?? 1) - 1;
+
+  const preKeys: OneTimePreKey[] = [];
+  for (let keyId = uploadedThrough + 1; keyId <= latestId; keyId += 1) {
+    if (!state.preKeyStore.hasPreKey(keyId)) continue;
+    const record = await state.preKeyStore.getPreKey(keyId);
+    preKeys.push({ keyId, publicKey: toBase64(record.publicKey().serialize()) });
+  }
+
+  const { preKey: _latest, ...signedBundle } = bundle;
+  return { id: bundle.id, bundle: signedBundle, preKeys };
+}
+
+export function needsPreKeyRefill(status: PreKeyStatus, threshold = PREKEY_LOW_WATER_MARK): boolean {
+  return status.signedPreKeyId === null || status.oneTimePreKeys < threshold;
+}
+
+export function markPreKeysUploaded(state: SignalState, upload: PreKeyUpload): void {
+  const highest = upload.preKeys.reduce((max, key) => Math.max(max, key.keyId), 0);
+  const uploadedThrough = state.getValue<number>(PREKEY_UPLOADED_THROUGH) ?? 0;
+  if (highest > uploadedThrough) state.setValue(PREKEY_UPLOADED_THROUGH, highest);
+}
+
+// A bundle that is malformed or whose prekeys the identity key did not sign. Raised before
+// any session state is touched.
+export class InvalidBundleError extends Error {
+  constructor(
+    readonly peerId: string | undefined,
+    readonly reason: string
+  ) {
+    super(`Invalid prekey bundle${peerId ? ` for ${peerId}` : ""}: ${reason}`);
+    this.name = "InvalidBundleError";
+  }
+}
+
+// Checks the shape and key encodings, then that both prekeys carry the identity key's
+// signature. libsignal checks the signed prekey again, but its error does not say which
+// bundle or field was wrong.
+export function verifyBundle(input: unknown): Bundle {
+  const parsed = BundleSchema.safeParse(input);
+  const peerId = typeof input === "object" && input !== null && "id" in input ? String(input.id) : undefined;
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new InvalidBundleError(peerId, `${issue.path.join(".") || "bundle"}: ${issue.message}`);
+  }
+  const bundle = parsed.data;
+  const identityKey = PublicKey.deserialize(fromBase64(bundle.identityKey));
+  const signedPreKey = fromBase64(bundle.signedPreKey.publicKey);
+  if (!identityKey.verify(signedPreKey, fromBase64(bundle.signedPreKey.signature))) {
+    throw new InvalidBundleError(bundle.id, "signed prekey signature does not match the identity key.");
+  }
+  const kyberPreKey = fromBase64(bundle.kyberPreKey.publicKey);
+  if (!identityKey.verify(kyberPreKey, fromBase64(bundle.kyberPreKey.signature))) {
+    throw new InvalidBundleError(bundle.id, "Kyber prekey signature does not match the identity key.");
+  }
+  return bundle;
+}
+
+// A device the relay lists for a peer whose link does not lead back to a device we already
+// know. Raised before a session is opened with it.
+export class InvalidDeviceLinkError extends Error {
+  constructor(
+    readonly peerId: string,
+    readonly deviceId: number,
+    readonly reason: string
+  ) {
+    super(`Device ${deviceId} of ${peerId} is not linked: ${reason}`);
+    this.name = "InvalidDeviceLinkError";
+  }
+}
+
+// Signs `identityKey` as device `deviceId` of the local identity, for POST /v1/devices.
+export function signDeviceLink(state: SignalState, deviceId: number, identityKey: string): string {
+  const id = state.getLocalIdentity();
+  if (!id) throw new Error("Local identity not set. Run 'mega init'.");
+  const message = buildDeviceLinkMessage({ id, deviceId, identityKey, linkedBy: state.getDeviceId() });
+  return toBase64(state.getIdentityKeyPair().privateKey.sign(message));
+}
+
+// Follows the links of `deviceId` in a relay device list until it reaches a device whose
+// identity we already hold, checking each signature on the way. The first device of a peer
+// we have never seen is trusted on first use, provided the list has no other unlinked
+// device. A known device's own key goes through the trust policy as usual, but a linker's
+// key must be the one we hold, or the relay could sign for it.
+export function verifyDeviceLink(state: SignalState, list: DeviceListResponse, deviceId: number): void {
+  const peerId = list.id;
+  const isSelf = peerId === state.getLocalIdentity();
+  const entries = new Map(list.links.map((entry) => [entry.deviceId, entry]));
+  const heldKey = (id: number): string | undefined =>
+    isSelf && id === state.getDeviceId()
+      ? exportIdentityKey(state)
+      : state.identityStore.getCurrentKey(ProtocolAddress.new(peerId, id));
+  const firstContact = !isSelf && !state.identityStore.listAddresses().some((address) => address.name === peerId);
+
+  let entry = entries.get(deviceId);
+  if (!entry) throw new InvalidDeviceLinkError(peerId, deviceId, "the relay lists no identity key for it.");
+  if (heldKey(deviceId) !== undefined) return;
+  const seen = new Set<number>([deviceId]);
+  for (;;) {
+    if (entry.linkedBy === undefined || entry.signature === undefined) {
+      const unlinked = list.links.filter((other) => other.linkedBy === undefined).length;
+      if (firstContact && unlinked === 1) return;
+      throw new InvalidDeviceLinkError(peerId, deviceId, `device ${entry.deviceId} carries no link signature.`);
+    }
+    const linker = entries.get(entry.linkedBy);
+    if (!linker) {
+      throw new InvalidDeviceLinkError(peerId, deviceId, `device ${entry.linkedBy} is not in the device list.`);
+    }
+    if (seen.has(linker.deviceId)) throw new InvalidDeviceLinkError(peerId, deviceId, "its links form a cycle.");
+    const message = buildDeviceLinkMessage({
+      id: peerId,
+      deviceId: entry.deviceId,
+      identityKey: entry.identityKey,
+      linkedBy: linker.deviceId
+    });
+    if (!PublicKey.deserialize(fromBase64(linker.identityKey)).verify(message, fromBase64(entry.signature))) {
+      const reason = `the link of device ${entry.deviceId} is not signed by device ${linker.deviceId}.`;
+      throw new InvalidDeviceLinkError(peerId, deviceId, reason);
+    }
+    const held = heldKey(linker.deviceId);
+    if (held !== undefined) {
+      if (held === linker.identityKey) return;
+      const reason = `device ${linker.deviceId} is listed with a key we do not hold.`;
+      throw new InvalidDeviceLinkError(peerId, deviceId, reason);
+    }
+    seen.add(linker.deviceId);
+    entry = linker;
+  }
+}
+
+export async function initSession(state: SignalState, input: Bundle): Promise<void> {
+  const bundle = verifyBundle(input);
   const address = ProtocolAddress.new(bundle.id, bundle.deviceId);
   const preKeyBundle = PreKeyBundle.new(
     bundle.registrationId,
     bundle.deviceId,
-    bundle.preKey.keyId,
-    PublicKey.deserialize(fromBase64(bundle.preKey.publicKey)),
+    bundle.preKey ? bundle.preKey.keyId : null,
+    bundle.preKey ? PublicKey.deserialize(fromBase64(bundle.preKey.publicKey)) : null,
     bundle.signedPreKey.keyId,
     PublicKey.deserialize(fromBase64(bundle.signedPreKey.publicKey)),
     fromBase64(bundle.signedPreKey.signature),
@@ -228,28 +641,179 @@ export async function initSession(state: SignalState, bundle: Bundle): Promise<v
   await processPreKeyBundle(preKeyBundle, address, state.sessionStore, state.identityStore);
 }
 
-export async function encryptMessage(state: SignalState, recipientId: string, plaintext: string): Promise<Envelope> {
-  const address = ProtocolAddress.new(recipientId, 1);
+function base64Length(byteLength: number): number {
+  return Math.ceil(byteLength / 3) * 4;
+}
+
+function envelopeTooLarge(): Error {
+  return new Error(`Message too large: envelope body limit is ${ENVELOPE_BODY_MAX_LENGTH} bytes.`);
+}
+
+// Checked before encrypting so plaintext that cannot fit does not advance the ratchet.
+function assertEnvelopeFits(plaintext: string): void {
+  if (base64Length(Buffer.byteLength(plaintext, "utf8")) > ENVELOPE_BODY_MAX_LENGTH) throw envelopeTooLarge();
+}
+
+// Checked again on the ciphertext, which adds the message header and MAC, a PreKey
+// message's keys (over 1.5 KB with Kyber) and, sealed, the sender certificate. `undo` puts
+// back the state the encryption advanced, so a message the relay would refuse leaves no gap.
+async function assertBodyFits(body: Uint8Array, undo: () => Promise<void>): Promise<void> {
+  if (base64Length(body.length) <= ENVELOPE_BODY_MAX_LENGTH) return;
+  await undo();
+  throw envelopeTooLarge();
+}
+
+// Restores the session with `address` as it is now.
+async function sessionUndo(state: SignalState, address: ProtocolAddress): Promise<() => Promise<void>> {
+  const record = await state.sessionStore.getSession(address);
+  return async () => {
+    if (record) await state.sessionStore.saveSession(address, record);
+  };
+}
+
+export async function encryptMessage(
+  state: SignalState,
+  recipientId: string,
+  plaintext: string,
+  deviceId = 1,
+  options: EncryptOptions = {}
+): Promise<Envelope> {
+  assertEnvelopeFits(plaintext);
+  const address = ProtocolAddress.new(recipientId, deviceId);
+  const undo = await sessionUndo(state, address);
   const ciphertext = await signalEncrypt(new TextEncoder().encode(plaintext), address, state.sessionStore, state.identityStore);
+  const body = ciphertext.serialize();
+  await assertBodyFits(body, undo);
 
   const senderId = state.getLocalIdentity();
   if (!senderId) throw new Error("Local identity not set. Run 'mega init'.");
 
+  const timestamp = Date.now();
   return {
     version: 1,
     senderId,
+    senderDeviceId: state.getDeviceId(),
     recipientId,
+    recipientDeviceId: deviceId,
     sessionId: `${senderId}::${recipientId}`,
     type: ciphertext.type(),
-    body: toBase64(ciphertext.serialize()),
-    timestamp: Date.now()
+    body: toBase64(body),
+    timestamp,
+    ...(options.expiresInMs !== undefined ? { expiresAt: timestamp + options.expiresInMs } : {})
+  };
+}
+
+export function listSessionDeviceIds(state: SignalState, peerId: string): number[] {
+  return state.sessionStore.listDeviceIds(peerId);
+}
+
+export type SessionInfo = {
+  peerId: string;
+  deviceId: number;
+  // False once the session was archived and no new one has been set up; sending then
+  // needs a fresh bundle.
+  usable: boolean;
+  version?: number;
+  remoteIdentityKey?: string;
+  remoteRegistrationId?: number;
+  // Our messages still carry the PreKey header because the peer has not replied yet.
+  pendingPreKey: boolean;
+  // Earlier sessions kept so messages still in flight on them can be read.
+  archivedStates: number;
+  // Unknown for sessions stored before these were recorded.
+  establishedAt?: number;
+  updatedAt?: number;
+};
+
+export function getSessionInfo(state: SignalState, peerId: string, deviceId = 1): SessionInfo | undefined {
+  const address = ProtocolAddress.new(peerId, deviceId);
+  const stored = state.sessionStore.getSerialized(address);
+  if (!stored) return undefined;
+  const record = SessionRecord.deserialize(stored);
+  const { current, previousStates } = readSessionRecord(stored);
+  const usable = record.hasCurrentState();
+  const times = state.sessionStore.getTimes(address);
+  return {
+    peerId,
+    deviceId,
+    usable,
+    version: current?.version,
+    remoteIdentityKey: current?.remoteIdentityKey ? toBase64(current.remoteIdentityKey) : undefined,
+    remoteRegistrationId: usable ? record.remoteRegistrationId() : undefined,
+    pendingPreKey: current?.pendingPreKey ?? false,
+    archivedStates: previousStates,
+    establishedAt: times?.establishedAt,
+    updatedAt: times?.updatedAt
   };
 }
 
-export async function decryptMessage(state: SignalState, envelope: Envelope): Promise<string> {
-  const address = ProtocolAddress.new(envelope.senderId, 1);
+// Every stored session, or those with `peerId`'s devices.
+export function listSessions(state: SignalState, peerId?: string): SessionInfo[] {
+  return state.sessionStore
+    .listAddresses()
+    .filter((address) => peerId === undefined || address.name === peerId)
+    .map(({ name, deviceId }) => getSessionInfo(state, name, deviceId))
+    .filter((info): info is SessionInfo => info !== undefined);
+}
+
+// Moves the current session with each of `peerId`'s devices (or just `deviceId`) into the
+// record's archive, so the next send needs a fresh bundle. Archived states still decrypt
+// messages sent on them. Returns the devices that had a current session.
+export async function archiveSession(state: SignalState, peerId: string, deviceId?: number): Promise<number[]> {
+  const deviceIds = deviceId === undefined ? listSessionDeviceIds(state, peerId) : [deviceId];
+  const archived: number[] = [];
+  for (const id of deviceIds) {
+    const address = ProtocolAddress.new(peerId, id);
+    const record = await state.sessionStore.getSession(address);
+    if (!record?.hasCurrentState()) continue;
+    record.archiveCurrentState();
+    await state.sessionStore.saveSession(address, record);
+    archived.push(id);
+  }
+  return archived;
+}
+
+// Encrypts one envelope per recipient device. Defaults to every device we hold a
+// session with; callers pass the relay's current device list to skip unlinked ones.
+export async function encryptMessageForDevices(
+  state: SignalState,
+  recipientId: string,
+  plaintext: string,
+  deviceIds: number[] = listSessionDeviceIds(state, recipientId),
+  options: EncryptOptions = {}
+): Promise<Envelope[]> {
+  if (deviceIds.length === 0) throw new Error(`No session with ${recipientId}. Fetch their prekeys first.`);
+  const envelopes: Envelope[] = [];
+  for (const deviceId of deviceIds) {
+    envelopes.push(await encryptMessage(state, recipientId, plaintext, deviceId, options));
+  }
+  return envelopes;
+}
+
+export async function decryptMessage(state: SignalState, envelope: RelayEnvelope): Promise<string> {
+  return (await openEnvelope(state, envelope)).plaintext;
+}
+
+// Decrypts either kind of envelope and reports who sent it. For sealed envelopes the
+// sender comes from the certificate inside, which libsignal checks against the pinned
+// relay trust root and the key that sealed the message.
+export async function openEnvelope(state: SignalState, envelope: RelayEnvelope): Promise<DecryptedMessage> {
+  if (isSealedEnvelope(envelope)) return await unsealMessage(state, envelope);
+
+  const senderDeviceId = envelope.senderDeviceId ?? 1;
+  const address = ProtocolAddress.new(envelope.senderId, senderDeviceId);
   const bytes = fromBase64(envelope.body);
 
+  if (envelope.type === CiphertextMessageType.SenderKey && envelope.groupId) {
+    const plaintext = await groupDecrypt(address, state.senderKeyStore, bytes);
+    return {
+      senderId: envelope.senderId,
+      senderDeviceId,
+      plaintext: new TextDecoder().decode(plaintext),
+      sealed: false,
+      groupId: envelope.groupId
+    };
+  }
   if (envelope.type !== CiphertextMessageType.PreKey && envelope.type !== CiphertextMessageType.Whisper) {
     throw new Error(`Unsupported ciphertext type: ${envelope.type}`);
   }
@@ -267,35 +831,757 @@ export async function decryptMessage(state: SignalState, envelope: Envelope): Pr
         )
       : await signalDecrypt(SignalMessage.deserialize(bytes), address, state.sessionStore, state.identityStore);
 
-  return new TextDecoder().decode(plaintextBuffer);
+  if (envelope.groupId) {
+    const serialized = fromBase64(new TextDecoder().decode(plaintextBuffer));
+    await processSenderKeyDistributionMessage(
+      address,
+      SenderKeyDistributionMessage.deserialize(serialized),
+      state.senderKeyStore
+    );
+    return {
+      senderId: envelope.senderId,
+      senderDeviceId,
+      plaintext: "",
+      sealed: false,
+      groupId: envelope.groupId,
+      senderKeyDistribution: true
+    };
+  }
+
+  return {
+    senderId: envelope.senderId,
+    senderDeviceId,
+    plaintext: new TextDecoder().decode(plaintextBuffer),
+    sealed: false
+  };
 }
 
-export function loadEnvelope(input: unknown): Envelope {
-  return parseEnvelope(input);
+async function unsealMessage(state: SignalState, envelope: SealedEnvelope): Promise<DecryptedMessage> {
+  const localId = state.getLocalIdentity();
+  if (!localId) throw new Error("Local identity not set. Run 'mega init'.");
+  const trustRoot = getTrustRoot(state);
+  if (!trustRoot) throw new Error("Relay trust root not pinned; cannot open sealed-sender messages.");
+
+  const result = await sealedSenderDecryptMessage(
+    fromBase64(envelope.body),
+    PublicKey.deserialize(fromBase64(trustRoot)),
+    envelope.timestamp,
+    null,
+    localId,
+    state.getDeviceId(),
+    state.sessionStore,
+    state.identityStore,
+    state.preKeyStore,
+    state.signedPreKeyStore,
+    state.kyberPreKeyStore
+  );
+  return {
+    senderId: result.senderUuid(),
+    senderDeviceId: result.deviceId(),
+    plaintext: new TextDecoder().decode(result.message()),
+    sealed: true
+  };
+}
+
+// Sealed sender: the relay learns only the recipient. Needs a current sender certificate
+// (see saveSenderCertificate) and is delivered with the recipient's delivery token.
+export async function sealMessage(
+  state: SignalState,
+  recipientId: string,
+  plaintext: string,
+  deviceId = 1,
+  options: EncryptOptions = {}
+): Promise<SealedEnvelope> {
+  assertEnvelopeFits(plaintext);
+  const certificate = requireSenderCertificate(state);
+  const address = ProtocolAddress.new(recipientId, deviceId);
+  const undo = await sessionUndo(state, address);
+  const sealed = await sealedSenderEncryptMessage(
+    new TextEncoder().encode(plaintext),
+    address,
+    certificate,
+    state.sessionStore,
+    state.identityStore
+  );
+  await assertBodyFits(sealed, undo);
+
+  const timestamp = Date.now();
+  return {
+    version: 1,
+    sealed: true,
+    recipientId,
+    recipientDeviceId: deviceId,
+    body: toBase64(sealed),
+    timestamp,
+    ...(options.expiresInMs !== undefined ? { expiresAt: timestamp + options.expiresInMs } : {})
+  };
+}
+
+export async function sealMessageForDevices(
+  state: SignalState,
+  recipientId: string,
+  plaintext: string,
+  deviceIds: number[] = listSessionDeviceIds(state, recipientId),
+  options: EncryptOptions = {}
+): Promise<SealedEnvelope[]> {
+  if (deviceIds.length === 0) throw new Error(`No session with ${recipientId}. Fetch their prekeys first.`);
+  const envelopes: SealedEnvelope[] = [];
+  for (const deviceId of deviceIds) {
+    envelopes.push(await sealMessage(state, recipientId, plaintext, deviceId, options));
+  }
+  return envelopes;
+}
+
+export function getTrustRoot(state: SignalState): string | undefined {
+  return state.store.get<string>(SEALED_TRUST_ROOT);
+}
+
+// Trust on first use: the relay's trust root is pinned the first time it is seen and a
+// different one later is refused rather than silently replaced.
+export function pinTrustRoot(state: SignalState, trustRoot: string): void {
+  const pinned = getTrustRoot(state);
+  if (pinned === trustRoot) return;
+  if (pinned) throw new Error("Relay trust root changed since it was pinned; refusing sealed-sender certificates.");
+  PublicKey.deserialize(fromBase64(trustRoot));
+  state.store.set(SEALED_TRUST_ROOT, trustRoot);
+}
+
+export function saveSenderCertificate(state: SignalState, certificate: string): void {
+  const trustRoot = getTrustRoot(state);
+  if (!trustRoot) throw new Error("Relay trust root not pinned; fetch it before a sender certificate.");
+  const parsed = SenderCertificate.deserialize(fromBase64(certificate));
+  if (!parsed.validate(PublicKey.deserialize(fromBase64(trustRoot)), Date.now())) {
+    throw new Error("Sender certificate is not signed by the pinned relay trust root or has expired.");
+  }
+  const identityKey = state.getIdentityKeyPair().publicKey;
+  if (
+    parsed.senderUuid() !== state.getLocalIdentity() ||
+    parsed.senderDeviceId() !== state.getDeviceId() ||
+    !parsed.key().equals(identityKey)
+  ) {
+    throw new Error("Sender certificate was issued for a different identity.");
+  }
+  state.store.set(SEALED_SENDER_CERTIFICATE, certificate);
+}
+
+// True while the stored certificate stays valid for at least `marginMs` more.
+export function hasSenderCertificate(state: SignalState, marginMs = 60_000): boolean {
+  const stored = state.store.get<string>(SEALED_SENDER_CERTIFICATE);
+  if (!stored) return false;
+  return SenderCertificate.deserialize(fromBase64(stored)).expiration() > Date.now() + marginMs;
+}
+
+function requireSenderCertificate(state: SignalState): SenderCertificate {
+  const stored = state.store.get<string>(SEALED_SENDER_CERTIFICATE);
+  if (!stored) throw new Error("No sender certificate. Fetch one from the relay first.");
+  const certificate = SenderCertificate.deserialize(fromBase64(stored));
+  if (certificate.expiration() <= Date.now()) throw new Error("Sender certificate expired. Fetch a new one.");
+  return certificate;
+}
+
+// Our own token, generated once and published on registration; peers need it to
+// deliver sealed messages to us.
+export function getDeliveryToken(state: SignalState): string {
+  const existing = state.store.get<string>(SEALED_DELIVERY_TOKEN);
+  if (existing) return existing;
+  const token = crypto.randomBytes(24).toString("base64url");
+  state.store.set(SEALED_DELIVERY_TOKEN, token);
+  return token;
+}
+
+export function savePeerDeliveryToken(state: SignalState, peerId: string, token: string): void {
+  state.store.set(`${SEALED_PEER_TOKEN_PREFIX}${peerId}`, token);
+}
+
+export function getPeerDeliveryToken(state: SignalState, peerId: string): string | undefined {
+  return state.store.get<string>(`${SEALED_PEER_TOKEN_PREFIX}${peerId}`);
+}
+
+// Our token travels to each peer device in an encrypted message (encodeDeliveryTokenMessage)
+// rather than through the relay. The identity key it went to is kept per device, so a
+// reinstalled device, whose new store lacks it, gets it again.
+export function devicesAwaitingDeliveryToken(state: SignalState, peerId: string, deviceIds: number[]): number[] {
+  const shared = state.store.get<Record<string, string>>(`${SEALED_TOKEN_SHARED_PREFIX}${peerId}`) ?? {};
+  return deviceIds.filter((deviceId) => {
+    const key = state.identityStore.getCurrentKey(ProtocolAddress.new(peerId, deviceId));
+    return !key || shared[deviceId] !== key;
+  });
+}
+
+export function markDeliveryTokenShared(state: SignalState, peerId: string, deviceIds: number[]): void {
+  const storeKey = `${SEALED_TOKEN_SHARED_PREFIX}${peerId}`;
+  const shared = state.store.get<Record<string, string>>(storeKey) ?? {};
+  for (const deviceId of deviceIds) {
+    const key = state.identityStore.getCurrentKey(ProtocolAddress.new(peerId, deviceId));
+    if (key) shared[deviceId] = key;
+  }
+  state.store.set(storeKey, shared);
+}
+
+export function getGroup(state: SignalState, groupId: string): GroupState | undefined {
+  return state.store.get<GroupState>(`${GROUP_PREFIX}${groupId}`);
+}
+
+export function listGroups(state: SignalState): GroupState[] {
+  const groups: GroupState[] = [];
+  for (const key of state.store.listKeysByPrefix(GROUP_PREFIX)) {
+    const group = state.store.get<GroupState>(key);
+    if (group) groups.push(group);
+  }
+  return groups.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Records the relay's current view of a group. When anyone has been removed since the
+// last sync we switch to a fresh sender-key chain, so they cannot read what follows.
+export function syncGroup(state: SignalState, info: GroupInfo): GroupState {
+  const existing = getGroup(state, info.id);
+  const keepChain = existing !== undefined && existing.members.every((member) => info.members.includes(member));
+  const group: GroupState = {
+    id: info.id,
+    name: info.name,
+    owner: info.owner,
+    members: [...info.members],
+    distributionId: keepChain ? existing.distributionId : crypto.randomUUID(),
+    distributedTo: keepChain ? existing.distributedTo : []
+  };
+  state.store.set(`${GROUP_PREFIX}${group.id}`, group);
+  return group;
+}
+
+function requireGroup(state: SignalState, groupId: string): GroupState {
+  const group = getGroup(state, groupId);
+  if (!group) throw new Error(`Unknown group ${groupId}. Fetch it from the relay first.`);
+  return group;
+}
+
+// Creates our chain for the group on first use; later calls describe the current one.
+async function senderKeyDistribution(state: SignalState, group: GroupState): Promise<SenderKeyDistributionMessage> {
+  const localId = state.getLocalIdentity();
+  if (!localId) throw new Error("Local identity not set. Run 'mega init'.");
+  const sender = ProtocolAddress.new(localId, state.getDeviceId());
+  return await SenderKeyDistributionMessage.create(sender, group.distributionId, state.senderKeyStore);
+}
+
+// Hands our sender key for the group to each listed device that does not hold the current
+// chain yet, over the pairwise session. Returns nothing once every device is covered.
+export async function encryptSenderKeyForDevices(
+  state: SignalState,
+  groupId: string,
+  recipientId: string,
+  deviceIds: number[]
+): Promise<Envelope[]> {
+  const group = requireGroup(state, groupId);
+  const pending = deviceIds.filter((deviceId) => !group.distributedTo.includes(`${recipientId}.${deviceId}`));
+  if (pending.length === 0) return [];
+
+  const distribution = toBase64((await senderKeyDistribution(state, group)).serialize());
+  const envelopes: Envelope[] = [];
+  for (const deviceId of pending) {
+    const envelope = await encryptMessage(state, recipientId, distribution, deviceId);
+    envelopes.push({ ...envelope, groupId });
+    group.distributedTo.push(`${recipientId}.${deviceId}`);
+  }
+  state.store.set(`${GROUP_PREFIX}${groupId}`, group);
+  return envelopes;
+}
+
+// One ciphertext for the whole group; the relay copies it to every member device.
+export async function encryptGroupMessage(
+  state: SignalState,
+  groupId: string,
+  plaintext: string,
+  options: EncryptOptions = {}
+): Promise<Envelope> {
+  assertEnvelopeFits(plaintext);
+  const group = requireGroup(state, groupId);
+  const senderId = state.getLocalIdentity();
+  if (!senderId) throw new Error("Local identity not set. Run 'mega init'.");
+  await senderKeyDistribution(state, group);
+  const sender = ProtocolAddress.new(senderId, state.getDeviceId());
+  const senderKey = await state.senderKeyStore.getSenderKey(sender, group.distributionId);
+  const ciphertext = await groupEncrypt(
+    sender,
+    group.distributionId,
+    state.senderKeyStore,
+    new TextEncoder().encode(plaintext)
+  );
+  const body = ciphertext.serialize();
+  await assertBodyFits(body, async () => {
+    if (senderKey) await state.senderKeyStore.saveSenderKey(sender, group.distributionId, senderKey);
+  });
+
+  const timestamp = Date.now();
+  return {
+    version: 1,
+    senderId,
+    senderDeviceId: state.getDeviceId(),
+    recipientId: groupId,
+    sessionId: `${senderId}::${groupId}`,
+    type: ciphertext.type(),
+    body: toBase64(body),
+    timestamp,
+    groupId,
+    ...(options.expiresInMs !== undefined ? { expiresAt: timestamp + options.expiresInMs } : {})
+  };
+}
+
+export function exportIdentityKey(state: SignalState): string {
+  return toBase64(state.getIdentityKeyPair().publicKey.serialize());
+}
+
+async function requirePeerIdentity(
+  state: SignalState,
+  peerId: string,
+  deviceId?: number
+): Promise<{ deviceId: number; key: PublicKey }> {
+  const deviceIds =
+    deviceId !== undefined
+      ? [deviceId]
+      : state.identityStore.listAddresses().filter((address) => address.name === peerId).map((address) => address.deviceId);
+  // A refused key is the one the peer now uses, so its safety number is the one to check.
+  for (const id of deviceIds) {
+    const address = ProtocolAddress.new(peerId, id);
+    const key = state.identityStore.getPendingIdentity(address) ?? (await state.identityStore.getIdentity(address));
+    if (key) return { deviceId: id, key };
+  }
+  const device = deviceId !== undefined ? ` device ${deviceId}` : "";
+  throw new Error(`No identity key for ${peerId}${device}. Open a session with them first.`);
+}
+
+function buildFingerprint(state: SignalState, peerId: string, peerKey: PublicKey): Fingerprint {
+  const localId = state.getLocalIdentity();
+  if (!localId) throw new Error("Local identity not set. Run 'mega init'.");
+  const encoder = new TextEncoder();
+  return Fingerprint.new(
+    FINGERPRINT_ITERATIONS,
+    FINGERPRINT_VERSION,
+    encoder.encode(localId),
+    state.getIdentityKeyPair().publicKey,
+    encoder.encode(peerId),
+    peerKey
+  );
+}
+
+// Safety number for our identity and the key we hold for `peerId` (its lowest device
+// unless one is named). Peers compare it out of band to rule out a swapped key.
+export async function getSafetyNumber(state: SignalState, peerId: string, deviceId?: number): Promise<SafetyNumber> {
+  const peer = await requirePeerIdentity(state, peerId, deviceId);
+  const fingerprint = buildFingerprint(state, peerId, peer.key);
+  return {
+    peerId,
+    deviceId: peer.deviceId,
+    displayable: fingerprint.displayableFingerprint().toString(),
+    scannable: toBase64(fingerprint.scannableFingerprint().toBuffer()),
+    verified:
+      state.identityStore.getVerifiedKey(ProtocolAddress.new(peerId, peer.deviceId)) === toBase64(peer.key.serialize())
+  };
+}
+
+export async function listSafetyNumbers(state: SignalState): Promise<SafetyNumber[]> {
+  const numbers: SafetyNumber[] = [];
+  for (const address of state.identityStore.listAddresses()) {
+    numbers.push(await getSafetyNumber(state, address.name, address.deviceId));
+  }
+  return numbers;
+}
+
+// Twelve groups of five digits, the way Signal shows them.
+export function formatSafetyNumber(displayable: string): string {
+  return displayable.match(/.{1,5}/g)?.join(" ") ?? displayable;
+}
+
+// Accepts what the peer read out (digits, spacing ignored) or the base64 payload scanned
+// from their QR code.
+export async function matchesSafetyNumber(
+  state: SignalState,
+  peerId: string,
+  candidate: string,
+  deviceId?: number
+): Promise<boolean> {
+  const ours = await getSafetyNumber(state, peerId, deviceId);
+  const digits = candidate.replace(/\s+/g, "");
+  if (/^\d+$/.test(digits)) return digits === ours.displayable;
+  try {
+    return ScannableFingerprint._fromBuffer(fromBase64(ours.scannable)).compare(
+      ScannableFingerprint._fromBuffer(fromBase64(candidate.trim()))
+    );
+  } catch {
+    // Not a scannable fingerprint, or one from another version.
+    return false;
+  }
+}
+
+// The flag is tied to the key that was verified, so a changed identity key reads as
+// unverified until the new safety number is checked again. Verifying also approves the
+// key, the same as `trustIdentity`.
+export async function setIdentityVerified(
+  state: SignalState,
+  peerId: string,
+  verified: boolean,
+  deviceId?: number
+): Promise<SafetyNumber> {
+  const peer = await requirePeerIdentity(state, peerId, deviceId);
+  const address = ProtocolAddress.new(peerId, peer.deviceId);
+  if (verified) approveIdentity(state, address, true);
+  else state.identityStore.clearVerified(address);
+  return await getSafetyNumber(state, peerId, peer.deviceId);
+}
+
+function approveIdentity(state: SignalState, address: ProtocolAddress, verified: boolean): void {
+  const { replaced } = state.identityStore.approve(address, { verified });
+  // The old session is bound to the replaced key; the next send fetches a fresh bundle.
+  if (replaced) state.sessionStore.removeSession(address);
+}
+
+function peerDeviceIds(state: SignalState, peerId: string, deviceId?: number): number[] {
+  if (deviceId !== undefined) return [deviceId];
+  const ids = state.identityStore
+    .listAddresses()
+    .filter((address) => address.name === peerId)
+    .map((address) => address.deviceId);
+  if (ids.length === 0) throw new Error(`No identity key for ${peerId}. Open a session with them first.`);
+  return ids;
+}
+
+export function getIdentityTrust(state: SignalState, peerId: string, deviceId = 1): IdentityTrust {
+  const store = state.identityStore;
+  const address = ProtocolAddress.new(peerId, deviceId);
+  const pending = store.getPendingIdentity(address);
+  const pendingKey = pending ? toBase64(pending.serialize()) : undefined;
+  const key = store.getCurrentKey(address) ?? pendingKey;
+  if (!key) throw new Error(`No identity key for ${peerId} device ${deviceId}.`);
+
+  let status: IdentityTrustStatus = "trusted";
+  if (store.isBlocked(address)) status = "blocked";
+  else if (pendingKey) status = "pending";
+  else if (store.policy === "strict" && store.getVerifiedKey(address) !== key) status = "unverified";
+  else if ((store.getApprovedKey(address) ?? key) !== key) status = "changed";
+  return { peerId, deviceId, status, policy: store.policy, key, ...(pendingKey ? { pendingKey } : {}) };
+}
+
+// Approves the key `peerId` now uses on each device (or just `deviceId`), including one
+// refused under the policy, and lifts an earlier `untrustIdentity`.
+export function trustIdentity(state: SignalState, peerId: string, deviceId?: number): IdentityTrust[] {
+  return peerDeviceIds(state, peerId, deviceId).map((id) => {
+    approveIdentity(state, ProtocolAddress.new(peerId, id), false);
+    return getIdentityTrust(state, peerId, id);
+  });
+}
+
+// Refuses messages from and to `peerId` until it is trusted again.
+export function untrustIdentity(state: SignalState, peerId: string, deviceId?: number): IdentityTrust[] {
+  return peerDeviceIds(state, peerId, deviceId).map((id) => {
+    state.identityStore.block(ProtocolAddress.new(peerId, id));
+    return getIdentityTrust(state, peerId, id);
+  });
+}
+
+// Oldest first, across the peer's devices.
+export function listIdentityHistory(state: SignalState, peerId: string, deviceId?: number): IdentityEvent[] {
+  return peerDeviceIds(state, peerId, deviceId)
+    .flatMap((id) => state.identityStore.history(ProtocolAddress.new(peerId, id)))
+    .sort((a, b) => a.at - b.at);
+}
+
+export function createRelayAuthHeaders(
+  state: SignalState,
+  method: string,
+  path: string,
+  body: string | Uint8Array = ""
+): Record<string, string> {
+  const id = state.getLocalIdentity();
+  if (!id) throw new Error("Local identity not set. Run 'mega init'.");
+  const deviceId = state.getDeviceId();
+  const timestamp = Date.now();
+  const message = buildRelayAuthMessage({ method, path, id, deviceId, timestamp, body });
+  const signature = state.getIdentityKeyPair().privateKey.sign(message);
+  return {
+    [RelayAuthHeaders.id]: id,
+    [RelayAuthHeaders.device]: String(deviceId),
+    [RelayAuthHeaders.timestamp]: String(timestamp),
+    [RelayAuthHeaders.signature]: toBase64(signature)
+  };
+}
+
+export function loadEnvelope(input: unknown): RelayEnvelope {
+  return parseRelayEnvelope(input);
+}
+
+export function loadRelayFrame(input: unknown): RelayMessageFrame {
+  return parseRelayMessageFrame(input);
+}
+
+// A redelivered frame whose first copy was already decrypted; safe to ack again.
+export function isDuplicateMessageError(err: unknown): boolean {
+  return LibSignalErrorBase.is(err, ErrorCode.DuplicatedMessage);
+}
+
+const SESSION_DECRYPT_OPERATIONS = new Set([
+  "SessionCipher_DecryptSignalMessage",
+  "SessionCipher_DecryptPreKeySignalMessage"
+]);
+
+// libsignal has no codes for these, only text: no session record for the sender, or a PreKey
+// message built on prekeys this store does not hold (our stores throw "<Kind>PreKey <id> not found").
+const STALE_SESSION_MESSAGES = [/session with \S+ not found/, /\b(?:Signed|Kyber)?PreKey \d+ not found/];
+
+// A message that no session we hold can open because that session, or the prekeys it was built
+// on, are gone: typically after the peer reinstalled or one side restored an old backup. A
+// message that fails to decrypt on a session we do hold does not count; tampered ciphertext
+// fails the same way, and resetting on it would let anyone on the path break a working session.
+export function isStaleSessionError(err: unknown): boolean {
+  if (LibSignalErrorBase.is(err, ErrorCode.InvalidSession)) return true;
+  if (!LibSignalErrorBase.is(err, ErrorCode.Generic) || !SESSION_DECRYPT_OPERATIONS.has(err.operation)) return false;
+  return STALE_SESSION_MESSAGES.some((pattern) => pattern.test(err.message));
+}
+
+// The peer's identity key was refused under the trust policy; see `trustIdentity`.
+export function isUntrustedIdentityError(err: unknown): boolean {
+  return LibSignalErrorBase.is(err, ErrorCode.UntrustedIdentity);
 }
 
 const INBOX_PREFIX = "inbox:";
+// One empty row per message whose key carries what queries filter on, so a query reads keys
+// only and decrypts just the messages it returns. Keys name peers, as session keys already do.
+const INBOX_INDEX_PREFIX = "inbox-index:";
+// Set once the inbox rows written before the index existed have been indexed.
+const META_INBOX_INDEXED = "inboxIndexed";
+
+export type InboxQuery = {
+  senderId?: string;
+  // Epoch ms, exclusive.
+  since?: number;
+  until?: number;
+  // The most recent `limit` matches.
+  limit?: number;
+};
+
+export type InboxRetention = {
+  maxAgeMs?: number;
+  maxCount?: number;
+};
+
+type InboxIndexEntry = {
+  key: string;
+  id: string;
+  senderId: string;
+  timestamp: number;
+};
+
+function inboxIndexKey(message: Pick<InboxMessage, "id" | "senderId" | "timestamp">): string {
+  // Fixed-width timestamps sort as strings.
+  const timestamp = String(message.timestamp).padStart(16, "0");
+  return `${INBOX_INDEX_PREFIX}${timestamp}:${encodeURIComponent(message.senderId)}:${encodeURIComponent(message.id)}`;
+}
+
+function parseInboxIndexKey(key: string): InboxIndexEntry | undefined {
+  const [timestamp, senderId, id] = key.slice(INBOX_INDEX_PREFIX.length).split(":");
+  if (!timestamp || !senderId || !id) return undefined;
+  return { key, id: decodeURIComponent(id), senderId: decodeURIComponent(senderId), timestamp: Number(timestamp) };
+}
+
+// Oldest first.
+function listInboxIndex(state: SignalState): InboxIndexEntry[] {
+  if (!state.store.getMeta<boolean>(META_INBOX_INDEXED)) {
+    state.store.transaction(() => {
+      for (const key of state.store.listKeysByPrefix(INBOX_PREFIX)) {
+        const message = state.store.get<InboxMessage>(key);
+        if (message) state.store.set(inboxIndexKey(message), true);
+      }
+      state.store.setMeta(META_INBOX_INDEXED, true);
+    });
+  }
+  return state.store
+    .listKeysByPrefix(INBOX_INDEX_PREFIX)
+    .sort()
+    .map(parseInboxIndexKey)
+    .filter((entry): entry is InboxIndexEntry => entry !== undefined);
+}
 
 export function saveInboxMessage(state: SignalState, message: InboxMessage): void {
-  state.store.set(`${INBOX_PREFIX}${message.id}`, message);
+  state.store.transaction(() => {
+    state.store.set(`${INBOX_PREFIX}${message.id}`, message);
+    state.store.set(inboxIndexKey(message), true);
+  });
 }
 
-export function listInboxMessages(state: SignalState): InboxMessage[] {
-  const keys = state.store.listKeysByPrefix(INBOX_PREFIX);
+export function getInboxMessage(state: SignalState, id: string): InboxMessage | undefined {
+  return state.store.get<InboxMessage>(`${INBOX_PREFIX}${id}`);
+}
+
+export function deleteInboxMessage(state: SignalState, id: string): boolean {
+  const entries = listInboxIndex(state).filter((entry) => entry.id === id);
+  const existed = state.store.has(`${INBOX_PREFIX}${id}`);
+  state.store.transaction(() => {
+    state.store.delete(`${INBOX_PREFIX}${id}`);
+    for (const entry of entries) state.store.delete(entry.key);
+  });
+  return existed;
+}
+
+// Oldest first.
+export function queryInboxMessages(state: SignalState, query: InboxQuery = {}): InboxMessage[] {
+  let entries = listInboxIndex(state).filter(
+    (entry) =>
+      (query.senderId === undefined || entry.senderId === query.senderId) &&
+      (query.since === undefined || entry.timestamp > query.since) &&
+      (query.until === undefined || entry.timestamp < query.until)
+  );
+  if (query.limit !== undefined) entries = query.limit > 0 ? entries.slice(-query.limit) : [];
   const messages: InboxMessage[] = [];
-  for (const key of keys) {
-    const msg = state.store.get<InboxMessage>(key);
+  for (const entry of entries) {
+    const message = getInboxMessage(state, entry.id);
+    if (message) messages.push(message);
+  }
+  return messages;
+}
+
+export function listInboxMessages(state: SignalState): InboxMessage[] {
+  return queryInboxMessages(state);
+}
+
+// Returns the messages that were unread until now; unknown ids are skipped.
+export function markInboxMessagesRead(state: SignalState, ids: string[], at = Date.now()): InboxMessage[] {
+  const marked: InboxMessage[] = [];
+  state.store.transaction(() => {
+    for (const id of ids) {
+      const message = getInboxMessage(state, id);
+      if (!message || message.readAt) continue;
+      const next = { ...message, readAt: at };
+      state.store.set(`${INBOX_PREFIX}${id}`, next);
+      marked.push(next);
+    }
+  });
+  return marked;
+}
+
+// Deletes messages older than `maxAgeMs`, then the oldest beyond `maxCount`, using the
+// index alone. Returns how many were deleted.
+export function pruneInbox(state: SignalState, retention: InboxRetention, now = Date.now()): number {
+  const entries = listInboxIndex(state);
+  const cutoff = retention.maxAgeMs === undefined ? -Infinity : now - retention.maxAgeMs;
+  const kept = entries.filter((entry) => entry.timestamp >= cutoff);
+  const overflow = retention.maxCount === undefined ? 0 : Math.max(0, kept.length - retention.maxCount);
+  const doomed = [...entries.filter((entry) => entry.timestamp < cutoff), ...kept.slice(0, overflow)];
+  state.store.transaction(() => {
+    for (const entry of doomed) {
+      state.store.delete(`${INBOX_PREFIX}${entry.id}`);
+      state.store.delete(entry.key);
+    }
+  });
+  return doomed.length;
+}
+
+const SENT_PREFIX = "sent:";
+
+export function saveSentMessage(state: SignalState, message: SentMessage): void {
+  state.store.set(`${SENT_PREFIX}${message.id}`, message);
+}
+
+export function listSentMessages(state: SignalState): SentMessage[] {
+  const messages: SentMessage[] = [];
+  for (const key of state.store.listKeysByPrefix(SENT_PREFIX)) {
+    const msg = state.store.get<SentMessage>(key);
     if (msg) messages.push(msg);
   }
-  messages.sort((a, b) => a.timestamp - b.timestamp);
+  messages.sort((a, b) => a.sentAt - b.sentAt);
   return messages;
 }
 
+export function sentMessageStatus(message: SentMessage): MessageStatus {
+  if (message.readAt) return "read";
+  return message.deliveredAt ? "delivered" : "sent";
+}
+
+// Marks our messages to `senderId` named by the receipt. A state never goes backwards,
+// and a read receipt also counts as delivery for a receipt that was lost or skipped.
+export function applyReceipt(
+  state: SignalState,
+  senderId: string,
+  receipt: ReceiptMessage,
+  at = Date.now()
+): SentMessage[] {
+  const timestamps = new Set(receipt.timestamps);
+  const updated: SentMessage[] = [];
+  for (const message of listSentMessages(state)) {
+    if (message.recipientId !== senderId) continue;
+    if (!message.timestamps.some((timestamp) => timestamps.has(timestamp))) continue;
+    const next = { ...message, deliveredAt: message.deliveredAt ?? at };
+    if (receipt.receipt === "read") next.readAt = message.readAt ?? at;
+    saveSentMessage(state, next);
+    updated.push(next);
+  }
+  return updated;
+}
+
+export { decryptAttachment, encryptAttachment, type EncryptedAttachment } from "./attachments.js";
+export {
+  fetchRelayJson,
+  RelayHttpError,
+  RelayResponseError,
+  RelayStream,
+  SignalClient,
+  type BootstrapOptions,
+  type ListenOptions,
+  type ReceivedMessage,
+  type RelayStreamEvents,
+  type RequestOptions,
+  type ResponseSchema,
+  type SendOptions,
+  type SignalClientOptions
+} from "./client.js";
+export { BACKUP_FORMAT, BACKUP_VERSION, type BackupFile, type BackupHeader } from "./backup.js";
+
 export {
+  AttachmentUploadResponseSchema,
+  DeviceListResponseSchema,
+  DeviceResponseSchema,
+  GroupListResponseSchema,
+  GroupMessageResponseSchema,
+  PreKeyBundleResponseSchema,
+  PreKeyUploadResponseSchema,
+  RelayDiagnosticsSchema,
+  RelayGroupSchema,
+  encodeAttachmentMessage,
+  encodeDeliveryTokenMessage,
+  encodeReceiptMessage,
+  encodeRelayAck,
+  ensureColumn,
+  isSealedEnvelope,
+  migrate,
+  parseAttachmentMessage,
+  parseDeliveryTokenMessage,
+  parseReceiptMessage,
+  schemaVersion,
+  SchemaTooNewError,
+  type AttachmentMessage,
+  type AttachmentPointer,
+  type Bundle,
+  type DeliveryTokenMessage,
+  type Migration,
+  type MigrationDatabase,
+  type OneTimePreKey,
+  type PreKeyStatus,
+  type ReceiptMessage,
+  type ReceiptType,
+  type RelayDiagnostics,
+  type RelayEnvelope,
+  type RelayGroup,
+  type RelayMessageFrame,
+  type SealedEnvelope
+} from "@mega/shared";
+
+export { TRUST_POLICIES, type IdentityEvent, type TrustPolicy } from "./store.js";
+
+export {
+  StorageAdapter,
   EncryptedStore,
+  MemoryStore,
+  WrongPassphraseError,
   SqliteIdentityStore,
   SqliteSessionStore,
   SqlitePreKeyStore,
   SqliteSignedPreKeyStore,
-  SqliteKyberPreKeyStore
+  SqliteKyberPreKeyStore,
+  SqliteSenderKeyStore
 };
@@ -0,0 +1,75 @@
+import { Buffer } from "node:buffer";
+import { decodeValue, encodeValue } from "./crypto.js";
+import { StorageAdapter, type StoreSnapshot } from "./store.js";
+
+// Keeps everything in process memory and nothing on disk, for tests and short-lived tools.
+// Values are held in their encoded form, as the SQLite store holds them, so a caller that
+// mutates what it read or wrote cannot change the stored copy.
+export class MemoryStore extends StorageAdapter {
+  private rows = new Map<string, string>();
+  private meta = new Map<string, string>();
+  private depth = 0;
+
+  get<T>(key: string): T | undefined {
+    const value = this.rows.get(key);
+    return value === undefined ? undefined : (decodeValue(value) as T);
+  }
+
+  set(key: string, value: unknown): void {
+    this.rows.set(key, encodeValue(value));
+  }
+
+  has(key: string): boolean {
+    return this.rows.has(key);
+  }
+
+  delete(key: string): void {
+    this.rows.delete(key);
+  }
+
+  listKeysByPrefix(prefix: string): string[] {
+    return [...this.rows.keys()].filter((key) => key.startsWith(prefix)).sort();
+  }
+
+  // Nested calls run inside the outermost one, which restores both maps if it throws.
+  transaction<T>(fn: () => T): T {
+    if (this.depth > 0) return fn();
+    const rows = new Map(this.rows);
+    const meta = new Map(this.meta);
+    this.depth += 1;
+    try {
+      return fn();
+    } catch (err) {
+      this.rows = rows;
+      this.meta = meta;
+      throw err;
+    } finally {
+      this.depth -= 1;
+    }
+  }
+
+  getMeta<T>(key: string): T | undefined {
+    const value = this.meta.get(key);
+    return value === undefined ? undefined : (JSON.parse(value) as T);
+  }
+
+  setMeta(key: string, value: unknown): void {
+    this.meta.set(key, JSON.stringify(value));
+  }
+
+  exportSnapshot(): StoreSnapshot {
+    const meta: Record<string, unknown> = {};
+    for (const [key, value] of this.meta) meta[key] = JSON.parse(value);
+    const rows = [...this.rows.keys()]
+      .sort()
+      .map((key) => ({ key, value: Buffer.from(this.rows.get(key) as string, "utf8").toString("base64") }));
+    return { meta, rows };
+  }
+
+  importSnapshot(snapshot: StoreSnapshot): void {
+    const meta = new Map(Object.entries(snapshot.meta).map(([key, value]) => [key, JSON.stringify(value)]));
+    const rows = new Map(snapshot.rows.map((row) => [row.key, Buffer.from(row.value, "base64").toString("utf8")]));
+    this.meta = meta;
+    this.rows = rows;
+  }
+}
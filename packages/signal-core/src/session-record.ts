@@ -0,0 +1,88 @@
+// SessionRecord only exposes registration ids, so the rest of what `mega session show`
+// reports is read from the serialized record. Field numbers are libsignal's storage.proto:
+//   RecordStructure  { 1: current_session, 2: previous_sessions (repeated) }
+//   SessionStructure { 1: session_version, 3: remote_identity_public, 9: pending_pre_key,
+//                      13: alice_base_key }
+export type SessionRecordFields = {
+  // Absent when the current state was archived.
+  current?: {
+    version: number;
+    remoteIdentityKey?: Uint8Array;
+    // Identifies the session: both sides derive it from the same X3DH base key.
+    baseKey?: Uint8Array;
+    // Set until the peer first replies; our messages still carry the PreKey header.
+    pendingPreKey: boolean;
+  };
+  previousStates: number;
+};
+
+type Field = { field: number; value: number | Uint8Array };
+
+function readVarint(bytes: Uint8Array, offset: number): [number, number] {
+  let value = 0;
+  let scale = 1;
+  for (let pos = offset; pos < bytes.length; pos += 1) {
+    const byte = bytes[pos];
+    value += (byte & 0x7f) * scale;
+    if ((byte & 0x80) === 0) return [value, pos + 1];
+    scale *= 128;
+  }
+  throw new Error("Truncated session record.");
+}
+
+function readFields(bytes: Uint8Array): Field[] {
+  const fields: Field[] = [];
+  let offset = 0;
+  while (offset < bytes.length) {
+    const [tag, next] = readVarint(bytes, offset);
+    const field = Math.floor(tag / 8);
+    offset = next;
+    switch (tag & 7) {
+      case 0: {
+        const [value, end] = readVarint(bytes, offset);
+        fields.push({ field, value });
+        offset = end;
+        break;
+      }
+      case 1:
+        offset += 8;
+        break;
+      case 2: {
+        const [length, start] = readVarint(bytes, offset);
+        if (start + length > bytes.length) throw new Error("Truncated session record.");
+        fields.push({ field, value: bytes.subarray(start, start + length) });
+        offset = start + length;
+        break;
+      }
+      case 5:
+        offset += 4;
+        break;
+      default:
+        throw new Error(`Unsupported wire type in session record: ${tag & 7}.`);
+    }
+  }
+  return fields;
+}
+
+export function readSessionRecord(serialized: Uint8Array): SessionRecordFields {
+  const record = readFields(serialized);
+  const current = record.find((entry) => entry.field === 1)?.value;
+  const previousStates = record.filter((entry) => entry.field === 2).length;
+  if (!(current instanceof Uint8Array)) return { previousStates };
+
+  const session = readFields(current);
+  const bytesOf = (field: number): Uint8Array | undefined => {
+    const value = session.find((entry) => entry.field === field)?.value;
+    return value instanceof Uint8Array ? value : undefined;
+  };
+  const version = session.find((entry) => entry.field === 1)?.value;
+  return {
+    current: {
+      version: typeof version === "number" ? version : 0,
+      remoteIdentityKey: bytesOf(3),
+      baseKey: bytesOf(13),
+      pendingPreKey: bytesOf(9) !== undefined
+    },
+    previousStates
+  };
+}
@@ -10,30 +10,125 @@ import {
   PreKeyStore,
   ProtocolAddress,
   PublicKey,
+  SenderKeyRecord,
+  SenderKeyStore,
   SessionRecord,
   SessionStore,
   SignedPreKeyRecord,
   SignedPreKeyStore,
   PrivateKey
 } from "@signalapp/libsignal-client";
-import { createKdfParams, decryptJson, deriveKey, encryptJson, type KdfParams } from "./crypto.js";
+import { migrate, type Migration } from "@mega/shared";
+import { readSessionRecord } from "./session-record.js";
+import {
+  createKdfParams,
+  decryptBuffer,
+  decryptJson,
+  deriveKey,
+  encryptBuffer,
+  encryptJson,
+  fromBase64,
+  toBase64,
+  type KdfParams
+} from "./crypto.js";
 
 const META_KDF = "kdf";
 const META_LOCAL_ID = "localId";
 const META_DEVICE_ID = "deviceId";
 const META_REG_ID = "registrationId";
+// A known value encrypted under the store key, so a wrong passphrase fails at open.
+const META_KEY_CHECK = "keyCheck";
+const KEY_CHECK_PLAINTEXT = "mega-store-key-check";
+
+// Everything in a store, decrypted: metadata (identity ids, not KDF state) and each row's
+// plaintext value in base64.
+export type StoreSnapshot = {
+  meta: Record<string, unknown>;
+  rows: { key: string; value: string }[];
+};
+
+// Where a SignalState keeps everything: JSON-like values (Uint8Array allowed) under string
+// keys, plus a few metadata entries. The libsignal stores below sit on top of this.
+export abstract class StorageAdapter {
+  abstract get<T>(key: string): T | undefined;
+  abstract set(key: string, value: unknown): void;
+  abstract has(key: string): boolean;
+  abstract delete(key: string): void;
+  // Keys that start with `prefix` exactly (case-sensitive, no wildcards), in key order.
+  abstract listKeysByPrefix(prefix: string): string[];
+  // Runs `fn` so that either all of its writes land or none do. Synchronous only.
+  abstract transaction<T>(fn: () => T): T;
+  abstract getMeta<T>(key: string): T | undefined;
+  abstract setMeta(key: string, value: unknown): void;
+  abstract exportSnapshot(): StoreSnapshot;
+  // Replaces all metadata and rows with the snapshot's.
+  abstract importSnapshot(snapshot: StoreSnapshot): void;
+
+  getLocalId(): string | undefined {
+    return this.getMeta<string>(META_LOCAL_ID);
+  }
+
+  setLocalId(id: string): void {
+    this.setMeta(META_LOCAL_ID, id);
+  }
+
+  getDeviceId(): number | undefined {
+    return this.getMeta<number>(META_DEVICE_ID);
+  }
+
+  setDeviceId(id: number): void {
+    this.setMeta(META_DEVICE_ID, id);
+  }
 
-export class EncryptedStore {
+  getRegistrationId(): number | undefined {
+    return this.getMeta<number>(META_REG_ID);
+  }
+
+  setRegistrationId(id: number): void {
+    this.setMeta(META_REG_ID, id);
+  }
+}
+
+export class WrongPassphraseError extends Error {
+  constructor(dbPath: string) {
+    super(`Wrong passphrase for ${dbPath}.`);
+    this.name = "WrongPassphraseError";
+  }
+}
+
+// New schema changes are appended here; everything stored so far lives in `kv` as
+// encrypted JSON, so most new kinds of data need no migration at all.
+const STORE_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "baseline",
+    up: (db) => {
+      db.exec(
+        "CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value TEXT NOT NULL);" +
+          "CREATE TABLE IF NOT EXISTS kv (key TEXT PRIMARY KEY, value BLOB NOT NULL);"
+      );
+    }
+  }
+];
+
+// Values encrypted with AES-256-GCM under a key derived from the passphrase, in SQLite.
+export class EncryptedStore extends StorageAdapter {
   private db: InstanceType<typeof Database>;
   private key: Buffer;
 
-  constructor(dbPath: string, passphrase: string) {
+  constructor(
+    private dbPath: string,
+    passphrase: string
+  ) {
+    super();
     this.db = new Database(dbPath);
     this.db.pragma("journal_mode = WAL");
-    this.db.exec(
-      "CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value TEXT NOT NULL);" +
-        "CREATE TABLE IF NOT EXISTS kv (key TEXT PRIMARY KEY, value BLOB NOT NULL);"
-    );
+    try {
+      migrate(this.db, "signal-store", STORE_MIGRATIONS);
+    } catch (err) {
+      this.db.close();
+      throw err;
+    }
 
     const kdf = this.getMeta<KdfParams>(META_KDF);
     const params = kdf ?? createKdfParams();
@@ -41,6 +136,56 @@ export class EncryptedStore {
       this.setMeta(META_KDF, params);
     }
     this.key = deriveKey(passphrase, params);
+    this.checkKey();
+  }
+
+  // Stores written before the check existed are tested against one of their rows, then
+  // get the check value.
+  private checkKey(): void {
+    const check = this.getMeta<string>(META_KEY_CHECK);
+    const sample = check
+      ? Buffer.from(check, "base64")
+      : (this.db.prepare("SELECT value FROM kv LIMIT 1").get() as { value: Buffer } | undefined)?.value;
+    if (sample && !this.canDecrypt(this.key, sample)) {
+      this.db.close();
+      throw new WrongPassphraseError(this.dbPath);
+    }
+    if (!check) this.setMeta(META_KEY_CHECK, keyCheck(this.key));
+  }
+
+  private canDecrypt(key: Buffer, payload: Buffer): boolean {
+    try {
+      decryptBuffer(key, payload);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Re-encrypts every row under a key derived from `newPassphrase` and a fresh salt, in one
+  // transaction: either all rows move to the new key or none do. Other processes holding
+  // the store open keep the old key, so stop them first.
+  rekey(oldPassphrase: string, newPassphrase: string): void {
+    const params = this.getMeta<KdfParams>(META_KDF);
+    if (!params) throw new Error("Store has no KDF parameters.");
+    const oldKey = deriveKey(oldPassphrase, params);
+    const check = this.getMeta<string>(META_KEY_CHECK);
+    if (!check || !this.canDecrypt(oldKey, Buffer.from(check, "base64"))) {
+      throw new WrongPassphraseError(this.dbPath);
+    }
+
+    const nextParams = createKdfParams();
+    const nextKey = deriveKey(newPassphrase, nextParams);
+    const rows = this.db.prepare("SELECT key, value FROM kv").all() as { key: string; value: Buffer }[];
+    const update = this.db.prepare("UPDATE kv SET value = ? WHERE key = ?");
+    this.db.transaction(() => {
+      for (const row of rows) {
+        update.run(encryptBuffer(nextKey, decryptBuffer(oldKey, row.value)), row.key);
+      }
+      this.setMeta(META_KDF, nextParams);
+      this.setMeta(META_KEY_CHECK, keyCheck(nextKey));
+    })();
+    this.key = nextKey;
   }
 
   getMeta<T>(key: string): T | undefined {
@@ -50,7 +195,7 @@ export class EncryptedStore {
     return JSON.parse(row.value) as T;
   }
 
-  setMeta<T>(key: string, value: T): void {
+  setMeta(key: string, value: unknown): void {
     const stmt = this.db.prepare("INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)");
     stmt.run(key, JSON.stringify(value));
   }
@@ -68,49 +213,108 @@ export class EncryptedStore {
     stmt.run(key, payload);
   }
 
+  has(key: string): boolean {
+    const stmt = this.db.prepare("SELECT 1 FROM kv WHERE key = ?");
+    return stmt.get(key) !== undefined;
+  }
+
   delete(key: string): void {
     const stmt = this.db.prepare("DELETE FROM kv WHERE key = ?");
     stmt.run(key);
   }
 
   listKeysByPrefix(prefix: string): string[] {
-    const stmt = this.db.prepare("SELECT key FROM kv WHERE key LIKE ?");
-    const rows = stmt.all(`${prefix}%`) as { key: string }[];
+    // A key range rather than LIKE, which is case-insensitive and treats % and _ in ids
+    // as wildcards. U+10FFFF sorts after any character that can follow the prefix.
+    const stmt = this.db.prepare("SELECT key FROM kv WHERE key >= ? AND key < ? ORDER BY key");
+    const rows = stmt.all(prefix, `${prefix}\u{10ffff}`) as { key: string }[];
     return rows.map((row) => row.key);
   }
 
-  getLocalId(): string | undefined {
-    return this.getMeta<string>(META_LOCAL_ID);
-  }
-
-  setLocalId(id: string): void {
-    this.setMeta(META_LOCAL_ID, id);
-  }
-
-  getDeviceId(): number | undefined {
-    return this.getMeta<number>(META_DEVICE_ID);
+  transaction<T>(fn: () => T): T {
+    return this.db.transaction(fn)();
   }
 
-  setDeviceId(id: number): void {
-    this.setMeta(META_DEVICE_ID, id);
+  exportSnapshot(): StoreSnapshot {
+    const meta: Record<string, unknown> = {};
+    for (const row of this.db.prepare("SELECT key, value FROM meta").all() as { key: string; value: string }[]) {
+      if (row.key !== META_KDF && row.key !== META_KEY_CHECK) meta[row.key] = JSON.parse(row.value);
+    }
+    const rows = (this.db.prepare("SELECT key, value FROM kv ORDER BY key").all() as { key: string; value: Buffer }[]).map(
+      (row) => ({ key: row.key, value: decryptBuffer(this.key, row.value).toString("base64") })
+    );
+    return { meta, rows };
   }
 
-  getRegistrationId(): number | undefined {
-    return this.getMeta<number>(META_REG_ID);
+  // Rows are encrypted under this store's key.
+  importSnapshot(snapshot: StoreSnapshot): void {
+    const insertMeta = this.db.prepare("INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)");
+    const insertRow = this.db.prepare("INSERT INTO kv (key, value) VALUES (?, ?)");
+    this.db.transaction(() => {
+      this.db.prepare("DELETE FROM meta WHERE key NOT IN (?, ?)").run(META_KDF, META_KEY_CHECK);
+      this.db.prepare("DELETE FROM kv").run();
+      for (const [key, value] of Object.entries(snapshot.meta)) insertMeta.run(key, JSON.stringify(value));
+      for (const row of snapshot.rows) insertRow.run(row.key, encryptBuffer(this.key, Buffer.from(row.value, "base64")));
+    })();
   }
+}
 
-  setRegistrationId(id: number): void {
-    this.setMeta(META_REG_ID, id);
-  }
+function keyCheck(key: Buffer): string {
+  return encryptBuffer(key, Buffer.from(KEY_CHECK_PLAINTEXT, "utf8")).toString("base64");
 }
 
+const SESSION_TIMES_PREFIX = "session-times:";
+
 function addressKey(address: ProtocolAddress): string {
   return address.toString();
 }
 
+// How a peer's identity key is trusted:
+// - "tofu": the first key is trusted; a changed one is refused until approved.
+// - "strict": only keys whose safety number was verified are trusted.
+// - "warn": a changed key is accepted but recorded, and reads as changed until approved.
+export type TrustPolicy = "tofu" | "strict" | "warn";
+
+export const TRUST_POLICIES: readonly TrustPolicy[] = ["tofu", "strict", "warn"];
+
+export type IdentityEvent = {
+  // `<name>.<deviceId>`
+  address: string;
+  kind: "first-seen" | "changed" | "refused" | "trusted" | "untrusted";
+  // Base64 identity keys.
+  key: string;
+  previousKey?: string;
+  at: number;
+};
+
+export type IdentityStoreOptions = {
+  policy?: TrustPolicy;
+  // Called for every recorded event, e.g. to warn about a changed key.
+  onEvent?: (event: IdentityEvent) => void;
+};
+
+// Per-address keys next to `identity:<address>` (the key libsignal works with):
+// `identity-pending:` a refused key awaiting approval, `identity-approved:` the key last
+// approved, `verified:` the key whose safety number was checked, `identity-blocked:` set
+// by untrust, and `identity-history:` the event log.
+const PENDING_PREFIX = "identity-pending:";
+const APPROVED_PREFIX = "identity-approved:";
+const VERIFIED_PREFIX = "verified:";
+const BLOCKED_PREFIX = "identity-blocked:";
+const HISTORY_PREFIX = "identity-history:";
+const HISTORY_LIMIT = 50;
+
 export class SqliteIdentityStore extends IdentityKeyStore {
-  constructor(private store: EncryptedStore) {
+  readonly policy: TrustPolicy;
+  private onEvent?: (event: IdentityEvent) => void;
+
+  constructor(
+    private store: StorageAdapter,
+    options: IdentityStoreOptions = {}
+  ) {
     super();
+    this.policy = options.policy ?? "tofu";
+    this.onEvent = options.onEvent;
   }
 
   async getIdentityKey(): Promise<PrivateKey> {
@@ -125,20 +329,34 @@ export class SqliteIdentityStore extends IdentityKeyStore {
     return value;
   }
 
+  // libsignal saves only keys isTrustedIdentity accepted, so a replacement here is a change
+  // the policy let through ("warn", or a verified key under "strict").
   async saveIdentity(name: ProtocolAddress, key: PublicKey): Promise<IdentityChange> {
-    const stored = this.store.get<Uint8Array>(`identity:${addressKey(name)}`);
-    const serialized = key.serialize();
-    this.store.set(`identity:${addressKey(name)}`, serialized);
-    if (!stored) return IdentityChange.NewOrUnchanged;
-    const existing = PublicKey.deserialize(stored);
-    return existing.equals(key) ? IdentityChange.NewOrUnchanged : IdentityChange.ReplacedExisting;
+    const address = addressKey(name);
+    const stored = this.getStoredKey(address);
+    const serialized = toBase64(key.serialize());
+    if (stored === serialized) return IdentityChange.NewOrUnchanged;
+    this.store.set(`identity:${address}`, key.serialize());
+    this.store.delete(`${PENDING_PREFIX}${address}`);
+    if (!stored) {
+      this.store.set(`${APPROVED_PREFIX}${address}`, serialized);
+      this.record({ address, kind: "first-seen", key: serialized, at: Date.now() });
+      return IdentityChange.NewOrUnchanged;
+    }
+    this.record({ address, kind: "changed", key: serialized, previousKey: stored, at: Date.now() });
+    return IdentityChange.ReplacedExisting;
   }
 
   async isTrustedIdentity(name: ProtocolAddress, key: PublicKey, _direction: Direction): Promise<boolean> {
-    const stored = this.store.get<Uint8Array>(`identity:${addressKey(name)}`);
-    if (!stored) return true;
-    const existing = PublicKey.deserialize(stored);
-    return existing.equals(key);
+    const address = addressKey(name);
+    const serialized = toBase64(key.serialize());
+    if (this.store.has(`${BLOCKED_PREFIX}${address}`)) return this.refuse(address, serialized);
+    if (this.policy === "strict") {
+      return this.getVerifiedKey(address) === serialized || this.refuse(address, serialized);
+    }
+    const stored = this.getStoredKey(address);
+    if (!stored || stored === serialized || this.policy === "warn") return true;
+    return this.refuse(address, serialized);
   }
 
   async getIdentity(name: ProtocolAddress): Promise<PublicKey | null> {
@@ -146,15 +364,149 @@ export class SqliteIdentityStore extends IdentityKeyStore {
     if (!stored) return null;
     return PublicKey.deserialize(stored);
   }
+
+  // A key that was refused and is waiting for approval.
+  getPendingIdentity(name: ProtocolAddress): PublicKey | null {
+    const pending = this.store.get<string>(`${PENDING_PREFIX}${addressKey(name)}`);
+    return pending ? PublicKey.deserialize(fromBase64(pending)) : null;
+  }
+
+  // Base64 form of getIdentity.
+  getCurrentKey(name: ProtocolAddress): string | undefined {
+    return this.getStoredKey(addressKey(name));
+  }
+
+  getApprovedKey(name: ProtocolAddress): string | undefined {
+    return this.store.get<string>(`${APPROVED_PREFIX}${addressKey(name)}`);
+  }
+
+  getVerifiedKey(address: ProtocolAddress | string): string | undefined {
+    const key = typeof address === "string" ? address : addressKey(address);
+    return this.store.get<string>(`${VERIFIED_PREFIX}${key}`);
+  }
+
+  isBlocked(name: ProtocolAddress): boolean {
+    return this.store.has(`${BLOCKED_PREFIX}${addressKey(name)}`);
+  }
+
+  // Makes the pending key (or else the current one) the trusted key for `name` and lifts
+  // any block. Returns the key that was replaced, if any; sessions built on it are useless.
+  approve(name: ProtocolAddress, options: { verified?: boolean } = {}): { key: string; replaced?: string } {
+    const address = addressKey(name);
+    const stored = this.getStoredKey(address);
+    const key = this.store.get<string>(`${PENDING_PREFIX}${address}`) ?? stored;
+    if (!key) throw new Error(`No identity key for ${address}.`);
+    const replaced = stored && stored !== key ? stored : undefined;
+    this.store.transaction(() => {
+      this.store.set(`identity:${address}`, fromBase64(key));
+      this.store.set(`${APPROVED_PREFIX}${address}`, key);
+      if (options.verified) this.store.set(`${VERIFIED_PREFIX}${address}`, key);
+      this.store.delete(`${PENDING_PREFIX}${address}`);
+      this.store.delete(`${BLOCKED_PREFIX}${address}`);
+      this.record({ address, kind: "trusted", key, ...(replaced ? { previousKey: replaced } : {}), at: Date.now() });
+    });
+    return { key, ...(replaced ? { replaced } : {}) };
+  }
+
+  clearVerified(name: ProtocolAddress): void {
+    this.store.delete(`${VERIFIED_PREFIX}${addressKey(name)}`);
+  }
+
+  // Refuses `name` in both directions until it is approved again.
+  block(name: ProtocolAddress): void {
+    const address = addressKey(name);
+    const key = this.store.get<string>(`${PENDING_PREFIX}${address}`) ?? this.getStoredKey(address);
+    if (!key) throw new Error(`No identity key for ${address}.`);
+    this.store.transaction(() => {
+      this.store.set(`${BLOCKED_PREFIX}${address}`, true);
+      this.store.delete(`${APPROVED_PREFIX}${address}`);
+      this.store.delete(`${VERIFIED_PREFIX}${address}`);
+      this.record({ address, kind: "untrusted", key, at: Date.now() });
+    });
+  }
+
+  history(name: ProtocolAddress): IdentityEvent[] {
+    return this.store.get<IdentityEvent[]>(`${HISTORY_PREFIX}${addressKey(name)}`) ?? [];
+  }
+
+  // Every peer device we hold an identity key for, or have refused one from; keys look like
+  // `identity:<name>.<deviceId>`.
+  listAddresses(): { name: string; deviceId: number }[] {
+    const seen = new Set<string>();
+    const addresses: { name: string; deviceId: number }[] = [];
+    for (const prefix of ["identity:", PENDING_PREFIX]) {
+      for (const key of this.store.listKeysByPrefix(prefix)) {
+        const match = /^[a-z-]+:(.+)\.(\d+)$/.exec(key);
+        if (!match || seen.has(`${match[1]}.${match[2]}`)) continue;
+        seen.add(`${match[1]}.${match[2]}`);
+        addresses.push({ name: match[1], deviceId: Number(match[2]) });
+      }
+    }
+    return addresses.sort((a, b) => a.name.localeCompare(b.name) || a.deviceId - b.deviceId);
+  }
+
+  private getStoredKey(address: string): string | undefined {
+    const stored = this.store.get<Uint8Array>(`identity:${address}`);
+    return stored ? toBase64(stored) : undefined;
+  }
+
+  // Keeps the refused key so it can be approved, recording it once rather than on every retry.
+  private refuse(address: string, key: string): false {
+    if (this.store.get<string>(`${PENDING_PREFIX}${address}`) !== key) {
+      this.store.set(`${PENDING_PREFIX}${address}`, key);
+      const previousKey = this.getStoredKey(address);
+      const changed = previousKey && previousKey !== key;
+      this.record({ address, kind: "refused", key, ...(changed ? { previousKey } : {}), at: Date.now() });
+    }
+    return false;
+  }
+
+  private record(event: IdentityEvent): void {
+    const key = `${HISTORY_PREFIX}${event.address}`;
+    const events = [...(this.store.get<IdentityEvent[]>(key) ?? []), event].slice(-HISTORY_LIMIT);
+    this.store.set(key, events);
+    this.onEvent?.(event);
+  }
 }
 
+// SessionRecord carries no timestamps, so these are kept beside it. `baseKey` tells a new
+// session from a ratchet step in the current one.
+export type SessionTimes = {
+  baseKey: string;
+  establishedAt: number;
+  updatedAt: number;
+};
+
 export class SqliteSessionStore extends SessionStore {
-  constructor(private store: EncryptedStore) {
+  constructor(private store: StorageAdapter) {
     super();
   }
 
   async saveSession(name: ProtocolAddress, record: SessionRecord): Promise<void> {
-    this.store.set(`session:${addressKey(name)}`, record.serialize());
+    const key = addressKey(name);
+    const serialized = record.serialize();
+    const baseKey = readSessionRecord(serialized).current?.baseKey;
+    this.store.transaction(() => {
+      this.store.set(`session:${key}`, serialized);
+      // An archived record has no current state; its times stay those of the old session.
+      if (!baseKey) return;
+      const encoded = toBase64(baseKey);
+      const times = this.store.get<SessionTimes>(`${SESSION_TIMES_PREFIX}${key}`);
+      const now = Date.now();
+      this.store.set(`${SESSION_TIMES_PREFIX}${key}`, {
+        baseKey: encoded,
+        establishedAt: times?.baseKey === encoded ? times.establishedAt : now,
+        updatedAt: now
+      });
+    });
+  }
+
+  getSerialized(name: ProtocolAddress): Uint8Array | undefined {
+    return this.store.get<Uint8Array>(`session:${addressKey(name)}`);
+  }
+
+  getTimes(name: ProtocolAddress): SessionTimes | undefined {
+    return this.store.get<SessionTimes>(`${SESSION_TIMES_PREFIX}${addressKey(name)}`);
   }
 
   async getSession(name: ProtocolAddress): Promise<SessionRecord | null> {
@@ -163,6 +515,33 @@ export class SqliteSessionStore extends SessionStore {
     return SessionRecord.deserialize(stored);
   }
 
+  removeSession(name: ProtocolAddress): void {
+    this.store.delete(`session:${addressKey(name)}`);
+    this.store.delete(`${SESSION_TIMES_PREFIX}${addressKey(name)}`);
+  }
+
+  // Every address with a stored record. Ids may contain dots, so the device id is the part
+  // after the last one.
+  listAddresses(): { name: string; deviceId: number }[] {
+    const addresses: { name: string; deviceId: number }[] = [];
+    for (const key of this.store.listKeysByPrefix("session:")) {
+      const match = /^session:(.+)\.(\d+)$/.exec(key);
+      if (match) addresses.push({ name: match[1], deviceId: Number(match[2]) });
+    }
+    return addresses.sort((a, b) => a.name.localeCompare(b.name) || a.deviceId - b.deviceId);
+  }
+
+  // Device ids with a stored session for `name`; keys look like `session:<name>.<deviceId>`.
+  listDeviceIds(name: string): number[] {
+    const prefix = `session:${name}.`;
+    const deviceIds: number[] = [];
+    for (const key of this.store.listKeysByPrefix(prefix)) {
+      const suffix = key.slice(prefix.length);
+      if (key.startsWith(prefix) && /^\d+$/.test(suffix)) deviceIds.push(Number(suffix));
+    }
+    return deviceIds.sort((a, b) => a - b);
+  }
+
   async getExistingSessions(addresses: ProtocolAddress[]): Promise<SessionRecord[]> {
     const records: SessionRecord[] = [];
     for (const address of addresses) {
@@ -174,7 +553,7 @@ export class SqliteSessionStore extends SessionStore {
 }
 
 export class SqlitePreKeyStore extends PreKeyStore {
-  constructor(private store: EncryptedStore) {
+  constructor(private store: StorageAdapter) {
     super();
   }
 
@@ -188,15 +567,18 @@ export class SqlitePreKeyStore extends PreKeyStore {
     return PreKeyRecord.deserialize(stored);
   }
 
+  hasPreKey(id: number): boolean {
+    return this.store.has(`prekey:${id}`);
+  }
+
   async removePreKey(id: number): Promise<void> {
-    // Keep prekeys for this local demo stack to tolerate repeated/stale prekey bundles.
-    // This avoids chat outages when multiple clients initiate sessions concurrently.
-    this.store.set("prekey:used:" + id, { usedAt: Date.now() });
+    // The relay hands each one-time prekey out once, so a consumed key can be deleted.
+    this.store.delete(`prekey:${id}`);
   }
 }
 
 export class SqliteSignedPreKeyStore extends SignedPreKeyStore {
-  constructor(private store: EncryptedStore) {
+  constructor(private store: StorageAdapter) {
     super();
   }
 
@@ -209,10 +591,18 @@ export class SqliteSignedPreKeyStore extends SignedPreKeyStore {
     if (!stored) throw new Error(`SignedPreKey ${id} not found`);
     return SignedPreKeyRecord.deserialize(stored);
   }
+
+  hasSignedPreKey(id: number): boolean {
+    return this.store.has(`signedprekey:${id}`);
+  }
+
+  removeSignedPreKey(id: number): void {
+    this.store.delete(`signedprekey:${id}`);
+  }
 }
 
 export class SqliteKyberPreKeyStore extends KyberPreKeyStore {
-  constructor(private store: EncryptedStore) {
+  constructor(private store: StorageAdapter) {
     super();
   }
 
@@ -226,6 +616,15 @@ export class SqliteKyberPreKeyStore extends KyberPreKeyStore {
     return KyberPreKeyRecord.deserialize(stored);
   }
 
+  hasKyberPreKey(id: number): boolean {
+    return this.store.has(`kyberprekey:${id}`);
+  }
+
+  removeKyberPreKey(id: number): void {
+    this.store.delete(`kyberprekey:${id}`);
+    this.store.delete(`kyberprekey:used:${id}`);
+  }
+
   async markKyberPreKeyUsed(id: number, signedPreKeyId: number, baseKey: PublicKey): Promise<void> {
     this.store.set(`kyberprekey:used:${id}`, {
       signedPreKeyId,
@@ -235,12 +634,30 @@ export class SqliteKyberPreKeyStore extends KyberPreKeyStore {
   }
 }
 
-export function loadIdentityKeyPair(store: EncryptedStore): IdentityKeyPair {
+// Keys look like `senderkey:<name>.<deviceId>:<distributionId>`; one chain per sender
+// device and group distribution.
+export class SqliteSenderKeyStore extends SenderKeyStore {
+  constructor(private store: StorageAdapter) {
+    super();
+  }
+
+  async saveSenderKey(sender: ProtocolAddress, distributionId: string, record: SenderKeyRecord): Promise<void> {
+    this.store.set(`senderkey:${addressKey(sender)}:${distributionId}`, record.serialize());
+  }
+
+  async getSenderKey(sender: ProtocolAddress, distributionId: string): Promise<SenderKeyRecord | null> {
+    const stored = this.store.get<Uint8Array>(`senderkey:${addressKey(sender)}:${distributionId}`);
+    if (!stored) return null;
+    return SenderKeyRecord.deserialize(stored);
+  }
+}
+
+export function loadIdentityKeyPair(store: StorageAdapter): IdentityKeyPair {
   const data = store.get<Uint8Array>("local:identityKeyPair");
   if (!data) throw new Error("Identity key pair not found. Run 'mega init'.");
   return IdentityKeyPair.deserialize(data);
 }
 
-export function saveIdentityKeyPair(store: EncryptedStore, pair: IdentityKeyPair): void {
+export function saveIdentityKeyPair(store: StorageAdapter, pair: IdentityKeyPair): void {
   store.set("local:identityKeyPair", pair.serialize());
 }
@@ -0,0 +1,28 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { decryptAttachment, encryptAttachment } from "../src/attachments";
+import { encodeAttachmentMessage, parseAttachmentMessage } from "../src/index";
+
+describe("attachments", () => {
+  it("encrypt/decrypt roundtrip", () => {
+    const data = Buffer.from("kernel: oom-killer invoked\n".repeat(100));
+    const encrypted = encryptAttachment(data);
+    assert.ok(!encrypted.ciphertext.includes(Buffer.from("oom-killer")));
+    assert.deepEqual(decryptAttachment(encrypted.ciphertext, encrypted), data);
+  });
+
+  it("refuses a blob that does not match the digest", () => {
+    const encrypted = encryptAttachment(Buffer.from("heap dump"));
+    const tampered = Buffer.from(encrypted.ciphertext);
+    tampered[tampered.length - 1] ^= 1;
+    assert.throws(() => decryptAttachment(tampered, encrypted), /digest mismatch/);
+  });
+
+  it("carries pointers in the message plaintext and leaves plain text alone", () => {
+    const pointer = { id: "blob-1", key: "a2V5", digest: "ZGlnZXN0", size: 9, fileName: "heap.bin" };
+    const plaintext = encodeAttachmentMessage("see attached", [pointer]);
+    assert.deepEqual(parseAttachmentMessage(plaintext)?.attachments, [pointer]);
+    assert.equal(parseAttachmentMessage("see attached"), undefined);
+    assert.equal(parseAttachmentMessage('{"kind":"chat.prompt"}'), undefined);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  createBackup,
+  exportBundle,
+  exportIdentityKey,
+  initSession,
+  listSessionDeviceIds,
+  openStore,
+  restoreBackup
+} from "../src/index";
+import { device, tempDb } from "./helpers";
+
+describe("backup", () => {
+  it("restores identity and sessions into a store with another passphrase", async () => {
+    const alice = await device("alice");
+    await initSession(alice, await exportBundle(await device("bob")));
+    const backup = createBackup(alice, "backup secret");
+    assert.ok(!backup.includes(exportIdentityKey(alice)));
+
+    const restored = openStore(tempDb("restored"), "other passphrase");
+    const header = restoreBackup(restored, backup, "backup secret");
+    assert.equal(header.localId, "alice");
+    assert.equal(exportIdentityKey(restored), exportIdentityKey(alice));
+    assert.equal(restored.getRegistrationId(), alice.getRegistrationId());
+    assert.deepEqual(listSessionDeviceIds(restored, "bob"), [1]);
+  });
+
+  it("validates the file before touching the store", async () => {
+    const alice = await device("alice");
+    const backup = createBackup(alice, "backup secret");
+    const target = await device("carol");
+
+    assert.throws(() => restoreBackup(target, backup, "guess", { force: true }), /Wrong backup passphrase/);
+    const relabeled = JSON.stringify({ ...JSON.parse(backup), localId: "mallory" });
+    assert.throws(() => restoreBackup(target, relabeled, "backup secret", { force: true }), /does not match/);
+    assert.throws(() => restoreBackup(target, backup, "backup secret"), /already holds identity 'carol'/);
+    assert.equal(target.getLocalIdentity(), "carol");
+
+    restoreBackup(target, backup, "backup secret", { force: true });
+    assert.equal(exportIdentityKey(target), exportIdentityKey(alice));
+  });
+});
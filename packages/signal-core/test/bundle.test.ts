@@ -0,0 +1,43 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  InvalidBundleError,
+  exportBundle,
+  initSession,
+  listSessionDeviceIds,
+  verifyBundle
+} from "../src/index";
+import { memoryDevice } from "./helpers";
+
+describe("bundle validation", () => {
+  it("accepts an exported bundle and rejects malformed keys", async () => {
+    const bundle = await exportBundle(await memoryDevice("bob"));
+    assert.deepEqual(verifyBundle(bundle), bundle);
+
+    const truncated = { ...bundle, identityKey: bundle.identityKey.slice(0, 40) };
+    assert.throws(() => verifyBundle(truncated), (err: unknown) => {
+      assert.ok(err instanceof InvalidBundleError);
+      assert.equal(err.peerId, "bob");
+      assert.match(err.reason, /^identityKey: /);
+      return true;
+    });
+    const kyberAsEc = { ...bundle, kyberPreKey: { ...bundle.kyberPreKey, publicKey: bundle.signedPreKey.publicKey } };
+    assert.throws(() => verifyBundle(kyberAsEc), InvalidBundleError);
+  });
+
+  it("refuses prekeys not signed by the identity key before touching sessions", async () => {
+    const alice = await memoryDevice("alice");
+    const bob = await exportBundle(await memoryDevice("bob"));
+    const mallory = await exportBundle(await memoryDevice("bob"));
+
+    // Mallory's prekeys under Bob's identity key.
+    const forged = { ...bob, signedPreKey: mallory.signedPreKey };
+    await assert.rejects(initSession(alice, forged), /signed prekey signature/);
+    const forgedKyber = { ...bob, kyberPreKey: mallory.kyberPreKey };
+    await assert.rejects(initSession(alice, forgedKyber), /Kyber prekey signature/);
+    assert.deepEqual(listSessionDeviceIds(alice, "bob"), []);
+
+    await initSession(alice, bob);
+    assert.deepEqual(listSessionDeviceIds(alice, "bob"), [1]);
+  });
+});
@@ -0,0 +1,349 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { once } from "node:events";
+import http, { type IncomingHttpHeaders } from "node:http";
+import type { AddressInfo } from "node:net";
+import { PublicKey } from "@signalapp/libsignal-client";
+import { WebSocketServer, type RawData, type WebSocket } from "ws";
+import { RelayAuthHeaders, RelayOkSchema, buildRelayAuthMessage, type RelayEnvelope } from "@mega/shared";
+import {
+  RelayHttpError,
+  RelayResponseError,
+  SignalClient,
+  createBackup,
+  decryptMessage,
+  encodeDeliveryTokenMessage,
+  encryptMessage,
+  exportBundle,
+  exportIdentityKey,
+  getDeliveryToken,
+  getPeerDeliveryToken,
+  initSession,
+  openStore,
+  parseDeliveryTokenMessage,
+  restoreBackup,
+  type ReceivedMessage,
+  type SignalState
+} from "../src/index";
+import { fromBase64, toBase64 } from "../src/crypto";
+import { device, tempDb } from "./helpers";
+
+type StubRequest = { method: string; path: string; headers: IncomingHttpHeaders; body: string };
+type StubResponse = { status?: number; headers?: Record<string, string>; body?: string };
+
+// Stands in for the relay: HTTP requests are recorded and answered by `respond`, and
+// WebSocket connections are handed to the test by nextConnection.
+class StubRelay {
+  readonly requests: StubRequest[] = [];
+  respond: (req: StubRequest) => StubResponse = () => ({ body: JSON.stringify({ ok: true }) });
+  readonly server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      const recorded = {
+        method: req.method ?? "",
+        path: req.url ?? "",
+        headers: req.headers,
+        body: Buffer.concat(chunks).toString()
+      };
+      this.requests.push(recorded);
+      const reply = this.respond(recorded);
+      res.writeHead(reply.status ?? 200, { "Content-Type": "application/json", ...reply.headers });
+      res.end(reply.body ?? "");
+    });
+  });
+  readonly wss = new WebSocketServer({ server: this.server });
+
+  get url(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async start(): Promise<void> {
+    this.server.listen(0, "127.0.0.1");
+    await once(this.server, "listening");
+  }
+
+  // Resolves with the next socket a client opens, and the upgrade request it sent.
+  async nextConnection(): Promise<[WebSocket, http.IncomingMessage]> {
+    const [ws, req] = await once(this.wss, "connection");
+    return [ws as WebSocket, req as http.IncomingMessage];
+  }
+
+  stop(): void {
+    for (const ws of this.wss.clients) ws.terminate();
+    this.wss.close();
+    this.server.closeAllConnections();
+    this.server.close();
+  }
+}
+
+async function nextFrame(ws: WebSocket): Promise<unknown> {
+  const [data] = await once(ws, "message");
+  return JSON.parse((data as RawData).toString());
+}
+
+function messageFrame(id: string, envelope: RelayEnvelope, to = "alice"): string {
+  return JSON.stringify({ id, from: "senderId" in envelope ? envelope.senderId : undefined, to, envelope });
+}
+
+function assertSigned(state: SignalState, headers: IncomingHttpHeaders, method: string, path: string, body = "") {
+  const key = PublicKey.deserialize(fromBase64(exportIdentityKey(state)));
+  const message = buildRelayAuthMessage({
+    method,
+    path,
+    id: String(headers[RelayAuthHeaders.id]),
+    deviceId: Number(headers[RelayAuthHeaders.device]),
+    timestamp: Number(headers[RelayAuthHeaders.timestamp]),
+    body
+  });
+  assert.equal(key.verify(message, fromBase64(String(headers[RelayAuthHeaders.signature]))), true);
+}
+
+describe("signal client", () => {
+  let relay: StubRelay;
+  let alice: SignalState;
+  let client: SignalClient;
+
+  before(async () => {
+    relay = new StubRelay();
+    await relay.start();
+    alice = await device("alice");
+    client = new SignalClient(alice, { relayUrl: `${relay.url}/` });
+  });
+
+  after(() => relay.stop());
+
+  it("signs requests over the method, path without query and body, and only when asked", async () => {
+    const body = { hello: "relay" };
+    await client.postJson("/v1/messages", body, RelayOkSchema, { signed: true });
+    await client.getJson("/v1/prekeys/bob?device=2", RelayOkSchema, { signed: true });
+    await client.getJson("/v1/devices/bob", RelayOkSchema);
+
+    const [post, get, unsigned] = relay.requests.slice(-3);
+    assert.equal(post.headers[RelayAuthHeaders.id], "alice");
+    assert.equal(post.headers[RelayAuthHeaders.device], "1");
+    assert.equal(post.headers["content-type"], "application/json");
+    assertSigned(alice, post.headers, "POST", "/v1/messages", JSON.stringify(body));
+    assert.equal(get.path, "/v1/prekeys/bob?device=2");
+    assertSigned(alice, get.headers, "GET", "/v1/prekeys/bob");
+    assert.equal(unsigned.headers[RelayAuthHeaders.signature], undefined);
+  });
+
+  it("turns a refusal into RelayHttpError with the relay's message and Retry-After", async () => {
+    relay.respond = () => ({
+      status: 429,
+      headers: { "Retry-After": "7" },
+      body: JSON.stringify({ ok: false, error: "Rate limit exceeded for sender." })
+    });
+    await assert.rejects(client.postJson("/v1/messages", {}, RelayOkSchema, { signed: true }), (err: unknown) => {
+      assert.ok(err instanceof RelayHttpError);
+      assert.equal(err.method, "POST");
+      assert.equal(err.path, "/v1/messages");
+      assert.equal(err.status, 429);
+      assert.equal(err.error, "Rate limit exceeded for sender.");
+      assert.equal(err.retryAfterSec, 7);
+      return true;
+    });
+
+    // A proxy's page in front of the relay keeps its text.
+    relay.respond = () => ({ status: 502, headers: { "Content-Type": "text/plain" }, body: "bad gateway" });
+    await assert.rejects(client.getJson("/v1/devices/bob", RelayOkSchema), (err: unknown) => {
+      assert.ok(err instanceof RelayHttpError);
+      assert.equal(err.status, 502);
+      assert.equal(err.error, "bad gateway");
+      assert.equal(err.retryAfterSec, undefined);
+      return true;
+    });
+  });
+
+  it("turns an answer that does not match the route's schema into RelayResponseError", async () => {
+    relay.respond = () => ({ body: "<html>" });
+    await assert.rejects(client.getJson("/v1/devices/bob", RelayOkSchema), (err: unknown) => {
+      assert.ok(err instanceof RelayResponseError);
+      assert.equal(err.reason, "body is not JSON.");
+      return true;
+    });
+
+    relay.respond = () => ({ body: JSON.stringify({ ok: "yes" }) });
+    await assert.rejects(client.getJson("/v1/devices/bob", RelayOkSchema), (err: unknown) => {
+      assert.ok(err instanceof RelayResponseError);
+      assert.match(err.reason, /^ok: /);
+      return true;
+    });
+  });
+
+  it("opens a signed socket and acks a message only when told to", async () => {
+    const bob = await device("bob");
+    await initSession(bob, await exportBundle(alice));
+    const connected = relay.nextConnection();
+    const stream = client.listen();
+    const [ws, upgrade] = await connected;
+    const wsUrl = new URL(upgrade.url ?? "", relay.url);
+    assert.equal(wsUrl.searchParams.get("client_id"), "alice");
+    assertSigned(alice, upgrade.headers, "GET", "/ws");
+
+    ws.send(messageFrame("m1", await encryptMessage(bob, "alice", "hello")));
+    const [message] = (await once(stream, "message")) as [ReceivedMessage];
+    assert.equal(message.plaintext, "hello");
+    assert.equal(message.senderId, "bob");
+    const acked = nextFrame(ws);
+    message.ack();
+    assert.deepEqual(await acked, { type: "ack", id: "m1" });
+
+    // The relay redelivers a frame whose ack it missed; it is acked again, not shown again.
+    const duplicateAck = nextFrame(ws);
+    ws.send(messageFrame("m1", message.frame.envelope));
+    await once(stream, "duplicate");
+    assert.deepEqual(await duplicateAck, { type: "ack", id: "m1" });
+
+    // A delivery token is stored and acked without reaching "message" listeners.
+    const messages: ReceivedMessage[] = [];
+    stream.on("message", (received) => messages.push(received));
+    const tokenAck = nextFrame(ws);
+    ws.send(messageFrame("m2", await encryptMessage(bob, "alice", encodeDeliveryTokenMessage(getDeliveryToken(bob)))));
+    assert.deepEqual(await tokenAck, { type: "ack", id: "m2" });
+    assert.equal(getPeerDeliveryToken(alice, "bob"), getDeliveryToken(bob));
+    assert.equal(messages.length, 0);
+
+    stream.close();
+    await stream.done;
+  });
+
+  it("resets a stale session, retries the frame once, acks it and moves the peer onto the new session", async () => {
+    const dave = await device("dave");
+    const backup = createBackup(dave, "backup secret");
+    const carol = await device("carol");
+    await initSession(dave, await exportBundle(carol));
+    await decryptMessage(carol, await encryptMessage(dave, "carol", "hi"));
+    await decryptMessage(dave, await encryptMessage(carol, "dave", "hi back"));
+
+    // Dave restores a backup taken before he knew Carol, who still uses the old session.
+    const restored = openStore(tempDb("dave-restored"), "passphrase");
+    restoreBackup(restored, backup, "backup secret");
+    const carolBundle = await exportBundle(carol);
+    const posted: { to: string; envelope: RelayEnvelope }[] = [];
+    relay.respond = (req) => {
+      if (req.path === "/v1/devices/carol") {
+        const links = [{ deviceId: 1, identityKey: exportIdentityKey(carol) }];
+        return { body: JSON.stringify({ id: "carol", devices: [1], links }) };
+      }
+      if (req.path === "/v1/prekeys/carol?device=1") {
+        return { body: JSON.stringify({ id: "carol", bundle: carolBundle }) };
+      }
+      posted.push(JSON.parse(req.body));
+      return { body: JSON.stringify({ ok: true, queued: true, delivered: false }) };
+    };
+
+    const connected = relay.nextConnection();
+    const stream = new SignalClient(restored, { relayUrl: relay.url }).listen({ resetStaleSessions: true });
+    const resets: number[] = [];
+    const rejected: unknown[] = [];
+    stream.on("reset", (_peerId, deviceId) => resets.push(deviceId));
+    stream.on("rejected", (_err, frame) => rejected.push(frame?.id));
+    const [ws] = await connected;
+    const fromClient: unknown[] = [];
+    ws.on("message", (data: RawData) => fromClient.push(JSON.parse(data.toString())));
+
+    // Sent on the old session, the frame does not open on the new one either, so after the
+    // one retry it is acked rather than redelivered until it expires.
+    const lost = await encryptMessage(carol, "dave", "lost");
+    const acked = nextFrame(ws);
+    ws.send(messageFrame("s1", lost, "dave"));
+    assert.deepEqual(await acked, { type: "ack", id: "s1" });
+    assert.deepEqual(resets, [1]);
+
+    // Our token went out on the new session; opening it moves Carol onto that session.
+    assert.equal(posted.length, 1);
+    assert.equal(posted[0].to, "carol");
+    const token = parseDeliveryTokenMessage(await decryptMessage(carol, posted[0].envelope));
+    assert.equal(token?.token, getDeliveryToken(restored));
+
+    // A redelivery, had the ack been lost, fails on the new session and is acked again
+    // without resetting it.
+    const ackedAgain = nextFrame(ws);
+    ws.send(messageFrame("s1", lost, "dave"));
+    assert.deepEqual(await ackedAgain, { type: "ack", id: "s1" });
+    assert.deepEqual(resets, [1]);
+    assert.deepEqual(rejected, ["s1", "s1"]);
+
+    ws.send(messageFrame("s2", await encryptMessage(carol, "dave", "lost, again"), "dave"));
+    const [message] = (await once(stream, "message")) as [ReceivedMessage];
+    assert.equal(message.plaintext, "lost, again");
+    await stream.idle();
+    assert.equal(fromClient.length, 2);
+
+    stream.close();
+    await stream.done;
+  });
+
+  it("acks and does not reset over ciphertext that fails to decrypt", async () => {
+    const erin = await device("erin");
+    await initSession(erin, await exportBundle(alice));
+    await decryptMessage(alice, await encryptMessage(erin, "alice", "hi"));
+    await decryptMessage(erin, await encryptMessage(alice, "erin", "hi back"));
+    const before = relay.requests.length;
+    const connected = relay.nextConnection();
+    const stream = client.listen({ resetStaleSessions: true });
+    const resets: number[] = [];
+    stream.on("reset", (_peerId, deviceId) => resets.push(deviceId));
+    const [ws] = await connected;
+
+    const sent = await encryptMessage(erin, "alice", "tampered");
+    const bytes = fromBase64(sent.body);
+    bytes[bytes.length - 1] ^= 1;
+    const acked = nextFrame(ws);
+    ws.send(messageFrame("t1", { ...sent, body: toBase64(bytes) }));
+    assert.deepEqual(await acked, { type: "ack", id: "t1" });
+    assert.deepEqual(resets, []);
+    assert.equal(relay.requests.length, before);
+
+    ws.send(messageFrame("t2", await encryptMessage(erin, "alice", "untouched")));
+    const [message] = (await once(stream, "message")) as [ReceivedMessage];
+    assert.equal(message.plaintext, "untouched");
+
+    stream.close();
+    await stream.done;
+  });
+
+  it("acks a malformed frame that carries an id", async () => {
+    const connected = relay.nextConnection();
+    const stream = client.listen();
+    const rejected: unknown[] = [];
+    stream.on("rejected", (_err, frame) => rejected.push(frame));
+    const [ws] = await connected;
+    const fromClient: unknown[] = [];
+    ws.on("message", (data: RawData) => fromClient.push(JSON.parse(data.toString())));
+
+    const acked = nextFrame(ws);
+    ws.send("not json");
+    ws.send(JSON.stringify({ id: "x1", to: "alice", envelope: { version: 1 } }));
+    assert.deepEqual(await acked, { type: "ack", id: "x1" });
+    await stream.idle();
+    assert.deepEqual(rejected, [undefined, undefined]);
+    assert.deepEqual(fromClient, [{ type: "ack", id: "x1" }]);
+
+    stream.close();
+    await stream.done;
+  });
+
+  it("reconnects after the relay drops the socket until closed", async () => {
+    const closes: [number, boolean][] = [];
+    const first = relay.nextConnection();
+    const stream = client.listen({ reconnectDelayMs: 10 });
+    stream.on("close", (code, reconnecting) => closes.push([code, reconnecting]));
+    await once(stream, "open");
+    const [ws] = await first;
+
+    const reopened = once(stream, "open");
+    ws.close(4000, "superseded");
+    await reopened;
+    assert.deepEqual(closes, [[4000, true]]);
+
+    stream.close();
+    await stream.done;
+    assert.deepEqual(closes, [
+      [4000, true],
+      [1000, false]
+    ]);
+  });
+});
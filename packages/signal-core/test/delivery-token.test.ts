@@ -0,0 +1,48 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  devicesAwaitingDeliveryToken,
+  encodeDeliveryTokenMessage,
+  exportBundle,
+  getDeliveryToken,
+  initSession,
+  markDeliveryTokenShared,
+  parseDeliveryTokenMessage
+} from "../src/index";
+import { device } from "./helpers";
+
+describe("delivery token messages", () => {
+  it("round-trips a token and ignores other plaintext", async () => {
+    const token = getDeliveryToken(await device("alice", 1));
+    assert.deepEqual(parseDeliveryTokenMessage(encodeDeliveryTokenMessage(token)), {
+      type: "mega.delivery-token.v1",
+      token
+    });
+    assert.equal(parseDeliveryTokenMessage(token), undefined);
+    assert.equal(parseDeliveryTokenMessage('{"type":"mega.delivery-token.v1","token":"short"}'), undefined);
+  });
+
+  it("shares once per device identity", async () => {
+    const alice = await device("alice", 1);
+    const bobCli = await device("bob", 1);
+    const bobWeb = await device("bob", 2);
+    await initSession(alice, await exportBundle(bobCli));
+    await initSession(alice, await exportBundle(bobWeb));
+
+    assert.deepEqual(devicesAwaitingDeliveryToken(alice, "bob", [1, 2]), [1, 2]);
+    markDeliveryTokenShared(alice, "bob", [1]);
+    assert.deepEqual(devicesAwaitingDeliveryToken(alice, "bob", [1, 2]), [2]);
+    markDeliveryTokenShared(alice, "bob", [2]);
+    assert.deepEqual(devicesAwaitingDeliveryToken(alice, "bob", [1, 2]), []);
+  });
+
+  it("shares again with a device that came back with a new identity", async () => {
+    const alice = await device("alice", 1, { trustPolicy: "warn" });
+    await initSession(alice, await exportBundle(await device("bob", 1)));
+    markDeliveryTokenShared(alice, "bob", [1]);
+
+    // Reinstalled: a fresh store, so the token we sent is gone with the old one.
+    await initSession(alice, await exportBundle(await device("bob", 1)));
+    assert.deepEqual(devicesAwaitingDeliveryToken(alice, "bob", [1]), [1]);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { PrivateKey } from "@signalapp/libsignal-client";
+import { buildDeviceLinkMessage, type DeviceLinkEntry, type DeviceListResponse } from "@mega/shared";
+import {
+  exportBundle,
+  exportIdentityKey,
+  initSession,
+  signDeviceLink,
+  verifyDeviceLink,
+  InvalidDeviceLinkError,
+  type SignalState
+} from "../src/index";
+import { device } from "./helpers";
+
+function root(state: SignalState): DeviceLinkEntry {
+  return { deviceId: state.getDeviceId(), identityKey: exportIdentityKey(state) };
+}
+
+function linked(linker: SignalState, state: SignalState): DeviceLinkEntry {
+  const identityKey = exportIdentityKey(state);
+  return {
+    deviceId: state.getDeviceId(),
+    identityKey,
+    linkedBy: linker.getDeviceId(),
+    signature: signDeviceLink(linker, state.getDeviceId(), identityKey)
+  };
+}
+
+function list(id: string, links: DeviceLinkEntry[]): DeviceListResponse {
+  return { id, devices: links.map((entry) => entry.deviceId), links };
+}
+
+// A device key the relay made up, with a link it signed itself.
+function forged(deviceId: number, linkedBy: number): DeviceLinkEntry {
+  const key = PrivateKey.generate();
+  const linkerKey = PrivateKey.generate();
+  const identityKey = Buffer.from(key.getPublicKey().serialize()).toString("base64");
+  const signature = linkerKey.sign(buildDeviceLinkMessage({ id: "bob", deviceId, identityKey, linkedBy }));
+  return { deviceId, identityKey, linkedBy, signature: Buffer.from(signature).toString("base64") };
+}
+
+describe("device links", () => {
+  it("accepts a first device on first contact and devices it linked", async () => {
+    const alice = await device("alice", 1);
+    const bob = await device("bob", 1);
+    const bobCli = await device("bob", 2);
+    const bobLaptop = await device("bob", 3);
+    const devices = list("bob", [root(bob), linked(bob, bobCli), linked(bobCli, bobLaptop)]);
+
+    for (const deviceId of [1, 2, 3]) verifyDeviceLink(alice, devices, deviceId);
+  });
+
+  it("refuses a second unlinked device", async () => {
+    const alice = await device("alice", 1);
+    const bob = await device("bob", 1);
+    const injected = await device("bob", 7);
+    const devices = list("bob", [root(bob), root(injected)]);
+
+    assert.throws(() => verifyDeviceLink(alice, devices, 7), InvalidDeviceLinkError);
+    assert.throws(() => verifyDeviceLink(alice, devices, 1), InvalidDeviceLinkError);
+  });
+
+  it("refuses a link signed by a key other than the linker's", async () => {
+    const alice = await device("alice", 1);
+    const bob = await device("bob", 1);
+    const devices = list("bob", [root(bob), forged(7, 1)]);
+
+    assert.throws(() => verifyDeviceLink(alice, devices, 7), /not signed by device 1/);
+  });
+
+  it("refuses a linker listed with a key other than the one we hold", async () => {
+    const alice = await device("alice", 1);
+    const bob = await device("bob", 1);
+    await initSession(alice, await exportBundle(bob));
+
+    // The relay swaps device 1's key for one it holds and signs a new device with it.
+    const relayKey = PrivateKey.generate();
+    const swapped = { deviceId: 1, identityKey: Buffer.from(relayKey.getPublicKey().serialize()).toString("base64") };
+    const injectedKey = Buffer.from(PrivateKey.generate().getPublicKey().serialize()).toString("base64");
+    const message = buildDeviceLinkMessage({ id: "bob", deviceId: 7, identityKey: injectedKey, linkedBy: 1 });
+    const injected = {
+      deviceId: 7,
+      identityKey: injectedKey,
+      linkedBy: 1,
+      signature: Buffer.from(relayKey.sign(message)).toString("base64")
+    };
+
+    assert.throws(() => verifyDeviceLink(alice, list("bob", [swapped, injected]), 7), /key we do not hold/);
+  });
+
+  it("needs a link for any new device once the peer is known", async () => {
+    const alice = await device("alice", 1);
+    const bob = await device("bob", 1);
+    const bobCli = await device("bob", 2);
+    await initSession(alice, await exportBundle(bob));
+
+    verifyDeviceLink(alice, list("bob", [root(bob), linked(bob, bobCli)]), 2);
+    const unlinked = list("bob", [root(bob), root(bobCli)]);
+    assert.throws(() => verifyDeviceLink(alice, unlinked, 2), /carries no link signature/);
+  });
+
+  it("checks our own other devices against this one", async () => {
+    const bob = await device("bob", 1);
+    const bobCli = await device("bob", 2);
+    verifyDeviceLink(bob, list("bob", [root(bob), linked(bob, bobCli)]), 2);
+    assert.throws(() => verifyDeviceLink(bob, list("bob", [root(bob), forged(2, 1)]), 2), InvalidDeviceLinkError);
+  });
+});
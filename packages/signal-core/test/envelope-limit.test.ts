@@ -0,0 +1,29 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ProtocolAddress } from "@signalapp/libsignal-client";
+import { ENVELOPE_BODY_MAX_LENGTH } from "@mega/shared";
+import { decryptMessage, encryptMessage, exportBundle, initSession } from "../src/index";
+import { memoryDevice } from "./helpers";
+
+// The longest plaintext whose own base64 fits the limit; only the ciphertext overhead
+// pushes it over.
+const AT_LIMIT = (ENVELOPE_BODY_MAX_LENGTH / 4) * 3;
+
+describe("envelope size limit", () => {
+  it("measures the ciphertext, not the plaintext, and leaves the session as it was", async () => {
+    const alice = await memoryDevice("alice");
+    const bob = await memoryDevice("bob");
+    await initSession(alice, await exportBundle(bob));
+    const address = ProtocolAddress.new("bob", 1);
+    const before = alice.sessionStore.getSerialized(address);
+
+    // A PreKey message carries its keys, Kyber's among them, on top of the plaintext.
+    await assert.rejects(encryptMessage(alice, "bob", "x".repeat(AT_LIMIT)), /Message too large/);
+    await assert.rejects(encryptMessage(alice, "bob", "x".repeat(AT_LIMIT + 1)), /Message too large/);
+    assert.deepEqual(alice.sessionStore.getSerialized(address), before);
+
+    const fits = await encryptMessage(alice, "bob", "x".repeat(AT_LIMIT - 2048));
+    assert.ok(fits.body.length <= ENVELOPE_BODY_MAX_LENGTH);
+    assert.equal((await decryptMessage(bob, fits)).length, AT_LIMIT - 2048);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  encryptGroupMessage,
+  encryptSenderKeyForDevices,
+  exportBundle,
+  initSession,
+  openEnvelope,
+  syncGroup,
+  type GroupInfo,
+  type SignalState
+} from "../src/index";
+import { device } from "./helpers";
+
+// Does what a sender's client does before a group send: hand the current chain to every
+// member that lacks it and deliver those envelopes.
+async function distribute(sender: SignalState, group: GroupInfo, members: Record<string, SignalState>) {
+  syncGroup(sender, group);
+  for (const memberId of group.members) {
+    if (memberId === sender.getLocalIdentity()) continue;
+    for (const envelope of await encryptSenderKeyForDevices(sender, group.id, memberId, [1])) {
+      const opened = await openEnvelope(members[memberId], envelope);
+      assert.equal(opened.senderKeyDistribution, true);
+    }
+  }
+}
+
+describe("group messaging", () => {
+  it("delivers one sender-key ciphertext to every member", async () => {
+    const alice = await device("alice");
+    const bob = await device("bob");
+    const carol = await device("carol");
+    await initSession(alice, await exportBundle(bob));
+    await initSession(alice, await exportBundle(carol));
+
+    const group: GroupInfo = { id: "oncall-1", name: "oncall", owner: "alice", members: ["alice", "bob", "carol"] };
+    await distribute(alice, group, { bob, carol });
+    assert.deepEqual(await encryptSenderKeyForDevices(alice, group.id, "bob", [1]), []);
+
+    const envelope = await encryptGroupMessage(alice, group.id, "disk at 91%");
+    assert.equal(envelope.groupId, group.id);
+    for (const member of [bob, carol]) {
+      const opened = await openEnvelope(member, envelope);
+      assert.equal(opened.senderId, "alice");
+      assert.equal(opened.groupId, group.id);
+      assert.equal(opened.plaintext, "disk at 91%");
+    }
+  });
+
+  it("rotates the sender key when a member is removed", async () => {
+    const alice = await device("alice");
+    const bob = await device("bob");
+    const carol = await device("carol");
+    await initSession(alice, await exportBundle(bob));
+    await initSession(alice, await exportBundle(carol));
+
+    const group: GroupInfo = { id: "oncall-2", name: "oncall", owner: "alice", members: ["alice", "bob", "carol"] };
+    await distribute(alice, group, { bob, carol });
+    const before = syncGroup(alice, group).distributionId;
+
+    const shrunk = { ...group, members: ["alice", "bob"] };
+    await distribute(alice, shrunk, { bob });
+    assert.notEqual(syncGroup(alice, shrunk).distributionId, before);
+
+    const envelope = await encryptGroupMessage(alice, group.id, "carol is off rotation");
+    assert.equal((await openEnvelope(bob, envelope)).plaintext, "carol is off rotation");
+    await assert.rejects(openEnvelope(carol, envelope));
+  });
+});
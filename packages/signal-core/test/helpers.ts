@@ -0,0 +1,31 @@
+import { mkdtempSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  generatePreKeys,
+  initializeIdentity,
+  openMemoryStore,
+  openStore,
+  type SignalStateOptions
+} from "../src/index";
+
+// A database path in a fresh temporary directory.
+export function tempDb(name: string): string {
+  return path.join(mkdtempSync(path.join(os.tmpdir(), "mega-signal-test-")), `${name}.db`);
+}
+
+// An encrypted on-disk store with an identity and a couple of one-time prekeys.
+export async function device(id: string, deviceId = 1, options: SignalStateOptions = {}) {
+  const state = openStore(tempDb(`${id}-${deviceId}`), "passphrase", options);
+  await initializeIdentity(state, id, deviceId);
+  await generatePreKeys(state, 2);
+  return state;
+}
+
+// The same, held in memory only.
+export async function memoryDevice(id: string, deviceId = 1) {
+  const state = openMemoryStore();
+  await initializeIdentity(state, id, deviceId);
+  await generatePreKeys(state, 2);
+  return state;
+}
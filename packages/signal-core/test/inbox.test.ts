@@ -0,0 +1,67 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  deleteInboxMessage,
+  listInboxMessages,
+  markInboxMessagesRead,
+  openMemoryStore,
+  pruneInbox,
+  queryInboxMessages,
+  saveInboxMessage,
+  type InboxMessage
+} from "../src/index";
+
+function message(id: string, senderId: string, timestamp: number): InboxMessage {
+  return {
+    id,
+    senderId,
+    timestamp,
+    plaintext: `${id} from ${senderId}`,
+    envelope: { version: 1, sealed: true, recipientId: "alice", body: "sealed", timestamp }
+  };
+}
+
+function ids(messages: InboxMessage[]): string[] {
+  return messages.map((msg) => msg.id);
+}
+
+describe("inbox", () => {
+  it("queries by sender, time range and limit, oldest first", () => {
+    const state = openMemoryStore();
+    saveInboxMessage(state, message("m3", "bob", 3000));
+    saveInboxMessage(state, message("m1", "bob", 1000));
+    saveInboxMessage(state, message("m2", "carol:1", 2000));
+    saveInboxMessage(state, message("m4", "bob", 4000));
+
+    assert.deepEqual(ids(listInboxMessages(state)), ["m1", "m2", "m3", "m4"]);
+    assert.deepEqual(ids(queryInboxMessages(state, { senderId: "bob", limit: 2 })), ["m3", "m4"]);
+    assert.deepEqual(ids(queryInboxMessages(state, { since: 1000, until: 4000 })), ["m2", "m3"]);
+    assert.deepEqual(ids(queryInboxMessages(state, { senderId: "carol:1" })), ["m2"]);
+
+    assert.deepEqual(ids(markInboxMessagesRead(state, ["m1", "missing"], 5000)), ["m1"]);
+    assert.deepEqual(markInboxMessagesRead(state, ["m1"]), []);
+    assert.equal(queryInboxMessages(state, { limit: 1, until: 2000 })[0].readAt, 5000);
+
+    assert.equal(deleteInboxMessage(state, "m2"), true);
+    assert.equal(deleteInboxMessage(state, "m2"), false);
+    assert.deepEqual(ids(queryInboxMessages(state, { since: 1000, until: 4000 })), ["m3"]);
+  });
+
+  it("applies retention by age and count", () => {
+    const state = openMemoryStore();
+    for (let i = 1; i <= 5; i += 1) saveInboxMessage(state, message(`m${i}`, "bob", i * 1000));
+
+    assert.equal(pruneInbox(state, { maxAgeMs: 3500 }, 6000), 2);
+    assert.deepEqual(ids(listInboxMessages(state)), ["m3", "m4", "m5"]);
+    assert.equal(pruneInbox(state, { maxCount: 1 }), 2);
+    assert.deepEqual(ids(listInboxMessages(state)), ["m5"]);
+  });
+
+  it("indexes messages stored before the index existed", () => {
+    const state = openMemoryStore();
+    state.store.set("inbox:old", message("old", "bob", 1000));
+    saveInboxMessage(state, message("new", "bob", 2000));
+
+    assert.deepEqual(ids(queryInboxMessages(state, { senderId: "bob" })), ["old", "new"]);
+  });
+});
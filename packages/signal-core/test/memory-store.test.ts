@@ -0,0 +1,55 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  MemoryStore,
+  createBackup,
+  decryptMessage,
+  encryptMessage,
+  exportBundle,
+  exportIdentityKey,
+  initSession,
+  openStore,
+  restoreBackup
+} from "../src/index";
+import { memoryDevice } from "./helpers";
+
+describe("memory store", () => {
+  it("runs a full session without a database", async () => {
+    const alice = await memoryDevice("alice");
+    const bob = await memoryDevice("bob");
+    await initSession(alice, await exportBundle(bob));
+
+    assert.equal(await decryptMessage(bob, await encryptMessage(alice, "bob", "hello")), "hello");
+    assert.equal(await decryptMessage(alice, await encryptMessage(bob, "alice", "hi back")), "hi back");
+
+    // A backup taken from memory restores into an encrypted store on disk.
+    const dir = mkdtempSync(path.join(os.tmpdir(), "mega-memory-"));
+    const restored = openStore(path.join(dir, "alice.db"), "passphrase");
+    restoreBackup(restored, createBackup(alice, "backup secret"), "backup secret");
+    assert.equal(exportIdentityKey(restored), exportIdentityKey(alice));
+    assert.equal(await decryptMessage(restored, await encryptMessage(bob, "alice", "again")), "again");
+  });
+
+  it("rolls back a failed transaction and copies values", () => {
+    const store = new MemoryStore();
+    store.set("kept", { n: 1 });
+    assert.throws(() =>
+      store.transaction(() => {
+        store.set("kept", { n: 2 });
+        store.set("dropped", true);
+        throw new Error("boom");
+      })
+    );
+    assert.deepEqual(store.get("kept"), { n: 1 });
+    assert.equal(store.has("dropped"), false);
+
+    const bytes = new Uint8Array([1, 2, 3]);
+    store.set("bytes", bytes);
+    bytes[0] = 9;
+    assert.deepEqual(store.get("bytes"), new Uint8Array([1, 2, 3]));
+    assert.deepEqual(store.listKeysByPrefix("k"), ["kept"]);
+  });
+});
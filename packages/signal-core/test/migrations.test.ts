@@ -0,0 +1,67 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import Database from "better-sqlite3";
+import { SchemaTooNewError, migrate, openStore, schemaVersion, type Migration } from "../src/index";
+
+function tempDb(): string {
+  return path.join(mkdtempSync(path.join(os.tmpdir(), "mega-migrate-")), "state.db");
+}
+
+describe("migrations", () => {
+  it("applies pending migrations once, per component", () => {
+    const db = new Database(tempDb());
+    const applied: string[] = [];
+    const migrations: Migration[] = [
+      {
+        version: 1,
+        name: "notes",
+        up: (m) => {
+          applied.push("notes");
+          m.exec("CREATE TABLE notes (id INTEGER PRIMARY KEY)");
+        }
+      },
+      {
+        version: 2,
+        name: "notes-body",
+        up: (m) => {
+          applied.push("notes-body");
+          m.exec("ALTER TABLE notes ADD COLUMN body TEXT");
+        }
+      }
+    ];
+
+    assert.deepEqual(migrate(db, "notes", migrations.slice(0, 1)), { from: 0, to: 1 });
+    assert.deepEqual(migrate(db, "notes", migrations), { from: 1, to: 2 });
+    assert.deepEqual(migrate(db, "notes", migrations), { from: 2, to: 2 });
+    assert.deepEqual(applied, ["notes", "notes-body"]);
+    assert.equal(schemaVersion(db, "other"), 0);
+  });
+
+  it("rolls back a failed migration and refuses a newer schema", () => {
+    const dbPath = tempDb();
+    const db = new Database(dbPath);
+    const broken: Migration = {
+      version: 1,
+      name: "broken",
+      up: (m) => {
+        m.exec("CREATE TABLE half (id INTEGER)");
+        m.exec("INSERT INTO missing VALUES (1)");
+      }
+    };
+    assert.throws(() => migrate(db, "broken", [broken]));
+    assert.equal(schemaVersion(db, "broken"), 0);
+    assert.equal(db.prepare("SELECT name FROM sqlite_master WHERE name = 'half'").get(), undefined);
+
+    openStore(dbPath, "passphrase");
+    db.prepare("INSERT INTO schema_version (component, version, name, applied_at) VALUES (?, ?, ?, ?)").run(
+      "signal-store",
+      99,
+      "from the future",
+      Date.now()
+    );
+    assert.throws(() => openStore(dbPath, "passphrase"), SchemaTooNewError);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  decryptMessage,
+  encryptMessage,
+  encryptMessageForDevices,
+  exportBundle,
+  initSession,
+  listSessionDeviceIds
+} from "../src/index";
+import { device } from "./helpers";
+
+describe("multi-device sessions", () => {
+  it("fans out to every device and decrypts with the sender's device id", async () => {
+    const alice = await device("alice", 1);
+    const bobCli = await device("bob", 1);
+    const bobWeb = await device("bob", 2);
+
+    await initSession(alice, await exportBundle(bobCli));
+    await initSession(alice, await exportBundle(bobWeb));
+    assert.deepEqual(listSessionDeviceIds(alice, "bob"), [1, 2]);
+
+    const [toCli, toWeb] = await encryptMessageForDevices(alice, "bob", "status?");
+    assert.equal(toCli.recipientDeviceId, 1);
+    assert.equal(toWeb.recipientDeviceId, 2);
+    assert.equal(await decryptMessage(bobCli, toCli), "status?");
+    assert.equal(await decryptMessage(bobWeb, toWeb), "status?");
+
+    const reply = await encryptMessage(bobWeb, "alice", "all good");
+    assert.equal(reply.senderDeviceId, 2);
+    assert.equal(await decryptMessage(alice, reply), "all good");
+  });
+});
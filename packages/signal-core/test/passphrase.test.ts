@@ -0,0 +1,31 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  changePassphrase,
+  exportIdentityKey,
+  generatePreKeys,
+  initializeIdentity,
+  openStore,
+  WrongPassphraseError
+} from "../src/index";
+
+describe("store passphrase", () => {
+  it("refuses a wrong passphrase at open and re-encrypts on change", async () => {
+    const dbPath = path.join(mkdtempSync(path.join(os.tmpdir(), "mega-rekey-")), "alice.db");
+    const state = openStore(dbPath, "old secret");
+    await initializeIdentity(state, "alice", 1);
+    await generatePreKeys(state, 2);
+    const identityKey = exportIdentityKey(state);
+
+    assert.throws(() => openStore(dbPath, "guess"), WrongPassphraseError);
+    assert.throws(() => changePassphrase(state, "guess", "new secret"), WrongPassphraseError);
+
+    changePassphrase(state, "old secret", "new secret");
+    assert.equal(exportIdentityKey(state), identityKey);
+    assert.throws(() => openStore(dbPath, "old secret"), WrongPassphraseError);
+    assert.equal(exportIdentityKey(openStore(dbPath, "new secret")), identityKey);
+  });
+});
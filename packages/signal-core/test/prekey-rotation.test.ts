@@ -0,0 +1,38 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { exportBundle, generatePreKeys } from "../src/index";
+import { device } from "./helpers";
+
+describe("prekey rotation", () => {
+  it("only mints signed and Kyber prekeys once across generatePreKeys calls", async () => {
+    const state = await device("alice");
+    await generatePreKeys(state, 2);
+    const bundle = await exportBundle(state);
+    assert.equal(bundle.signedPreKey.keyId, 1);
+    assert.equal(bundle.kyberPreKey.keyId, 1);
+  });
+
+  it("keeps retired keys through the grace window and purges them afterwards", async () => {
+    const state = await device("alice");
+
+    const notDue = await state.rotatePreKeys({ intervalMs: 60_000 });
+    assert.equal(notDue.rotated, false);
+
+    const rotated = await state.rotatePreKeys({ force: true, graceMs: 60_000 });
+    assert.equal(rotated.rotated, true);
+    assert.equal(rotated.signedPreKeyId, 2);
+    assert.equal((await exportBundle(state)).signedPreKey.keyId, 2);
+    assert.equal(state.signedPreKeyStore.hasSignedPreKey(1), true);
+    assert.equal(state.kyberPreKeyStore.hasKyberPreKey(1), true);
+
+    const purged = await state.rotatePreKeys({ graceMs: 0 });
+    assert.equal(purged.rotated, false);
+    assert.deepEqual(
+      purged.purged.map((entry) => `${entry.kind}:${entry.id}`),
+      ["signed:1", "kyber:1"]
+    );
+    assert.equal(state.signedPreKeyStore.hasSignedPreKey(1), false);
+    assert.equal(state.kyberPreKeyStore.hasKyberPreKey(1), false);
+    assert.equal(state.signedPreKeyStore.hasSignedPreKey(2), true);
+  });
+});
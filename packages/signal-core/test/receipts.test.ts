@@ -0,0 +1,42 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  applyReceipt,
+  encodeReceiptMessage,
+  listSentMessages,
+  openStore,
+  parseReceiptMessage,
+  saveSentMessage,
+  sentMessageStatus
+} from "../src/index";
+
+function store() {
+  const dir = mkdtempSync(path.join(os.tmpdir(), "mega-receipts-"));
+  return openStore(path.join(dir, "alice.db"), "passphrase");
+}
+
+describe("receipts", () => {
+  it("moves sent messages forward and never back", () => {
+    const state = store();
+    saveSentMessage(state, { id: "m1", recipientId: "bob", plaintext: "hi", timestamps: [100, 101], sentAt: 100 });
+    saveSentMessage(state, { id: "m2", recipientId: "bob", plaintext: "again", timestamps: [200], sentAt: 200 });
+
+    const delivered = parseReceiptMessage(encodeReceiptMessage("delivered", [101]))!;
+    assert.deepEqual(applyReceipt(state, "bob", delivered, 150).map((msg) => msg.id), ["m1"]);
+    assert.deepEqual(applyReceipt(state, "carol", delivered, 150), []);
+
+    applyReceipt(state, "bob", parseReceiptMessage(encodeReceiptMessage("read", [100, 200]))!, 300);
+    applyReceipt(state, "bob", delivered, 400);
+    const [first, second] = listSentMessages(state);
+    assert.deepEqual([first.deliveredAt, first.readAt, sentMessageStatus(first)], [150, 300, "read"]);
+    assert.deepEqual([second.deliveredAt, sentMessageStatus(second)], [300, "read"]);
+  });
+
+  it("ignores anything that is not a receipt", () => {
+    assert.equal(parseReceiptMessage("delivered"), undefined);
+    assert.equal(parseReceiptMessage('{"type":"mega.receipt.v1","receipt":"seen","timestamps":[1]}'), undefined);
+  });
+});
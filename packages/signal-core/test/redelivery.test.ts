@@ -0,0 +1,27 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  decryptMessage,
+  encryptMessage,
+  exportBundle,
+  initSession,
+  isDuplicateMessageError
+} from "../src/index";
+import { device } from "./helpers";
+
+describe("redelivery", () => {
+  it("reports a redelivered frame as a duplicate so it can be acked", async () => {
+    const alice = await device("alice");
+    const bob = await device("bob");
+    await initSession(alice, await exportBundle(bob));
+
+    const first = await encryptMessage(alice, "bob", "one");
+    const second = await encryptMessage(alice, "bob", "two");
+    assert.equal(await decryptMessage(bob, first), "one");
+    assert.equal(await decryptMessage(bob, second), "two");
+
+    for (const envelope of [first, second]) {
+      await assert.rejects(decryptMessage(bob, envelope), (err: unknown) => isDuplicateMessageError(err));
+    }
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { PublicKey } from "@signalapp/libsignal-client";
+import { RelayAuthHeaders, buildRelayAuthMessage } from "@mega/shared";
+import { createRelayAuthHeaders, exportIdentityKey, initializeIdentity, openStore } from "../src/index";
+import { fromBase64 } from "../src/crypto";
+
+describe("relay auth", () => {
+  it("signs requests with the local identity key", async () => {
+    const dir = mkdtempSync(path.join(os.tmpdir(), "mega-auth-"));
+    const state = openStore(path.join(dir, "alice.db"), "passphrase");
+    await initializeIdentity(state, "alice");
+
+    const body = JSON.stringify({ hello: "relay" });
+    const headers = createRelayAuthHeaders(state, "POST", "/v1/messages", body);
+    assert.equal(headers[RelayAuthHeaders.id], "alice");
+    assert.equal(headers[RelayAuthHeaders.device], "1");
+
+    const key = PublicKey.deserialize(fromBase64(exportIdentityKey(state)));
+    const signature = fromBase64(headers[RelayAuthHeaders.signature]);
+    const timestamp = Number(headers[RelayAuthHeaders.timestamp]);
+    const signed = { method: "POST", path: "/v1/messages", id: "alice", deviceId: 1, timestamp };
+    const message = buildRelayAuthMessage({ ...signed, body });
+    assert.equal(key.verify(message, signature), true);
+
+    const tampered = buildRelayAuthMessage({ ...signed, body: "{}" });
+    assert.equal(key.verify(tampered, signature), false);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { PrivateKey, ProtocolAddress } from "@signalapp/libsignal-client";
+import {
+  encryptMessage,
+  exportBundle,
+  getSafetyNumber,
+  initSession,
+  matchesSafetyNumber,
+  openEnvelope,
+  setIdentityVerified
+} from "../src/index";
+import { device } from "./helpers";
+
+describe("safety numbers", () => {
+  it("match on both sides and survive only while the key does", async () => {
+    const alice = await device("alice");
+    const bob = await device("bob");
+    await initSession(alice, await exportBundle(bob));
+    await openEnvelope(bob, await encryptMessage(alice, "bob", "hi"));
+
+    const fromAlice = await getSafetyNumber(alice, "bob");
+    const fromBob = await getSafetyNumber(bob, "alice");
+    assert.match(fromAlice.displayable, /^\d{60}$/);
+    assert.equal(fromAlice.displayable, fromBob.displayable);
+    assert.equal(await matchesSafetyNumber(alice, "bob", fromBob.scannable), true);
+    assert.equal(await matchesSafetyNumber(alice, "bob", "12345 ".repeat(12)), false);
+
+    assert.equal((await setIdentityVerified(alice, "bob", true)).verified, true);
+    await alice.identityStore.saveIdentity(ProtocolAddress.new("bob", 1), PrivateKey.generate().getPublicKey());
+    assert.equal((await getSafetyNumber(alice, "bob")).verified, false);
+  });
+});
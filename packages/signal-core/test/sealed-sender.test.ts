@@ -0,0 +1,84 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { PrivateKey, SenderCertificate, ServerCertificate } from "@signalapp/libsignal-client";
+import { ENVELOPE_BODY_MAX_LENGTH } from "@mega/shared";
+import {
+  decryptMessage,
+  encryptMessage,
+  exportBundle,
+  initSession,
+  openEnvelope,
+  pinTrustRoot,
+  saveSenderCertificate,
+  sealMessage,
+  type SignalState
+} from "../src/index";
+import { device } from "./helpers";
+
+const toBase64 = (bytes: Uint8Array) => Buffer.from(bytes).toString("base64");
+
+// Stands in for the relay's certificate issuer.
+function issuer() {
+  const trustRoot = PrivateKey.generate();
+  const serverKey = PrivateKey.generate();
+  const serverCertificate = ServerCertificate.new(1, serverKey.getPublicKey(), trustRoot);
+  return {
+    trustRoot: toBase64(trustRoot.getPublicKey().serialize()),
+    certify(state: SignalState) {
+      const certificate = SenderCertificate.new(
+        state.getLocalIdentity()!,
+        null,
+        state.getDeviceId(),
+        state.getIdentityKeyPair().publicKey,
+        Date.now() + 60_000,
+        serverCertificate,
+        serverKey
+      );
+      return toBase64(certificate.serialize());
+    }
+  };
+}
+
+describe("sealed sender", () => {
+  it("hides the sender in the envelope and recovers it on decrypt", async () => {
+    const relay = issuer();
+    const alice = await device("alice");
+    const bob = await device("bob");
+    pinTrustRoot(alice, relay.trustRoot);
+    pinTrustRoot(bob, relay.trustRoot);
+    saveSenderCertificate(alice, relay.certify(alice));
+
+    await initSession(alice, await exportBundle(bob));
+    const envelope = await sealMessage(alice, "bob", "disk at 91%");
+    assert.equal(envelope.sealed, true);
+    assert.ok(!JSON.stringify(envelope).includes("alice"));
+
+    const opened = await openEnvelope(bob, envelope);
+    assert.deepEqual(opened, { senderId: "alice", senderDeviceId: 1, plaintext: "disk at 91%", sealed: true });
+  });
+
+  it("counts the certificate against the envelope size limit", async () => {
+    const relay = issuer();
+    const alice = await device("alice");
+    const bob = await device("bob");
+    pinTrustRoot(alice, relay.trustRoot);
+    saveSenderCertificate(alice, relay.certify(alice));
+    await initSession(alice, await exportBundle(bob));
+    await decryptMessage(bob, await encryptMessage(alice, "bob", "hi"));
+    await decryptMessage(alice, await encryptMessage(bob, "alice", "hi back"));
+
+    // Fits as a plain Whisper message, but not once sealed with the certificate.
+    const plaintext = "x".repeat((ENVELOPE_BODY_MAX_LENGTH / 4) * 3 - 200);
+    await assert.rejects(sealMessage(alice, "bob", plaintext), /Message too large/);
+    assert.equal(await decryptMessage(bob, await encryptMessage(alice, "bob", plaintext)), plaintext);
+  });
+
+  it("rejects certificates from another trust root", async () => {
+    const relay = issuer();
+    const alice = await device("alice");
+    pinTrustRoot(alice, relay.trustRoot);
+
+    assert.throws(() => saveSenderCertificate(alice, issuer().certify(alice)), /trust root/);
+    assert.throws(() => pinTrustRoot(alice, issuer().trustRoot), /changed/);
+  });
+});
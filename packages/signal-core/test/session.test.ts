@@ -0,0 +1,111 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  archiveSession,
+  decryptMessage,
+  encryptMessage,
+  exportBundle,
+  exportIdentityKey,
+  generatePreKeys,
+  getSessionInfo,
+  initSession,
+  initializeIdentity,
+  isStaleSessionError,
+  listSessions,
+  openMemoryStore
+} from "../src/index";
+import { fromBase64, toBase64 } from "../src/crypto";
+import { memoryDevice } from "./helpers";
+
+describe("session management", () => {
+  it("reports version, remote identity and whether the peer has replied", async () => {
+    const alice = await memoryDevice("alice");
+    const bob = await memoryDevice("bob");
+    const before = Date.now();
+    await initSession(alice, await exportBundle(bob));
+
+    const started = getSessionInfo(alice, "bob");
+    assert.ok(started);
+    assert.equal(started.usable, true);
+    assert.equal(started.version, 4);
+    assert.equal(started.remoteIdentityKey, exportIdentityKey(bob));
+    assert.equal(started.remoteRegistrationId, bob.getRegistrationId());
+    assert.equal(started.pendingPreKey, true);
+    assert.equal(started.archivedStates, 0);
+    assert.ok(started.establishedAt !== undefined && started.establishedAt >= before);
+
+    await decryptMessage(bob, await encryptMessage(alice, "bob", "hello"));
+    await decryptMessage(alice, await encryptMessage(bob, "alice", "hi back"));
+    const replied = getSessionInfo(alice, "bob");
+    assert.equal(replied?.pendingPreKey, false);
+    assert.equal(replied?.establishedAt, started.establishedAt);
+    assert.deepEqual(
+      listSessions(alice).map(({ peerId, deviceId }) => [peerId, deviceId]),
+      [["bob", 1]]
+    );
+    assert.deepEqual(listSessions(alice, "carol"), []);
+  });
+
+  it("archives the current session so the next send needs a new bundle", async () => {
+    const alice = await memoryDevice("alice");
+    const bob = await memoryDevice("bob");
+    await initSession(alice, await exportBundle(bob));
+    const inFlight = await encryptMessage(alice, "bob", "sent before the reset");
+
+    assert.deepEqual(await archiveSession(alice, "bob"), [1]);
+    assert.deepEqual(await archiveSession(alice, "bob"), []);
+    const archived = getSessionInfo(alice, "bob");
+    assert.equal(archived?.usable, false);
+    assert.equal(archived?.archivedStates, 1);
+    // Only a failure to decrypt means the peer's session went stale; this one is ours.
+    await assert.rejects(encryptMessage(alice, "bob", "no session"), (err: unknown) => {
+      assert.match(String(err), /session with bob\.1 not found/);
+      return !isStaleSessionError(err);
+    });
+
+    // Bob reinstalled: Alice's old session means nothing to him until she starts over. His
+    // prekeys reuse the old ids, so this fails like tampered ciphertext rather than as stale.
+    const reinstalled = await memoryDevice("bob");
+    await assert.rejects(decryptMessage(reinstalled, inFlight));
+    await generatePreKeys(bob, 1);
+    await initSession(alice, await exportBundle(bob));
+    const fresh = getSessionInfo(alice, "bob");
+    assert.equal(fresh?.usable, true);
+    assert.equal(fresh?.archivedStates, 1);
+    assert.equal(await decryptMessage(bob, await encryptMessage(alice, "bob", "fresh")), "fresh");
+  });
+
+  it("counts a missing session or prekey as stale, but not ciphertext that fails to decrypt", async () => {
+    const alice = await memoryDevice("alice");
+    const bob = await memoryDevice("bob");
+    await initSession(alice, await exportBundle(bob));
+    const first = await encryptMessage(alice, "bob", "first");
+
+    // A PreKey message built on prekeys Bob no longer holds.
+    const bare = openMemoryStore();
+    await initializeIdentity(bare, "bob", 1);
+    await assert.rejects(decryptMessage(bare, first), (err: unknown) => {
+      assert.match(String(err), /SignedPreKey \d+ not found/);
+      return isStaleSessionError(err);
+    });
+
+    await decryptMessage(bob, first);
+    await decryptMessage(alice, await encryptMessage(bob, "alice", "reply"));
+    const next = await encryptMessage(alice, "bob", "next");
+    // A Whisper message to a store with no session for the sender.
+    await assert.rejects(decryptMessage(await memoryDevice("bob"), next), (err: unknown) => {
+      assert.match(String(err), /session with alice\.1 not found/);
+      return isStaleSessionError(err);
+    });
+
+    // The same message with its last byte (the MAC) flipped fails on the session Bob holds.
+    const bytes = fromBase64(next.body);
+    bytes[bytes.length - 1] ^= 1;
+    const tampered = { ...next, body: toBase64(bytes) };
+    await assert.rejects(decryptMessage(bob, tampered), (err: unknown) => {
+      assert.match(String(err), /decryption failed/);
+      return !isStaleSessionError(err);
+    });
+    assert.equal(await decryptMessage(bob, next), "next");
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { EncryptedStore, MemoryStore, type StorageAdapter } from "../src/index";
+import { tempDb } from "./helpers";
+
+const adapters: [string, () => StorageAdapter][] = [
+  ["encrypted store", () => new EncryptedStore(tempDb("store"), "passphrase")],
+  ["memory store", () => new MemoryStore()]
+];
+
+for (const [name, open] of adapters) {
+  describe(`${name} prefix listing`, () => {
+    it("matches the prefix literally and case-sensitively, in key order", () => {
+      const store = open();
+      for (const key of ["sent:bob_1:b", "sent:bob_1:a", "sent:bobx1:a", "SENT:bob_1:c", "sent:bob_10", "sent:bob"]) {
+        store.set(key, true);
+      }
+      assert.deepEqual(store.listKeysByPrefix("sent:bob_1:"), ["sent:bob_1:a", "sent:bob_1:b"]);
+      assert.deepEqual(store.listKeysByPrefix("sent:bob_1"), ["sent:bob_10", "sent:bob_1:a", "sent:bob_1:b"]);
+      assert.deepEqual(store.listKeysByPrefix("sent:"), [
+        "sent:bob",
+        "sent:bob_10",
+        "sent:bob_1:a",
+        "sent:bob_1:b",
+        "sent:bobx1:a"
+      ]);
+    });
+
+    it("treats % and backslashes in the prefix as plain characters", () => {
+      const store = open();
+      for (const key of ["group:100%:a", "group:100x:a", "group:a\\b:1", "group:a\\c:1", "group:é:1", "group:😀:1"]) {
+        store.set(key, true);
+      }
+      assert.deepEqual(store.listKeysByPrefix("group:100%"), ["group:100%:a"]);
+      assert.deepEqual(store.listKeysByPrefix("group:a\\b"), ["group:a\\b:1"]);
+      assert.deepEqual(store.listKeysByPrefix("group:é"), ["group:é:1"]);
+      assert.deepEqual(store.listKeysByPrefix("group:😀"), ["group:😀:1"]);
+      assert.deepEqual(store.listKeysByPrefix("group:zzz"), []);
+    });
+  });
+}
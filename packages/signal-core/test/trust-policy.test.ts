@@ -0,0 +1,67 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  exportBundle,
+  getIdentityTrust,
+  initSession,
+  isUntrustedIdentityError,
+  listIdentityHistory,
+  setIdentityVerified,
+  trustIdentity,
+  untrustIdentity
+} from "../src/index";
+import { device } from "./helpers";
+
+describe("identity trust policy", () => {
+  it("refuses a changed key under tofu until it is trusted", async () => {
+    const alice = await device("alice");
+    await initSession(alice, await exportBundle(await device("bob")));
+    // bob reinstalls: same name, new identity key.
+    const reinstalled = await exportBundle(await device("bob"));
+
+    await assert.rejects(initSession(alice, reinstalled), isUntrustedIdentityError);
+    assert.equal(getIdentityTrust(alice, "bob").status, "pending");
+    assert.equal(getIdentityTrust(alice, "bob").pendingKey, reinstalled.identityKey);
+
+    trustIdentity(alice, "bob");
+    assert.equal(getIdentityTrust(alice, "bob").status, "trusted");
+    await initSession(alice, reinstalled);
+    assert.deepEqual(
+      listIdentityHistory(alice, "bob").map((event) => event.kind),
+      ["first-seen", "refused", "trusted"]
+    );
+
+    untrustIdentity(alice, "bob");
+    assert.equal(getIdentityTrust(alice, "bob").status, "blocked");
+    await assert.rejects(initSession(alice, reinstalled), isUntrustedIdentityError);
+  });
+
+  it("accepts a changed key under warn but reports it until approved", async () => {
+    const events: string[] = [];
+    const alice = await device("alice", 1, {
+      trustPolicy: "warn",
+      onIdentityEvent: (event) => events.push(`${event.kind}:${event.address}`)
+    });
+    await initSession(alice, await exportBundle(await device("bob")));
+    await initSession(alice, await exportBundle(await device("bob")));
+
+    assert.deepEqual(events, ["first-seen:bob.1", "changed:bob.1"]);
+    assert.equal(getIdentityTrust(alice, "bob").status, "changed");
+    trustIdentity(alice, "bob");
+    assert.equal(getIdentityTrust(alice, "bob").status, "trusted");
+  });
+
+  it("only trusts verified keys under strict", async () => {
+    const alice = await device("alice", 1, { trustPolicy: "strict" });
+    const bundle = await exportBundle(await device("bob"));
+
+    await assert.rejects(initSession(alice, bundle), isUntrustedIdentityError);
+    assert.equal(getIdentityTrust(alice, "bob").status, "pending");
+    assert.equal((await setIdentityVerified(alice, "bob", true)).verified, true);
+    await initSession(alice, bundle);
+    assert.equal(getIdentityTrust(alice, "bob").status, "trusted");
+
+    await setIdentityVerified(alice, "bob", false);
+    assert.equal(getIdentityTrust(alice, "bob").status, "unverified");
+  });
+});
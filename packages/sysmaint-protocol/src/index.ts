@@ -5,7 +5,9 @@ export const RelayCountsSchema = z.object({
   users: z.number().int().nonnegative(),
   prekeys: z.number().int().nonnegative(),
   queuedMessages: z.number().int().nonnegative(),
-  activeConnections: z.number().int().nonnegative()
+  activeConnections: z.number().int().nonnegative(),
+  throttledRequests: z.number().int().nonnegative().optional(),
+  quotaRejections: z.number().int().nonnegative().optional()
 });
 
 export const RelaySnapshotSchema = z.object({
@@ -41,6 +43,17 @@ export const SysmaintChatReplySchema = z.object({
   createdAt: z.number().int().positive()
 });
 
+// Sent back for a chat.prompt or chat.reply once it has been decrypted ("delivered") and
+// once it has been acted on or shown ("read", which implies delivered).
+export const SysmaintChatReceiptSchema = z.object({
+  version: z.literal(1),
+  kind: z.literal("chat.receipt"),
+  requestId: z.string().min(1),
+  receipt: z.enum(["delivered", "read"]),
+  from: z.string().min(1),
+  createdAt: z.number().int().positive()
+});
+
 export const SysmaintTelemetryReportSchema = z.object({
   version: z.literal(1),
   kind: z.literal("telemetry.report"),
@@ -60,6 +73,7 @@ export const SysmaintControlSchema = z.object({
 export const SysmaintMessageSchema = z.discriminatedUnion("kind", [
   SysmaintChatPromptSchema,
   SysmaintChatReplySchema,
+  SysmaintChatReceiptSchema,
   SysmaintTelemetryReportSchema,
   SysmaintControlSchema
 ]);
@@ -68,6 +82,7 @@ export type RelaySnapshot = z.infer<typeof RelaySnapshotSchema>;
 export type HostMetrics = z.infer<typeof HostMetricsSchema>;
 export type SysmaintChatPrompt = z.infer<typeof SysmaintChatPromptSchema>;
 export type SysmaintChatReply = z.infer<typeof SysmaintChatReplySchema>;
+export type SysmaintChatReceipt = z.infer<typeof SysmaintChatReceiptSchema>;
 export type SysmaintTelemetryReport = z.infer<typeof SysmaintTelemetryReportSchema>;
 export type SysmaintMessage = z.infer<typeof SysmaintMessageSchema>;
 
@@ -41,11 +41,11 @@ for _ in $(seq 1 30); do
 done
 
 MEGA_PASSPHRASE="$PASSPHRASE" docker compose run --rm cli init --id alice --db "$DBA"
-MEGA_PASSPHRASE="$PASSPHRASE" docker compose run --rm cli client register --id alice --server "$SERVER_INTERNAL"
+MEGA_PASSPHRASE="$PASSPHRASE" docker compose run --rm cli client register --id alice --server "$SERVER_INTERNAL" --db "$DBA"
 MEGA_PASSPHRASE="$PASSPHRASE" docker compose run --rm cli client prekeys upload --server "$SERVER_INTERNAL" --db "$DBA"
 
 MEGA_PASSPHRASE="$PASSPHRASE" docker compose run --rm cli init --id bob --db "$DBB"
-MEGA_PASSPHRASE="$PASSPHRASE" docker compose run --rm cli client register --id bob --server "$SERVER_INTERNAL"
+MEGA_PASSPHRASE="$PASSPHRASE" docker compose run --rm cli client register --id bob --server "$SERVER_INTERNAL" --db "$DBB"
 MEGA_PASSPHRASE="$PASSPHRASE" docker compose run --rm cli client prekeys upload --server "$SERVER_INTERNAL" --db "$DBB"
 
 MEGA_PASSPHRASE="$PASSPHRASE" docker compose run --rm cli client listen --id alice --server "$SERVER_INTERNAL" --db "$DBA" >"$LISTEN_LOG" 2>&1 &